@@ -7,11 +7,13 @@ import SuperAdminDashboard from './components/SuperAdminDashboard';
 import CandidatePortal from './components/CandidatePortal';
 import ExamInterface from './components/ExamInterface';
 import SubmissionDetailModal from './components/SubmissionDetailModal';
+import AccessCodeModal from './components/AccessCodeModal';
 import Auth from './components/Auth';
 import { initializeCspMonitoring } from './services/securityService';
 import { useSystem } from './services/SystemContext';
 import { api } from './services/api';
 import { useToast } from './services/ToastContext';
+import { findJournaledAttempt, openJournal, readJournal, saveJournalSession } from './services/answerJournal';
 import { useQuestions } from './hooks/useQuestions';
 import { useExams } from './hooks/useExams';
 import DebugPage from './components/DebugPage';
@@ -25,7 +27,7 @@ const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeExam, setActiveExam] = useState<Exam | null>(null);
-  const [activeSubmission, setActiveSubmission] = useState<{ id: string, answers: any, startTime: number } | null>(null);
+  const [activeSubmission, setActiveSubmission] = useState<{ id: string, answers: any, startTime: number, deadline?: number, serverNow?: number, onBreak?: boolean, breakSecondsLeft?: number, sectionIndex?: number, sectionDeadline?: number | null, draftSeq?: number, flags?: string[], mediaPlays?: Record<string, number>, pendingSubmitKey?: string } | null>(null);
   const [isAdminPreview, setIsAdminPreview] = useState(false);
   const [announcements, setAnnouncements] = useState<BlogPost[]>([]);
   const [candidateTab, setCandidateTab] = useState<'available' | 'history'>('available');
@@ -69,6 +71,28 @@ const App: React.FC = () => {
           setUser(null);
         } else {
           console.error("Session check failed (network/server):", e);
+
+          // Reloaded mid-exam without a connection: carry on from the local answer journal
+          const journaled = await findJournaledAttempt();
+          if (journaled) {
+            const { submissionId, session, state } = journaled;
+            setUser(session.user);
+            setActiveSubmission({
+              id: submissionId,
+              answers: state.answers,
+              startTime: session.startTime,
+              deadline: state.clock?.deadline,
+              serverNow: state.clock ? Date.now() + state.clock.clockOffset : undefined,
+              breakSecondsLeft: state.clock?.breakSecondsLeft,
+              sectionIndex: state.clock?.sectionIndex,
+              sectionDeadline: state.clock?.sectionDeadline,
+              draftSeq: state.seq,
+              flags: state.flags,
+              mediaPlays: state.mediaPlays,
+              pendingSubmitKey: state.submitKey
+            });
+            setActiveExam(session.exam);
+          }
           // Keep loading false, but don't logout user if they were logged in? 
           // Actually if we don't know, maybe best to stay put or retry?
           // For now, let's assume if me() fails, we might be offline. 
@@ -135,19 +159,21 @@ const App: React.FC = () => {
     api.admin.announcements.list().then(setAnnouncements);
   };
 
-  const handleSubmitExam = async (partialSub: Partial<Submission>) => {
-    try {
-      if (partialSub.id) {
-        await api.submissions.update(partialSub.id, partialSub);
-      } else {
-        // Fallback or error if no ID
-        await api.submissions.create(partialSub);
+  // Failures are rethrown: ExamInterface keeps the hand-in in its journal and retries
+  const handleSubmitExam = async (partialSub: Partial<Submission> & { submitKey?: string }) => {
+    if (partialSub.id) {
+      const saved = await api.submissions.update(partialSub.id, partialSub);
+      if (saved.lateRejected) {
+        addToast('Time was up, so your last saved answers were submitted instead.', 'info');
+        setActiveExam(null);
+        return;
       }
-      addToast('Exam submitted successfully!', 'success');
-      setActiveExam(null);
-    } catch (e) {
-      addToast('Failed to submit exam.', 'error');
+    } else {
+      // Fallback or error if no ID
+      await api.submissions.create(partialSub);
     }
+    addToast('Exam submitted successfully!', 'success');
+    setActiveExam(null);
   };
 
   const handleAnnouncementUpdate = async (posts: BlogPost[]) => {
@@ -200,51 +226,91 @@ const App: React.FC = () => {
   };
 
 
+  const [accessCodeExam, setAccessCodeExam] = useState<Exam | null>(null);
+
   const handleStartExam = async (exam: Exam) => {
+    // Supervised sittings: a new attempt needs the invigilator's start code (resuming does not)
+    if (exam.requiresAccessCode && !exam.attemptStatus?.inProgress) {
+      setAccessCodeExam(exam);
+      return;
+    }
     try {
-      // 1. Start Attempt (Create/Resume Submission)
-      const session = await api.exams.start(exam.id);
-
-      // 2. Use the exam returned by the session if available (it contains questions)
-      let fullExam = (session as any).exam || exam;
-
-      // Fallback: Fetch full exam details if questions are still missing
-      // Note: Admin preview fetched it above. Candidate start fetched it via session.
-      if (!fullExam.questions || fullExam.questions.length === 0) {
-        try {
-          const fetched = await api.exams.get(exam.id);
-          if (fetched && fetched.questions && fetched.questions.length > 0) {
-            fullExam = fetched;
-          }
-        } catch (err) {
-          console.error("Fallback fetch failed", err);
-        }
-      }
+      await openExam(exam);
+    } catch (e: any) {
+      addToast(e.message || "Failed to start exam.", "error");
+    }
+  };
 
-      if (!fullExam.questions || fullExam.questions.length === 0) {
-        addToast("Error: Exam has no questions.", "error");
-        return;
-      }
+  // Throws when the attempt cannot start, so the start code dialog can show why
+  const openExam = async (exam: Exam, accessCode?: string) => {
+    // 1. Start Attempt (Create/Resume Submission)
+    const session = await api.exams.start(exam.id, accessCode);
 
-      // Ensure session object has expected properties. 
-      // If api.exams.start returns { exam, startTime }, we might need to fetch submission separately?
-      // Check return type of api.exams.start in api.ts
+    // 2. Use the exam returned by the session if available (it contains questions)
+    let fullExam = (session as any).exam || exam;
 
-      const subId = (session as any).submissionId || (session as any).id;
+    // Fallback: Fetch full exam details if questions are still missing
+    // Note: Admin preview fetched it above. Candidate start fetched it via session.
+    if (!fullExam.questions || fullExam.questions.length === 0) {
+      try {
+        const fetched = await api.exams.get(exam.id);
+        if (fetched && fetched.questions && fetched.questions.length > 0) {
+          fullExam = fetched;
+        }
+      } catch (err) {
+        console.error("Fallback fetch failed", err);
+      }
+    }
 
-      setActiveSubmission({
-        id: subId,
-        answers: (session as any).answersDraft || {},
-        startTime: session.startTime
-      });
-      setActiveExam(fullExam);
+    if (!fullExam.questions || fullExam.questions.length === 0) {
+      throw new Error("Error: Exam has no questions.");
+    }
 
-      if ((session as any).resumed) {
-        addToast('Resumed existing exam session.', 'info');
+    // Ensure session object has expected properties. 
+    // If api.exams.start returns { exam, startTime }, we might need to fetch submission separately?
+    // Check return type of api.exams.start in api.ts
+
+    const subId = (session as any).submissionId || (session as any).id;
+
+    // This device may hold answers (or a hand-in) the server never received
+    let answers = session.answersDraft || {};
+    let draftSeq = session.draftSeq || 0;
+    let flags = session.flaggedQuestionIds || [];
+    const mediaPlays = { ...session.mediaPlays };
+    let pendingSubmitKey: string | undefined;
+    if (session.journalKey) {
+      await openJournal(subId, session.journalKey);
+      const local = await readJournal(subId);
+      if (local && local.seq > draftSeq) {
+        answers = local.answers;
+        draftSeq = local.seq;
+        flags = local.flags || flags;
       }
+      pendingSubmitKey = local?.submitKey;
+      // Plays made offline never reached the server; the higher count wins
+      Object.entries(local?.mediaPlays || {}).forEach(([id, plays]) => { mediaPlays[id] = Math.max(mediaPlays[id] || 0, plays); });
+      saveJournalSession(subId, { user: user!, exam: fullExam, startTime: session.startTime });
+    }
 
-    } catch (e) {
-      addToast("Failed to start exam.", "error");
+    setActiveSubmission({
+      id: subId,
+      answers,
+      startTime: session.startTime,
+      deadline: session.deadline,
+      serverNow: session.serverNow,
+      onBreak: session.onBreak,
+      breakSecondsLeft: session.breakSecondsLeft,
+      sectionIndex: session.sectionIndex,
+      sectionDeadline: session.sectionDeadline,
+      draftSeq,
+      flags,
+      mediaPlays,
+      pendingSubmitKey
+    });
+    setActiveExam(fullExam);
+
+    if ((session as any).resumed) {
+      addToast('Resumed existing exam session.', 'info');
     }
   };
 
@@ -277,6 +343,16 @@ const App: React.FC = () => {
         submissionId={activeSubmission?.id}
         initialAnswers={activeSubmission?.answers}
         initialStartTime={activeSubmission?.startTime}
+        initialDeadline={activeSubmission?.deadline}
+        serverNow={activeSubmission?.serverNow}
+        initialOnBreak={activeSubmission?.onBreak}
+        initialBreakSecondsLeft={activeSubmission?.breakSecondsLeft}
+        initialSectionIndex={activeSubmission?.sectionIndex}
+        initialSectionDeadline={activeSubmission?.sectionDeadline}
+        initialDraftSeq={activeSubmission?.draftSeq}
+        initialFlags={activeSubmission?.flags}
+        initialMediaPlays={activeSubmission?.mediaPlays}
+        pendingSubmitKey={activeSubmission?.pendingSubmitKey}
         onSubmit={handleSubmitExam}
         onCancel={() => { setActiveExam(null); setActiveSubmission(null); setIsAdminPreview(false); }}
         isAdminPreview={isAdminPreview}
@@ -387,6 +463,17 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {accessCodeExam && (
+        <AccessCodeModal
+          examTitle={accessCodeExam.title}
+          onSubmit={async code => {
+            await openExam(accessCodeExam, code);
+            setAccessCodeExam(null);
+          }}
+          onClose={() => setAccessCodeExam(null)}
+        />
+      )}
+
       {viewingSubmission && (
         <SubmissionDetailModal
           submission={viewingSubmission.sub}
@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { Exam } from '@prisma/client';
+
+type AccessCodeConfig = Pick<Exam, 'accessCodeMode' | 'accessCode' | 'accessCodeSecret' | 'accessCodeRotationMinutes'>;
+
+// No 0/O or 1/I/L, so codes read aloud or off a projector are unambiguous
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export function generateFixedCode(length = 6): string {
+    return Array.from({ length }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+}
+
+export function generateCodeSecret(): string {
+    return randomBytes(32).toString('hex');
+}
+
+const rotationMs = (exam: AccessCodeConfig) => Math.max(1, exam.accessCodeRotationMinutes || 10) * 60000;
+
+// TOTP-style: a 6-digit code per rotation window, derived from the exam's secret
+const rotatingCodeFor = (secret: string, window: number) => {
+    const digest = createHmac('sha256', secret).update(String(window)).digest();
+    return String(digest.readUInt32BE(0) % 1000000).padStart(6, '0');
+};
+
+/**
+ * The code an invigilator should display right now, and when it stops being current.
+ */
+export function getCurrentAccessCode(exam: AccessCodeConfig, now = Date.now()): { code: string; expiresAt: number | null } | null {
+    if (exam.accessCodeMode === 'FIXED' && exam.accessCode) return { code: exam.accessCode, expiresAt: null };
+    if (exam.accessCodeMode === 'ROTATING' && exam.accessCodeSecret) {
+        const window = Math.floor(now / rotationMs(exam));
+        return { code: rotatingCodeFor(exam.accessCodeSecret, window), expiresAt: (window + 1) * rotationMs(exam) };
+    }
+    return null;
+}
+
+const sameCode = (a: string, b: string) => {
+    const left = Buffer.from(a.trim().toUpperCase());
+    const right = Buffer.from(b.trim().toUpperCase());
+    return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Checks a candidate's code. A rotating code is also accepted for one window after it
+ * changes, so a candidate typing it as it rolls over is not turned away.
+ */
+export function verifyAccessCode(exam: AccessCodeConfig, input: unknown, now = Date.now()): boolean {
+    if (typeof input !== 'string' || !input.trim()) return false;
+
+    if (exam.accessCodeMode === 'FIXED') return !!exam.accessCode && sameCode(exam.accessCode, input);
+    if (exam.accessCodeMode === 'ROTATING' && exam.accessCodeSecret) {
+        const window = Math.floor(now / rotationMs(exam));
+        return [window, window - 1].some(w => sameCode(rotatingCodeFor(exam.accessCodeSecret!, w), input));
+    }
+    return false;
+}
+
+export const requiresAccessCode = (exam: Pick<Exam, 'accessCodeMode'>) => exam.accessCodeMode !== 'NONE';
+
+// Admin responses: the rotating secret stays on the server
+export function withoutCodeSecret<E extends Partial<AccessCodeConfig>>(exam: E): Omit<E, 'accessCodeSecret'> {
+    const { accessCodeSecret, ...rest } = exam;
+    return rest;
+}
+
+// Candidate responses: no code material at all, just whether one is needed
+export function toCandidateExam<E extends Partial<AccessCodeConfig>>(exam: E): Omit<E, 'accessCode' | 'accessCodeSecret'> & { requiresAccessCode: boolean } {
+    const { accessCode, accessCodeSecret, ...rest } = exam;
+    return { ...rest, requiresAccessCode: !!exam.accessCodeMode && exam.accessCodeMode !== 'NONE' };
+}
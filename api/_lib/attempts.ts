@@ -0,0 +1,39 @@
+import { Exam, Submission } from '@prisma/client';
+
+type PolicyExam = Pick<Exam, 'maxAttempts' | 'attemptCooldownMinutes'>;
+type AttemptRecord = Pick<Submission, 'status' | 'submittedAt' | 'timeSpentMs'>;
+
+export interface AttemptStatus {
+    used: number; // Finished attempts
+    max: number | null; // null = unlimited
+    inProgress: boolean;
+    nextAttemptAt: number | null; // Set while a cooldown is running
+}
+
+/**
+ * Where a candidate stands against an exam's attempts policy.
+ * An attempt is finished once it leaves UNGRADED; its end is the start plus the server-measured time spent.
+ */
+export function getAttemptStatus(exam: PolicyExam, attempts: AttemptRecord[], now = Date.now()): AttemptStatus {
+    const finished = attempts.filter(a => a.status !== 'UNGRADED');
+    const lastFinishedAt = finished.reduce((latest, a) => Math.max(latest, a.submittedAt.getTime() + (a.timeSpentMs || 0)), 0);
+    const cooldownEndsAt = lastFinishedAt + Math.max(0, exam.attemptCooldownMinutes) * 60000;
+
+    return {
+        used: finished.length,
+        max: exam.maxAttempts > 0 ? exam.maxAttempts : null,
+        inProgress: attempts.some(a => a.status === 'UNGRADED'),
+        nextAttemptAt: finished.length > 0 && cooldownEndsAt > now ? cooldownEndsAt : null
+    };
+}
+
+// Why a new attempt cannot start, or null if it can
+export function getNewAttemptBlocker(status: AttemptStatus): string | null {
+    if (status.max !== null && status.used >= status.max) {
+        return status.max === 1 ? 'You have already taken this exam.' : `You have used all ${status.max} attempts for this exam.`;
+    }
+    if (status.nextAttemptAt !== null) {
+        return `Your next attempt is available at ${new Date(status.nextAttemptAt).toISOString()}.`;
+    }
+    return null;
+}
@@ -0,0 +1,103 @@
+import { Accommodation, Exam, Submission } from '@prisma/client';
+import { db } from './db.js';
+
+// Shape of Exam.timerSettings (see TimerSettings in services/types.ts)
+interface TimerConfig {
+    allowLateSubmission?: boolean;
+    gracePeriodSeconds?: number;
+}
+
+export type SubmissionTiming = 'ON_TIME' | 'LATE' | 'CLOSED';
+
+type AttemptTiming = Pick<Submission, 'submittedAt' | 'extraTimeSeconds' | 'pausedSeconds' | 'breakStartedAt'>;
+type AccommodationConfig = Pick<Accommodation, 'extraTimePercent' | 'extraMinutes' | 'restBreakMinutes'>;
+
+export interface AttemptClock {
+    startedAt: number;
+    deadline: number; // When the candidate's countdown reaches zero
+    graceEndsAt: number; // Last moment answers count as on time (absorbs auto-submit / network delay)
+    allowLate: boolean;
+    onBreak: boolean;
+    breakSecondsLeft: number; // Unused rest break allowance
+    pausedSeconds: number; // Break time credited so far, including a break in progress
+    timeScale: number; // Accommodation stretch on timed work (1.25 = 25% extra time)
+}
+
+/**
+ * The server's view of an attempt's timing. `submittedAt` is set when the attempt starts
+ * and is the only clock we trust; everything the client reports is advisory.
+ * Accommodations stretch the base duration; rest breaks stop the clock up to the allowance.
+ */
+export function getAttemptClock(
+    exam: Pick<Exam, 'durationMinutes' | 'timerSettings'>,
+    submission: AttemptTiming,
+    accommodation?: AccommodationConfig | null,
+    now = Date.now()
+): AttemptClock {
+    const timer = (exam.timerSettings || {}) as TimerConfig;
+    const startedAt = submission.submittedAt.getTime();
+
+    const timeScale = 1 + Math.max(0, accommodation?.extraTimePercent || 0) / 100;
+    const baseSeconds = exam.durationMinutes * 60 * timeScale + Math.max(0, accommodation?.extraMinutes || 0) * 60;
+
+    const breakAllowance = Math.max(0, accommodation?.restBreakMinutes || 0) * 60;
+    const pausedSeconds = Math.min(submission.pausedSeconds || 0, breakAllowance);
+    const currentBreak = submission.breakStartedAt
+        ? Math.min(Math.max(0, (now - submission.breakStartedAt.getTime()) / 1000), breakAllowance - pausedSeconds)
+        : 0;
+
+    const deadline = startedAt + Math.round((baseSeconds + (submission.extraTimeSeconds || 0) + pausedSeconds + currentBreak) * 1000);
+
+    return {
+        startedAt,
+        deadline,
+        graceEndsAt: deadline + Math.max(0, Number(timer.gracePeriodSeconds) || 0) * 1000,
+        allowLate: !!timer.allowLateSubmission,
+        onBreak: !!submission.breakStartedAt,
+        breakSecondsLeft: Math.floor(breakAllowance - pausedSeconds - currentBreak),
+        pausedSeconds: Math.round(pausedSeconds + currentBreak),
+        timeScale
+    };
+}
+
+/**
+ * Same as getAttemptClock, looking up the candidate's current accommodations
+ * (so arrangements added mid-exam take effect on the next clock check).
+ */
+export async function loadAttemptClock(
+    exam: Pick<Exam, 'durationMinutes' | 'timerSettings'>,
+    submission: AttemptTiming & Pick<Submission, 'userId'>,
+    now = Date.now()
+): Promise<AttemptClock> {
+    const accommodation = await db.accommodation.findUnique({ where: { userId: submission.userId } });
+    return getAttemptClock(exam, submission, accommodation, now);
+}
+
+export function getSubmissionTiming(clock: AttemptClock, now = Date.now()): SubmissionTiming {
+    if (now <= clock.graceEndsAt) return 'ON_TIME';
+    return clock.allowLate ? 'LATE' : 'CLOSED';
+}
+
+export type EntryStatus = 'UPCOMING' | 'OPEN' | 'CLOSED';
+
+/**
+ * Whether a new attempt may start now. `closesAt` and the late-entry cut-off only stop new
+ * starts; attempts already underway keep their own deadline.
+ */
+export function getEntryWindow(
+    exam: Pick<Exam, 'opensAt' | 'closesAt' | 'lateEntryMinutes'>,
+    now = Date.now()
+): { status: EntryStatus; opensAt: number | null; entryClosesAt: number | null } {
+    const opensAt = exam.opensAt ? exam.opensAt.getTime() : null;
+    const cutoffs = [
+        exam.closesAt ? exam.closesAt.getTime() : null,
+        opensAt !== null && exam.lateEntryMinutes != null ? opensAt + Math.max(0, exam.lateEntryMinutes) * 60000 : null
+    ].filter((t): t is number => t !== null);
+    const entryClosesAt = cutoffs.length > 0 ? Math.min(...cutoffs) : null;
+
+    let status: EntryStatus = 'OPEN';
+    if (opensAt !== null && now < opensAt) status = 'UPCOMING';
+    else if (entryClosesAt !== null && now >= entryClosesAt) status = 'CLOSED';
+
+    return { status, opensAt, entryClosesAt };
+}
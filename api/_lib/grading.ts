@@ -1,60 +1,326 @@
-import { Exam, Question, Submission } from '@prisma/client';
+import { Exam, Question } from '@prisma/client';
+
+export interface QuestionGrade {
+    score: number;
+    isCorrect: boolean;
+    needsReview?: boolean; // Near-miss awaiting a human decision
+    manuallyGraded?: boolean;
+    aiGraded?: boolean;
+}
 
 export interface GradeResult {
     score: number;
-    questionResults: Record<string, { score: number; isCorrect: boolean }>;
+    rawScore: number;
+    negativeDeduction: number;
+    latePenaltyDeduction: number;
+    questionResults: Record<string, QuestionGrade>;
     status: 'GRADED' | 'PENDING_MANUAL_REVIEW';
     graded: boolean;
     totalPoints: number;
     maxScore: number;
 }
 
+// Shape of Question.rubric (see RubricCriterion in services/types.ts)
+interface RubricCriterionConfig {
+    id: string;
+    levels: { id: string; points: number }[];
+}
+
+export interface GradeOptions {
+    isLate?: boolean;
+}
+
+// Shapes of the Exam JSON columns (see GradingPolicy / TimerSettings in services/types.ts)
+interface GradingPolicyConfig {
+    negativeMarkingEnabled?: boolean;
+    negativeMarksPerQuestion?: number;
+    maxNegativeDeduction?: number;
+}
+
+interface TimerConfig {
+    latePenaltyPercentage?: number;
+}
+
+// Shape of Question.answerConfig (see QuestionAnswerConfig in services/types.ts)
+interface AnswerConfig {
+    scoringMode?: 'ALL_OR_NOTHING' | 'PARTIAL' | 'RIGHT_MINUS_WRONG';
+    tolerance?: number;
+    toleranceType?: 'ABSOLUTE' | 'RELATIVE';
+    significantFigures?: number;
+    acceptedUnits?: string[];
+    requireUnit?: boolean;
+    acceptedPatterns?: string[];
+    caseSensitive?: boolean;
+    foldWhitespace?: boolean;
+    fuzzyDistance?: number;
+    reviewDistance?: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const normalize = (value: any) => String(value ?? '').trim().toLowerCase();
+
+const isBlank = (answer: any) => {
+    if (Array.isArray(answer)) return answer.length === 0;
+    return answer === undefined || answer === null || String(answer).trim() === '';
+};
+
+/**
+ * Scores a Multiple Response (select all that apply) answer.
+ * ALL_OR_NOTHING: full points only for the exact correct set.
+ * PARTIAL: each option earns an equal share when its selected/unselected state is right.
+ * RIGHT_MINUS_WRONG: (correct picks - wrong picks) / number of correct options, floored at 0.
+ */
+function scoreMultipleResponse(q: Question, userAnswer: any): QuestionGrade {
+    const config = (q.answerConfig || {}) as AnswerConfig;
+    const selected = new Set((Array.isArray(userAnswer) ? userAnswer : []).map(normalize).filter(Boolean));
+    const correct = new Set((q.correctAnswers || []).map(normalize).filter(Boolean));
+    if (correct.size === 0) return { score: 0, isCorrect: false };
+
+    const rightPicks = [...selected].filter(a => correct.has(a)).length;
+    const wrongPicks = selected.size - rightPicks;
+    const isCorrect = rightPicks === correct.size && wrongPicks === 0;
+
+    let fraction = 0;
+    switch (config.scoringMode) {
+        case 'PARTIAL': {
+            const allOptions = new Set([...(q.options || []).map(normalize), ...correct]);
+            const rightStates = [...allOptions].filter(o => correct.has(o) === selected.has(o)).length;
+            fraction = selected.size > 0 ? rightStates / allOptions.size : 0;
+            break;
+        }
+        case 'RIGHT_MINUS_WRONG':
+            fraction = Math.max(0, (rightPicks - wrongPicks) / correct.size);
+            break;
+        default:
+            fraction = isCorrect ? 1 : 0;
+    }
+
+    return { score: round2(q.points * fraction), isCorrect };
+}
+
+const NUMBER_WITH_UNIT = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(.*)$/i;
+
+// "1,000" or "-12,500.5"; only well-formed groups of three, so "1,00" is not read as 100
+const THOUSANDS = /^[+-]?\d{1,3}(?:,\d{3})+(?![\d,])/;
+
+const normalizeUnit = (unit: string) => unit.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Range of significant figures a numeric string could be read as.
+ * Trailing zeros in an integer without a decimal point ("1200") are ambiguous.
+ */
+function significantFigureRange(numeric: string): { min: number; max: number } {
+    const mantissa = numeric.replace(/^[+-]/, '').split(/e/i)[0];
+    const digits = mantissa.replace('.', '').replace(/^0+/, '');
+    if (!digits) return { min: 1, max: 1 }; // "0", "0.0"
+    if (mantissa.includes('.')) return { min: digits.length, max: digits.length };
+    return { min: digits.replace(/0+$/, '').length, max: digits.length };
+}
+
+/**
+ * Scores a NUMERIC answer such as "9.81" or "9.81 m/s^2" against correctAnswer,
+ * applying the absolute/relative tolerance, significant-figure and unit rules.
+ */
+function scoreNumeric(q: Question, userAnswer: any): QuestionGrade {
+    const config = (q.answerConfig || {}) as AnswerConfig;
+    const expected = parseFloat(String(q.correctAnswer));
+    const answer = String(userAnswer ?? '').trim().replace(THOUSANDS, grouped => grouped.replace(/,/g, ''));
+    const match = answer.match(NUMBER_WITH_UNIT);
+    if (!match || isNaN(expected)) return { score: 0, isCorrect: false };
+
+    const [, numeric, unit] = match;
+    const value = parseFloat(numeric);
+
+    const acceptedUnits = (config.acceptedUnits || []).map(normalizeUnit).filter(Boolean);
+    // With no units configured, anything after the number ("9.81 kg", "9.81abc") makes the answer wrong
+    if (unit && !acceptedUnits.includes(normalizeUnit(unit))) return { score: 0, isCorrect: false };
+    if (!unit && config.requireUnit) return { score: 0, isCorrect: false };
+
+    const sigFigs = Number(config.significantFigures) || 0;
+    if (sigFigs > 0) {
+        const { min, max } = significantFigureRange(numeric);
+        if (sigFigs < min || sigFigs > max) return { score: 0, isCorrect: false };
+    }
+
+    const tolerance = Math.abs(Number(config.tolerance) || 0);
+    const allowed = config.toleranceType === 'RELATIVE' ? Math.abs(expected) * tolerance / 100 : tolerance;
+    // Small epsilon so exact answers survive floating point noise
+    const isCorrect = Math.abs(value - expected) <= allowed + 1e-9;
+
+    return { score: isCorrect ? q.points : 0, isCorrect };
+}
+
+function editDistance(a: string, b: string): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = curr;
+    }
+    return prev[b.length];
+}
+
+/**
+ * Scores a SHORT_ANSWER against the accepted answers (correctAnswers) and regex patterns.
+ * Answers within fuzzyDistance edits are accepted; those within reviewDistance
+ * (default fuzzyDistance + 2) are flagged for manual review rather than marked wrong.
+ */
+function scoreShortAnswer(q: Question, userAnswer: any): QuestionGrade {
+    const config = (q.answerConfig || {}) as AnswerConfig;
+    const fold = (value: any) => {
+        let text = String(value ?? '').trim();
+        if (config.foldWhitespace !== false) text = text.replace(/\s+/g, ' ');
+        return config.caseSensitive ? text : text.toLowerCase();
+    };
+
+    const answer = fold(userAnswer);
+    if (!answer) return { score: 0, isCorrect: false };
+
+    const accepted = (q.correctAnswers.length > 0 ? q.correctAnswers : [q.correctAnswer]).map(fold).filter(Boolean);
+    if (accepted.includes(answer)) return { score: q.points, isCorrect: true };
+
+    for (const pattern of config.acceptedPatterns || []) {
+        try {
+            // Patterns must match the whole answer
+            if (new RegExp(`^(?:${pattern})$`, config.caseSensitive ? '' : 'i').test(answer)) {
+                return { score: q.points, isCorrect: true };
+            }
+        } catch (e) {
+            console.warn(`[Grading] Invalid answer pattern on question ${q.id}: ${pattern}`);
+        }
+    }
+
+    const fuzzy = Math.max(0, Number(config.fuzzyDistance) || 0);
+    const review = Math.max(fuzzy, Number(config.reviewDistance ?? fuzzy + 2) || 0);
+    let nearMiss = false;
+    for (const target of accepted) {
+        const distance = editDistance(answer, target);
+        if (distance <= fuzzy) return { score: q.points, isCorrect: true };
+        // Ignore "near misses" that rewrite half of a short answer
+        if (distance <= review && distance < target.length / 2) nearMiss = true;
+    }
+
+    return { score: 0, isCorrect: false, needsReview: nearMiss || undefined };
+}
+
+/**
+ * Totals a grader's rubric selections (criterionId -> levelId), ignoring unknown
+ * criteria/levels, and returns the cleaned selections that were counted.
+ */
+export function scoreRubric(rubric: any, selections: Record<string, string> = {}) {
+    const criteria: RubricCriterionConfig[] = Array.isArray(rubric) ? rubric : [];
+    const counted: Record<string, string> = {};
+    let score = 0;
+    for (const criterion of criteria) {
+        const level = (criterion.levels || []).find(l => l.id === selections[criterion.id]);
+        if (!level) continue;
+        counted[criterion.id] = level.id;
+        score += Number(level.points) || 0;
+    }
+    return { score: round2(score), selections: counted, complete: criteria.length > 0 && Object.keys(counted).length === criteria.length };
+}
+
 /**
  * Calculates the score for a submission based on the exam and answers.
- * Handles MCQ, SBA, and THEORY question types.
+ * Handles MCQ, SBA, MRQ, NUMERIC, SHORT_ANSWER and THEORY question types, then applies the exam's
+ * negative marking policy (capped by maxNegativeDeduction) and late penalty.
  */
-export function calculateGrade(exam: Exam & { questions: Question[] }, answers: Record<string, any>, existingQuestionResults: Record<string, any> = {}): GradeResult {
-    let totalScore = 0;
-    const questionResults: Record<string, { score: number; isCorrect: boolean }> = {};
+export function calculateGrade(
+    exam: Exam & { questions: Question[] },
+    answers: Record<string, any>,
+    existingQuestionResults: Record<string, any> = {},
+    options: GradeOptions = {}
+): GradeResult {
+    const policy = (exam.gradingPolicy || {}) as GradingPolicyConfig;
+    const timer = (exam.timerSettings || {}) as TimerConfig;
+
+    let rawScore = 0;
+    let wrongAnswers = 0;
+    const questionResults: Record<string, QuestionGrade> = {};
     let requiresManualGrading = false;
     let maxScore = 0;
 
     for (const q of exam.questions) {
         const userAnswer = answers[q.id];
-        const result = { score: 0, isCorrect: false };
+        const result: QuestionGrade = { score: 0, isCorrect: false };
         maxScore += q.points;
 
         if (q.type === 'MCQ' || q.type === 'SBA') {
             // Loose comparison: trim whitespace and ensure string comparison, CASE INSENSITIVE
-            const normalizedUser = String(userAnswer || '').trim().toLowerCase();
-            const normalizedCorrect = String(q.correctAnswer || '').trim().toLowerCase();
+            const normalizedUser = normalize(userAnswer);
+            const normalizedCorrect = normalize(q.correctAnswer);
 
             if (normalizedUser === normalizedCorrect && normalizedUser !== '') {
                 result.score = q.points;
                 result.isCorrect = true;
-                totalScore += q.points;
+            } else if (!isBlank(userAnswer)) {
+                // Only answered-but-wrong items attract negative marks
+                wrongAnswers++;
+            }
+        } else if (q.type === 'MRQ') {
+            Object.assign(result, scoreMultipleResponse(q, userAnswer));
+            // Partial credit is not "wrong"; only a zero-scoring attempt attracts negative marks
+            if (result.score === 0 && !isBlank(userAnswer)) wrongAnswers++;
+        } else if (q.type === 'NUMERIC') {
+            Object.assign(result, scoreNumeric(q, userAnswer));
+            if (!result.isCorrect && !isBlank(userAnswer)) wrongAnswers++;
+        } else if (q.type === 'SHORT_ANSWER') {
+            const existing = existingQuestionResults[q.id];
+            if (existing?.manuallyGraded && typeof existing.score === 'number') {
+                Object.assign(result, existing, { isCorrect: existing.isCorrect ?? existing.score > 0 });
             } else {
-                console.log(`[Grading] Q ${q.id} Incorrect. User: '${normalizedUser}' vs Correct: '${normalizedCorrect}'`);
+                const grade = scoreShortAnswer(q, userAnswer);
+                Object.assign(result, grade);
+                if (grade.needsReview) requiresManualGrading = true;
+                else if (!grade.isCorrect && !isBlank(userAnswer)) wrongAnswers++;
             }
         } else if (q.type === 'THEORY') {
             // Check for existing manual grade
             const existing = existingQuestionResults[q.id];
             if (existing && typeof existing.score === 'number') {
-                result.score = existing.score;
-                result.isCorrect = existing.isCorrect || (result.score >= q.points / 2); // Heuristic if isCorrect missing
-                totalScore += result.score;
+                // Keep rubric selections, comments and feedback alongside the score
+                Object.assign(result, existing, {
+                    isCorrect: existing.isCorrect || (existing.score >= q.points / 2) // Heuristic if isCorrect missing
+                });
             } else {
                 result.score = 0;
                 requiresManualGrading = true;
             }
         }
 
+        rawScore += result.score;
         questionResults[q.id] = result;
     }
-    console.log(`[Grading] Total: ${totalScore}/${maxScore}`);
+
+    // Negative Marking
+    let negativeDeduction = 0;
+    if (policy.negativeMarkingEnabled && wrongAnswers > 0) {
+        negativeDeduction = wrongAnswers * (Number(policy.negativeMarksPerQuestion) || 0);
+        const cap = Number(policy.maxNegativeDeduction) || 0;
+        if (cap > 0) negativeDeduction = Math.min(negativeDeduction, cap);
+        // Never deduct below zero
+        negativeDeduction = Math.min(negativeDeduction, rawScore);
+    }
+
+    // Late Penalty (percentage of the score after negative marking)
+    let latePenaltyDeduction = 0;
+    const afterNegative = rawScore - negativeDeduction;
+    const latePct = Number(timer.latePenaltyPercentage) || 0;
+    if (options.isLate && latePct > 0 && afterNegative > 0) {
+        latePenaltyDeduction = afterNegative * Math.min(latePct, 100) / 100;
+    }
+
+    const score = round2(Math.max(0, afterNegative - latePenaltyDeduction));
+    console.log(`[Grading] Raw: ${rawScore}, Negative: -${negativeDeduction}, Late: -${latePenaltyDeduction}, Total: ${score}/${maxScore}`);
 
     return {
-        score: totalScore,
+        score,
+        rawScore: round2(rawScore),
+        negativeDeduction: round2(negativeDeduction),
+        latePenaltyDeduction: round2(latePenaltyDeduction),
         questionResults,
         status: requiresManualGrading ? 'PENDING_MANUAL_REVIEW' : 'GRADED',
         graded: !requiresManualGrading,
@@ -62,3 +328,18 @@ export function calculateGrade(exam: Exam & { questions: Question[] }, answers:
         maxScore
     };
 }
+
+/**
+ * Maps a GradeResult onto the persisted Submission columns.
+ */
+export function toSubmissionGradeData(result: GradeResult) {
+    return {
+        score: result.score,
+        rawScore: result.rawScore,
+        negativeDeduction: result.negativeDeduction,
+        latePenaltyDeduction: result.latePenaltyDeduction,
+        questionResults: result.questionResults as any,
+        status: result.status,
+        graded: result.graded
+    };
+}
@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { db } from './db.js';
+
+/**
+ * Exams a candidate may see and sit: unassigned exams (open to everyone), exams assigned to them
+ * directly, and exams assigned to any group they belong to.
+ */
+export const assignedExamFilter = (userId: string): Prisma.ExamWhereInput => ({
+    OR: [
+        { assignedGroups: { none: {} }, assignedUsers: { none: {} } },
+        { assignedUsers: { some: { id: userId } } },
+        { assignedGroups: { some: { members: { some: { id: userId } } } } }
+    ]
+});
+
+export async function isExamAssigned(examId: string, userId: string): Promise<boolean> {
+    const count = await db.exam.count({ where: { id: examId, ...assignedExamFilter(userId) } });
+    return count > 0;
+}
+
+// Announcements without groups go to everyone; the rest only to members
+export const announcementAudienceFilter = (userId: string): Prisma.BlogPostWhereInput => ({
+    OR: [
+        { groups: { none: {} } },
+        { groups: { some: { members: { some: { id: userId } } } } }
+    ]
+});
+
+// Normalizes an id list from a request body into a Prisma `set`
+export const toIdSet = (ids: unknown): { id: string }[] | undefined => {
+    if (!Array.isArray(ids)) return undefined;
+    return ids
+        .map(item => typeof item === 'string' ? item : item?.id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0)
+        .map(id => ({ id }));
+};
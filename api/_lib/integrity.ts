@@ -0,0 +1,112 @@
+import { ProctoringEvent, ProctoringEventType } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { parseDataUrl, validateMedia } from './media.js';
+
+export const PROCTORING_EVENT_TYPES: ProctoringEventType[] = [
+    'TAB_HIDDEN', 'WINDOW_BLUR', 'FULLSCREEN_EXIT', 'COPY_PASTE', 'CAMERA_DENIED', 'CONNECTION_LOST',
+    'FACE_NOT_DETECTED', 'MULTIPLE_FACES', 'LOOKING_AWAY', 'MULTIPLE_SCREENS', 'DEVTOOLS_OPEN'
+];
+
+// Risk points per event. Camera denial is a one-off, so only its first report counts.
+const EVENT_WEIGHTS: Record<ProctoringEventType, number> = {
+    TAB_HIDDEN: 8,
+    WINDOW_BLUR: 3,
+    FULLSCREEN_EXIT: 8,
+    COPY_PASTE: 10,
+    CAMERA_DENIED: 25,
+    CONNECTION_LOST: 4,
+    FACE_NOT_DETECTED: 6,
+    MULTIPLE_FACES: 12,
+    LOOKING_AWAY: 4,
+    MULTIPLE_SCREENS: 15,
+    DEVTOOLS_OPEN: 15
+};
+const ONCE_ONLY: ProctoringEventType[] = ['CAMERA_DENIED'];
+const OFFLINE_POINTS_PER_MINUTE = 2;
+
+// One noisy signal (a flaky connection, a restless candidate) cannot reach HIGH on its own
+const TYPE_CAP = 40;
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface IntegrityReport {
+    riskScore: number; // 0-100
+    level: RiskLevel;
+    counts: Record<ProctoringEventType, number>;
+}
+
+type EventRecord = Pick<ProctoringEvent, 'type' | 'durationMs'>;
+
+/**
+ * Summarises an attempt's proctoring events into a score for reviewers. It flags attempts
+ * worth a closer look; it is not evidence of misconduct by itself.
+ */
+export function getIntegrityReport(events: EventRecord[]): IntegrityReport {
+    const counts = Object.fromEntries(PROCTORING_EVENT_TYPES.map(t => [t, 0])) as Record<ProctoringEventType, number>;
+    const points = { ...counts };
+
+    for (const event of events) {
+        counts[event.type]++;
+        if (ONCE_ONLY.includes(event.type) && counts[event.type] > 1) continue;
+        points[event.type] += EVENT_WEIGHTS[event.type];
+        if (event.type === 'CONNECTION_LOST' && event.durationMs) {
+            points[event.type] += Math.floor(event.durationMs / 60000) * OFFLINE_POINTS_PER_MINUTE;
+        }
+    }
+
+    const riskScore = Math.min(100, Object.values(points).reduce((sum, p) => sum + Math.min(TYPE_CAP, p), 0));
+    return {
+        riskScore,
+        level: riskScore >= 50 ? 'HIGH' : riskScore >= 20 ? 'MEDIUM' : 'LOW',
+        counts
+    };
+}
+
+// The client clock is trusted only within the attempt: earlier or future timestamps are clamped
+const clampToAttempt = (value: unknown, startedAt: Date, now: number) => {
+    const reported = Number(value);
+    return Number.isFinite(reported) ? Math.min(now, Math.max(startedAt.getTime(), reported)) : now;
+};
+
+// Validates one event from the exam client
+export function toProctoringEventData(raw: any, submissionId: string, startedAt: Date, now = Date.now()) {
+    if (!raw || !PROCTORING_EVENT_TYPES.includes(raw.type)) return null;
+
+    const occurredAt = clampToAttempt(raw.occurredAt, startedAt, now);
+    const durationMs = Number(raw.durationMs);
+
+    return {
+        submissionId,
+        type: raw.type as ProctoringEventType,
+        details: typeof raw.details === 'string' && raw.details.trim() ? raw.details.trim().slice(0, 500) : null,
+        durationMs: Number.isFinite(durationMs) && durationMs > 0 ? Math.round(Math.min(durationMs, now - startedAt.getTime())) : null,
+        occurredAt: new Date(occurredAt)
+    };
+}
+
+// 160x120 JPEG stills come in well under this; anything bigger is not one of ours
+const MAX_SNAPSHOT_LENGTH = 60000;
+
+/** A still from the exam client, decoded for media storage. Null when it is not a small JPEG. */
+export function toSnapshotData(raw: any, submissionId: string, startedAt: Date, now = Date.now()) {
+    const imageData = raw?.imageData;
+    if (typeof imageData !== 'string' || !imageData.startsWith('data:image/jpeg;base64,') || imageData.length > MAX_SNAPSHOT_LENGTH) {
+        return null;
+    }
+    const parsed = parseDataUrl(imageData);
+    if (!parsed || validateMedia(parsed.body, 'image/jpeg')) return null;
+    return {
+        submissionId,
+        image: parsed.body,
+        reason: typeof raw.reason === 'string' && raw.reason.trim() ? raw.reason.trim().slice(0, 100) : null,
+        takenAt: new Date(clampToAttempt(raw.takenAt, startedAt, now))
+    };
+}
+
+// Stills are private to reviewers, so they live under their own prefix and are served by the submissions API
+export const snapshotStorageKey = (submissionId: string) => `snapshots/${submissionId}/${randomUUID()}.jpg`;
+
+export const snapshotUrl = (snapshot: { id: string; submissionId: string; imageData?: string | null; storageKey?: string | null }) =>
+    snapshot.storageKey
+        ? `/api/submissions?id=${encodeURIComponent(snapshot.submissionId)}&action=snapshot&snapshotId=${encodeURIComponent(snapshot.id)}`
+        : snapshot.imageData || '';
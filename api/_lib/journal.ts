@@ -0,0 +1,27 @@
+import { createHmac } from 'crypto';
+
+const JOURNAL_SECRET = process.env.JWT_SECRET || 'development-secret-do-not-use-in-prod';
+
+/**
+ * AES-256 key for the exam client's local answer journal (IndexedDB). Derived rather than
+ * stored, so a resumed attempt gets the same key back and can decrypt what it journaled offline.
+ */
+export function getJournalKey(submissionId: string): string {
+    return createHmac('sha256', JOURNAL_SECRET).update(`journal:${submissionId}`).digest('base64');
+}
+
+// Client-generated UUIDs; anything else is ignored rather than stored
+export function toSubmitKey(value: unknown): string | null {
+    return typeof value === 'string' && /^[\w-]{8,64}$/.test(value) ? value : null;
+}
+
+// Flags saved with a draft: only questions on this candidate's paper
+export function toFlaggedIds(value: unknown, questionIds: string[]): string[] | null {
+    if (!Array.isArray(value)) return null;
+    return [...new Set(value.filter((id): id is string => typeof id === 'string' && questionIds.includes(id)))];
+}
+
+export function toDraftSeq(value: unknown): number | null {
+    const seq = Number(value);
+    return Number.isSafeInteger(seq) && seq > 0 ? seq : null;
+}
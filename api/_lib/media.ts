@@ -0,0 +1,198 @@
+import { createHash, randomUUID } from 'crypto';
+import { db } from './db.js';
+import { StorageNotConfiguredError, getStorage } from './storage.js';
+
+export type MediaKind = 'IMAGE' | 'AUDIO' | 'VIDEO' | 'PDF';
+
+// Shape of Question.attachments entries (see QuestionAttachment in services/types.ts)
+export interface MediaAttachment {
+    id: string;
+    url: string;
+    kind: MediaKind;
+    contentType: string;
+    filename?: string;
+    playback?: MediaPlayback; // Audio and video only
+}
+
+// How a clip may be played during an attempt (see MediaPlayback in services/types.ts)
+export interface MediaPlayback {
+    maxPlays: number | null; // null = unlimited
+    allowPause: boolean;
+    autoplay: boolean; // Starts when the question opens, if it has not been played yet
+}
+
+const MB = 1024 * 1024;
+
+// SVG is left out on purpose: it can carry script
+export const MEDIA_TYPES: Record<string, { kind: MediaKind; maxBytes: number }> = {
+    'image/png': { kind: 'IMAGE', maxBytes: 5 * MB },
+    'image/jpeg': { kind: 'IMAGE', maxBytes: 5 * MB },
+    'image/gif': { kind: 'IMAGE', maxBytes: 5 * MB },
+    'image/webp': { kind: 'IMAGE', maxBytes: 5 * MB },
+    'audio/mpeg': { kind: 'AUDIO', maxBytes: 20 * MB },
+    'audio/ogg': { kind: 'AUDIO', maxBytes: 20 * MB },
+    'audio/wav': { kind: 'AUDIO', maxBytes: 20 * MB },
+    'audio/webm': { kind: 'AUDIO', maxBytes: 20 * MB },
+    'audio/mp4': { kind: 'AUDIO', maxBytes: 20 * MB },
+    'video/mp4': { kind: 'VIDEO', maxBytes: 100 * MB },
+    'video/webm': { kind: 'VIDEO', maxBytes: 100 * MB },
+    'application/pdf': { kind: 'PDF', maxBytes: 10 * MB }
+};
+
+const MAX_MEDIA_BYTES = Math.max(...Object.values(MEDIA_TYPES).map(t => t.maxBytes));
+
+// Vercel refuses request bodies over 4.5 MB before the function runs, so larger files cannot arrive there
+const SERVERLESS_BODY_LIMIT = 4.5 * MB;
+
+/** The most this deployment accepts for a content type: the type's cap, within the platform's body limit. */
+export const uploadLimit = (contentType: string) =>
+    Math.min(MEDIA_TYPES[contentType]?.maxBytes ?? MAX_MEDIA_BYTES, process.env.VERCEL ? SERVERLESS_BODY_LIMIT : Infinity);
+
+const ALIASES: Record<string, string> = {
+    'image/jpg': 'image/jpeg',
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/x-m4a': 'audio/mp4',
+    'audio/m4a': 'audio/mp4'
+};
+
+export const normalizeContentType = (value: string | undefined) => {
+    const type = (value || '').split(';')[0].trim().toLowerCase();
+    return ALIASES[type] || type;
+};
+
+const startsWith = (body: Buffer, bytes: number[], offset = 0) => bytes.every((b, i) => body[offset + i] === b);
+const ascii = (body: Buffer, text: string, offset = 0) => body.subarray(offset, offset + text.length).toString('latin1') === text;
+
+// The declared type must match the file's leading bytes, so a renamed HTML file is not served as an image
+const SIGNATURES: Record<string, (body: Buffer) => boolean> = {
+    'image/png': body => startsWith(body, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    'image/jpeg': body => startsWith(body, [0xff, 0xd8, 0xff]),
+    'image/gif': body => ascii(body, 'GIF87a') || ascii(body, 'GIF89a'),
+    'image/webp': body => ascii(body, 'RIFF') && ascii(body, 'WEBP', 8),
+    'audio/mpeg': body => ascii(body, 'ID3') || (body[0] === 0xff && (body[1] & 0xe0) === 0xe0),
+    'audio/ogg': body => ascii(body, 'OggS'),
+    'audio/wav': body => ascii(body, 'RIFF') && ascii(body, 'WAVE', 8),
+    'audio/webm': body => startsWith(body, [0x1a, 0x45, 0xdf, 0xa3]),
+    'audio/mp4': body => ascii(body, 'ftyp', 4),
+    'video/mp4': body => ascii(body, 'ftyp', 4),
+    'video/webm': body => startsWith(body, [0x1a, 0x45, 0xdf, 0xa3]),
+    'application/pdf': body => ascii(body, '%PDF-')
+};
+
+/** Returns what is wrong with an upload, or null when it can be stored. */
+export function validateMedia(body: Buffer, contentType: string): string | null {
+    const rule = MEDIA_TYPES[contentType];
+    if (!rule) return `Unsupported file type${contentType ? ` (${contentType})` : ''}. Use PNG, JPEG, GIF, WebP, MP3, OGG, WAV, M4A, MP4, WebM or PDF.`;
+    if (body.length === 0) return 'File is empty';
+    if (body.length > uploadLimit(contentType)) return `File is too large (max ${uploadLimit(contentType) / MB}MB for ${rule.kind.toLowerCase()} files)`;
+    if (!SIGNATURES[contentType](body)) return `File content does not match its type (${contentType})`;
+    return null;
+}
+
+export const mediaUrl = (id: string) => `/api/media?id=${encodeURIComponent(id)}`;
+
+const cleanFilename = (name: string | null | undefined) => {
+    const base = (name || '').split(/[\\/]/).pop()!.replace(/[\u0000-\u001f"]/g, '').trim();
+    return base ? base.slice(0, 200) : null;
+};
+
+/**
+ * Validates and stores an upload. The same bytes uploaded twice share one asset, so re-running
+ * the data URL migration or re-importing a question does not fill storage with copies.
+ */
+export async function storeMedia(body: Buffer, rawContentType: string, filename?: string | null, uploadedById?: string | null) {
+    const contentType = normalizeContentType(rawContentType);
+    const error = validateMedia(body, contentType);
+    if (error) return { error };
+
+    const sha256 = createHash('sha256').update(body).digest('hex');
+    const existing = await db.mediaAsset.findFirst({ where: { sha256, contentType } });
+    if (existing) return { asset: existing };
+
+    const storageKey = `media/${sha256.slice(0, 2)}/${sha256}-${randomUUID().slice(0, 8)}`;
+    try {
+        await getStorage().put(storageKey, body, contentType);
+    } catch (e) {
+        if (e instanceof StorageNotConfiguredError) return { error: e.message };
+        throw e;
+    }
+    const asset = await db.mediaAsset.create({
+        data: { storageKey, contentType, size: body.length, filename: cleanFilename(filename), sha256, uploadedById: uploadedById || null }
+    });
+    return { asset };
+}
+
+export const toAttachment = (asset: { id: string; contentType: string; filename: string | null }): MediaAttachment => ({
+    id: asset.id,
+    url: mediaUrl(asset.id),
+    kind: MEDIA_TYPES[asset.contentType]?.kind || 'IMAGE',
+    contentType: asset.contentType,
+    ...(asset.filename ? { filename: asset.filename } : {})
+});
+
+export function parseDataUrl(value: string): { contentType: string; body: Buffer } | null {
+    const match = /^data:([^;,]+)((?:;[^;,]+)*?)(;base64)?,(.*)$/s.exec(value);
+    if (!match) return null;
+    const body = match[3] ? Buffer.from(match[4], 'base64') : Buffer.from(decodeURIComponent(match[4]), 'utf8');
+    return { contentType: normalizeContentType(match[1]), body };
+}
+
+export const isTimedMedia = (kind: MediaKind) => kind === 'AUDIO' || kind === 'VIDEO';
+
+export function parsePlayback(raw: any): MediaPlayback {
+    const maxPlays = Math.floor(Number(raw?.maxPlays));
+    return {
+        maxPlays: Number.isFinite(maxPlays) && maxPlays > 0 ? Math.min(maxPlays, 20) : null,
+        allowPause: raw?.allowPause !== false,
+        autoplay: !!raw?.autoplay
+    };
+}
+
+// An attachment reference: the asset id, an /api/media URL or an object with either
+const toMediaId = (ref: unknown): string | null => {
+    const value = typeof ref === 'string' ? ref : ref && typeof ref === 'object' ? (ref as any).id || (ref as any).url : null;
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const fromUrl = /[?&]id=([^&#]+)/.exec(value);
+    return fromUrl && value.includes('/api/media') ? decodeURIComponent(fromUrl[1]) : value.trim();
+};
+
+/**
+ * Question attachments from an editor or import payload. Only assets that exist are kept, and
+ * their URL and kind come from the asset rather than the request. Returns undefined when the
+ * payload does not mention attachments, so updates leave them alone.
+ */
+export async function parseAttachments(raw: unknown): Promise<MediaAttachment[] | undefined> {
+    if (raw === undefined) return undefined;
+    if (!Array.isArray(raw)) return [];
+
+    const refs = new Map<string, unknown>();
+    for (const ref of raw.slice(0, 20)) {
+        const id = toMediaId(ref);
+        if (id && !refs.has(id)) refs.set(id, ref);
+    }
+    if (refs.size === 0) return [];
+
+    const assets = await db.mediaAsset.findMany({ where: { id: { in: [...refs.keys()] } }, select: { id: true, contentType: true, filename: true } });
+    const byId = new Map(assets.map(a => [a.id, a]));
+    return [...refs.entries()].filter(([id]) => byId.has(id)).map(([id, ref]) => {
+        const attachment = toAttachment(byId.get(id)!);
+        return isTimedMedia(attachment.kind) ? { ...attachment, playback: parsePlayback((ref as any)?.playback ?? ref) } : attachment;
+    });
+}
+
+/**
+ * Image URL fields (Question.imageUrl, branding) used to hold base64 data URLs. A data URL is
+ * moved into storage and replaced by its media URL; anything else is kept as given.
+ */
+export async function externalizeDataUrl(value: unknown, uploadedById?: string | null): Promise<{ url: string | null } | { error: string }> {
+    if (typeof value !== 'string' || !value.trim()) return { url: null };
+    if (!value.startsWith('data:')) return { url: value.trim() };
+
+    const parsed = parseDataUrl(value);
+    if (!parsed) return { error: 'Invalid data URL' };
+    const result = await storeMedia(parsed.body, parsed.contentType, null, uploadedById);
+    if ('error' in result) return { error: result.error };
+    return { url: mediaUrl(result.asset.id) };
+}
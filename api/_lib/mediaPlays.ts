@@ -0,0 +1,52 @@
+import { Prisma } from '@prisma/client';
+import { MediaAttachment, isTimedMedia, parsePlayback } from './media.js';
+
+export type MediaPlayEventType = 'PLAY' | 'PAUSE' | 'RESUME' | 'ENDED';
+
+export const MEDIA_PLAY_EVENTS: MediaPlayEventType[] = ['PLAY', 'PAUSE', 'RESUME', 'ENDED'];
+
+// Shape of Submission.mediaPlays entries (see MediaPlayLog in services/types.ts)
+export interface MediaPlayLog {
+    questionId: string;
+    plays: number;
+    events: { type: MediaPlayEventType; at: number }[];
+}
+
+const MAX_EVENTS = 200; // Per clip; enough for any honest sitting
+
+export function parseMediaPlays(raw: Prisma.JsonValue | null | undefined): Record<string, MediaPlayLog> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+    return raw as unknown as Record<string, MediaPlayLog>;
+}
+
+// What the exam client needs on resume: plays used per clip
+export const toPlayCounts = (raw: Prisma.JsonValue | null | undefined): Record<string, number> =>
+    Object.fromEntries(Object.entries(parseMediaPlays(raw)).map(([id, log]) => [id, Number(log.plays) || 0]));
+
+/**
+ * Adds a play event to an attempt's log. A PLAY starts a fresh play and is refused once the
+ * clip's play limit is used up; pausing is refused for clips that do not allow it.
+ */
+export function recordMediaEvent(
+    plays: Record<string, MediaPlayLog>,
+    questionId: string,
+    attachment: MediaAttachment,
+    type: MediaPlayEventType,
+    now = Date.now()
+): { plays: Record<string, MediaPlayLog>; log: MediaPlayLog } | { error: string; log: MediaPlayLog } {
+    const log = plays[attachment.id] || { questionId, plays: 0, events: [] };
+    if (!isTimedMedia(attachment.kind)) return { error: 'This attachment cannot be played', log };
+
+    const playback = parsePlayback(attachment.playback);
+    if (type === 'PLAY' && playback.maxPlays !== null && log.plays >= playback.maxPlays) {
+        return { error: 'No plays left for this clip', log };
+    }
+    if (type === 'PAUSE' && !playback.allowPause) return { error: 'This clip cannot be paused', log };
+
+    const next: MediaPlayLog = {
+        questionId,
+        plays: log.plays + (type === 'PLAY' ? 1 : 0),
+        events: [...log.events, { type, at: now }].slice(-MAX_EVENTS)
+    };
+    return { plays: { ...plays, [attachment.id]: next }, log: next };
+}
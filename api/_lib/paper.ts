@@ -0,0 +1,184 @@
+import { createHash, randomInt } from 'crypto';
+import { Exam, Prisma, Question } from '@prisma/client';
+import { db } from './db.js';
+import { getSectionRanges, parseSections } from './sections.js';
+
+// Shape of Exam.poolRules entries (see ExamPoolRule in services/types.ts)
+interface PoolRuleConfig {
+    count: number;
+    category?: string;
+    difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+    batchId?: string;
+    type?: Question['type'];
+    sectionId?: string;
+}
+
+type ExamWithQuestions = Exam & { questions: Question[] };
+
+// Fisher-Yates with a CSPRNG so candidates cannot predict their draw
+const sample = <T>(items: T[], count: number): T[] => {
+    const arr = [...items];
+    for (let i = arr.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [arr[i], arr[j]] = [arr[j], arr[i]];
+    }
+    return arr.slice(0, count);
+};
+
+const parseRules = (raw: Prisma.JsonValue | null): PoolRuleConfig[] => {
+    if (!Array.isArray(raw)) return [];
+    return (raw as any[])
+        .filter(r => r && Number(r.count) > 0)
+        .map(r => ({
+            count: Math.floor(Number(r.count)),
+            category: r.category || undefined,
+            difficulty: r.difficulty || undefined,
+            batchId: r.batchId || undefined,
+            type: r.type || undefined,
+            sectionId: r.sectionId || undefined
+        }));
+};
+
+/**
+ * The part of the bank an exam's pools draw from: questions its author wrote or collaborates on
+ * (the ones they may edit), so one admin's exam never pulls another admin's questions. A super
+ * admin's exams draw from the whole bank; exams without an author only from unowned questions.
+ */
+async function getPoolScope(exam: Pick<Exam, 'authorId'>): Promise<Prisma.QuestionWhereInput> {
+    if (!exam.authorId) return { authorId: null };
+    const author = await db.user.findUnique({ where: { id: exam.authorId }, select: { role: true } });
+    if (author?.role === 'SUPERADMIN') return {};
+    return { OR: [{ authorId: exam.authorId }, { collaborators: { some: { id: exam.authorId } } }] };
+}
+
+/**
+ * Builds a candidate's paper: the exam's fixed questions followed by a random draw for each pool rule.
+ * A question is never drawn twice; a rule with too few matching questions yields what is available.
+ * In a sectioned exam each section gets its fixed questions and the draws of rules pointing at it
+ * (anything unassigned goes to the last section); `sectionSizes` records the split.
+ */
+export async function drawPaper(exam: ExamWithQuestions): Promise<{ questionIds: string[]; sectionSizes: number[] }> {
+    const sections = parseSections(exam.sections);
+    const chosen = exam.questions.map(q => q.id);
+    const groups: string[][] = sections.map(() => []);
+    const groupFor = (sectionId?: string) => {
+        const index = sections.findIndex(s => s.id === sectionId);
+        return groups[index >= 0 ? index : groups.length - 1];
+    };
+    for (const q of exam.questions) {
+        if (groups.length) groupFor(sections.find(s => s.questionIds.includes(q.id))?.id).push(q.id);
+    }
+
+    const rules = parseRules(exam.poolRules);
+    const scope = rules.length > 0 ? await getPoolScope(exam) : {};
+    for (const rule of rules) {
+        const candidates = await db.question.findMany({
+            where: {
+                ...scope,
+                id: { notIn: chosen },
+                ...(rule.category && { category: { equals: rule.category, mode: 'insensitive' as const } }),
+                ...(rule.difficulty && { difficulty: rule.difficulty }),
+                ...(rule.batchId && { batchId: rule.batchId }),
+                ...(rule.type && { type: rule.type })
+            },
+            select: { id: true }
+        });
+
+        if (candidates.length < rule.count) {
+            console.warn(`[Paper] Pool rule for exam ${exam.id} wants ${rule.count} questions, only ${candidates.length} match.`);
+        }
+        const drawn = sample(candidates, rule.count).map(c => c.id);
+        chosen.push(...drawn);
+        if (groups.length) groupFor(rule.sectionId).push(...drawn);
+    }
+
+    if (groups.length === 0) return { questionIds: chosen, sectionSizes: [] };
+    return { questionIds: groups.flat(), sectionSizes: groups.map(g => g.length) };
+}
+
+/**
+ * Returns the exam with `questions` replaced by the paper stored on the submission, in drawn order.
+ * Submissions without a stored paper (created before pools existed) keep the exam's fixed questions.
+ */
+export async function withPaper<E extends { questions: { id: string }[] }>(exam: E, questionIds: string[] | null | undefined): Promise<E> {
+    if (!questionIds || questionIds.length === 0) return exam;
+
+    const questions = await db.question.findMany({ where: { id: { in: questionIds } } });
+    const byId = new Map(questions.map(q => [q.id, q]));
+    const paper = questionIds.map(id => byId.get(id)).filter((q): q is Question => !!q);
+
+    return { ...exam, questions: paper as unknown as E['questions'] };
+}
+
+export type OptionOrder = Record<string, number[]>;
+
+// mulberry32 seeded from a hash, so the same submission always reproduces the same order
+const seededRandom = (seed: string) => {
+    let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const seededShuffle = <T>(items: T[], seed: string): T[] => {
+    const next = seededRandom(seed);
+    const arr = [...items];
+    for (let i = arr.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [arr[i], arr[j]] = [arr[j], arr[i]];
+    }
+    return arr;
+};
+
+/**
+ * Orders a drawn paper for one submission. Locked option positions stay put while the rest move around them.
+ * Questions only move within their own section (`sectionSizes`, see drawPaper).
+ * Everything is derived from the submission id, and the result is stored so review never has to recompute it.
+ */
+export function shufflePaper(
+    submissionId: string,
+    exam: Pick<Exam, 'shuffleQuestions' | 'shuffleOptions'>,
+    questions: Pick<Question, 'id' | 'options' | 'lockedOptions'>[],
+    sectionSizes: number[] = []
+): { questionIds: string[]; optionOrder: OptionOrder } {
+    let ordered = questions;
+    if (exam.shuffleQuestions) {
+        ordered = sectionSizes.length === 0
+            ? seededShuffle(questions, submissionId)
+            : getSectionRanges(sectionSizes).flatMap((range, i) => seededShuffle(questions.slice(range.start, range.end), `${submissionId}:section-${i}`));
+    }
+    const optionOrder: OptionOrder = {};
+
+    for (const q of ordered) {
+        const positions = q.options.map((_, i) => i);
+        if (!exam.shuffleOptions || positions.length < 2) {
+            optionOrder[q.id] = positions;
+            continue;
+        }
+
+        const locked = new Set(q.lockedOptions.filter(i => i >= 0 && i < positions.length));
+        const movable = seededShuffle(positions.filter(i => !locked.has(i)), `${submissionId}:${q.id}`);
+        optionOrder[q.id] = positions.map(i => locked.has(i) ? i : movable.shift()!);
+    }
+
+    return { questionIds: ordered.map(q => q.id), optionOrder };
+}
+
+/**
+ * Rearranges each question's options into the order the candidate saw.
+ * Answers are stored as option text, so this only affects presentation.
+ */
+export function applyOptionOrder<Q extends { id: string; options: string[] }>(questions: Q[], optionOrder: unknown): Q[] {
+    if (!optionOrder || typeof optionOrder !== 'object') return questions;
+    const orders = optionOrder as OptionOrder;
+
+    return questions.map(q => {
+        const order = orders[q.id];
+        // Ignore orders that no longer fit (the question's options were edited after the attempt)
+        if (!Array.isArray(order) || order.length !== q.options.length || order.some(i => q.options[i] === undefined)) return q;
+        return { ...q, options: order.map(i => q.options[i]) };
+    });
+}
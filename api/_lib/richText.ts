@@ -0,0 +1,55 @@
+import sanitizeHtml from 'sanitize-html';
+import { db } from './db.js';
+
+/**
+ * Rich text is stored as a small HTML subset; keep the tags in step with RICH_TEXT_TAGS in
+ * services/richText.ts. LaTeX is plain text between $ signs and is typeset by the client.
+ */
+const RICH_TEXT_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        'p', 'div', 'br', 'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'code', 'pre', 'blockquote',
+        'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'h3', 'h4'
+    ],
+    allowedAttributes: { th: ['colspan', 'rowspan'], td: ['colspan', 'rowspan'] },
+    disallowedTagsMode: 'discard'
+};
+
+const MAX_RICH_TEXT = 100_000;
+
+export function sanitizeRichText(value: unknown): string {
+    if (typeof value !== 'string') return '';
+    return sanitizeHtml(value.slice(0, MAX_RICH_TEXT), RICH_TEXT_OPTIONS).trim();
+}
+
+// For grading prompts, search and exports: the words without the markup (math keeps its source)
+export function richTextToPlain(value: string): string {
+    const withBreaks = value.replace(/<(br|\/p|\/div|\/li|\/tr|\/h3|\/h4)\s*\/?>/gi, '\n');
+    return sanitizeHtml(withBreaks, { allowedTags: [], allowedAttributes: {} })
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Theory answers are written in the rich text editor, so they are sanitized before they are saved
+ * (drafts included). Other answer types are compared as typed and left alone.
+ */
+export function sanitizeTheoryAnswers(questions: { id: string; type: string }[], answers: Record<string, any>): Record<string, any> {
+    const clean = { ...answers };
+    for (const q of questions) {
+        if (q.type === 'THEORY' && typeof clean[q.id] === 'string') clean[q.id] = sanitizeRichText(clean[q.id]);
+    }
+    return clean;
+}
+
+// For saves that do not load the paper (drafts)
+export async function loadTheoryQuestions(questionIds: string[]) {
+    if (questionIds.length === 0) return [];
+    return db.question.findMany({ where: { id: { in: questionIds }, type: 'THEORY' }, select: { id: true, type: true } });
+}
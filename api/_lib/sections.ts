@@ -0,0 +1,176 @@
+import { Prisma, Submission } from '@prisma/client';
+import { db } from './db.js';
+import { AttemptClock } from './deadline.js';
+
+// Shape of Exam.sections entries (see ExamSection in services/types.ts)
+export interface SectionConfig {
+    id: string;
+    title: string;
+    instructions: string | null;
+    timeLimitMinutes: number | null;
+    locked: boolean; // No going back once the candidate moves on
+    questionIds: string[]; // Fixed questions; pool rules add theirs via ExamPoolRule.sectionId
+}
+
+type SectionProgress = Pick<Submission,
+    'questionIds' | 'sectionSizes' | 'sectionIndex' | 'sectionStartedAt' | 'sectionPausedAtStart' | 'sectionExtraAtStart' | 'extraTimeSeconds'>;
+
+export function parseSections(raw: Prisma.JsonValue | null | undefined): SectionConfig[] {
+    if (!Array.isArray(raw)) return [];
+    return (raw as any[])
+        .filter(s => s && typeof s === 'object')
+        .map((s, i) => {
+            const limit = Math.floor(Number(s.timeLimitMinutes));
+            return {
+                id: typeof s.id === 'string' && s.id ? s.id : `section-${i + 1}`,
+                title: typeof s.title === 'string' && s.title.trim() ? s.title.trim().slice(0, 200) : `Section ${i + 1}`,
+                instructions: typeof s.instructions === 'string' && s.instructions.trim() ? s.instructions.trim().slice(0, 5000) : null,
+                timeLimitMinutes: Number.isFinite(limit) && limit > 0 ? limit : null,
+                locked: !!s.locked,
+                questionIds: Array.isArray(s.questionIds) ? s.questionIds.filter((id: unknown) => typeof id === 'string') : []
+            };
+        });
+}
+
+export const getSectionRanges = (sizes: number[]) => {
+    let start = 0;
+    return sizes.map(size => {
+        const range = { start, end: start + size };
+        start += size;
+        return range;
+    });
+};
+
+// Only papers drawn with a section layout follow section rules; earlier attempts stay flat
+const isSectioned = (sections: SectionConfig[], submission: Pick<Submission, 'sectionSizes'>) =>
+    sections.length > 0 && submission.sectionSizes.length === sections.length;
+
+/**
+ * When the section the candidate is on runs out of time. The section clock starts when the
+ * candidate enters it and stretches like the exam clock (accommodations, breaks and extensions
+ * taken inside it), but never runs past the exam deadline.
+ */
+export function getSectionDeadline(section: SectionConfig, submission: SectionProgress, clock: AttemptClock): number | null {
+    if (!section.timeLimitMinutes || !submission.sectionStartedAt) return null;
+    const seconds = section.timeLimitMinutes * 60 * clock.timeScale
+        + Math.max(0, clock.pausedSeconds - submission.sectionPausedAtStart)
+        + Math.max(0, submission.extraTimeSeconds - submission.sectionExtraAtStart);
+    return Math.min(clock.deadline, submission.sectionStartedAt.getTime() + Math.round(seconds * 1000));
+}
+
+// Fields that move an attempt into the next section
+export const enterNextSection = (submission: SectionProgress, clock: AttemptClock, at: number) => ({
+    sectionIndex: submission.sectionIndex + 1,
+    sectionStartedAt: new Date(at),
+    sectionPausedAtStart: clock.pausedSeconds,
+    sectionExtraAtStart: submission.extraTimeSeconds
+});
+
+/**
+ * Moves an attempt past timed sections whose time (plus grace) has run out. The next section's
+ * clock starts at the expired deadline, so staying offline does not buy extra time.
+ */
+export async function syncSectionProgress<S extends SectionProgress & { id: string }>(
+    sections: SectionConfig[],
+    submission: S,
+    clock: AttemptClock,
+    now = Date.now()
+): Promise<S> {
+    if (!isSectioned(sections, submission)) return submission;
+
+    const grace = clock.graceEndsAt - clock.deadline;
+    let next = submission;
+    while (next.sectionIndex < sections.length - 1) {
+        const deadline = getSectionDeadline(sections[next.sectionIndex], next, clock);
+        if (deadline === null || now <= deadline + grace) break;
+        next = { ...next, ...enterNextSection(next, clock, deadline) };
+    }
+    if (next === submission) return submission;
+
+    await db.submission.update({
+        where: { id: submission.id },
+        data: {
+            sectionIndex: next.sectionIndex,
+            sectionStartedAt: next.sectionStartedAt,
+            sectionPausedAtStart: next.sectionPausedAtStart,
+            sectionExtraAtStart: next.sectionExtraAtStart
+        }
+    });
+    return next;
+}
+
+/**
+ * Where the candidate is, for the exam client. Sections before the current one are closed if they
+ * were locked or timed; the current one closes when its own time runs out.
+ */
+export function getSectionClock(sections: SectionConfig[], submission: SectionProgress, clock: AttemptClock, now = Date.now()) {
+    if (!isSectioned(sections, submission)) return null;
+
+    const index = Math.min(submission.sectionIndex, sections.length - 1);
+    const deadline = getSectionDeadline(sections[index], submission, clock);
+    const closed = sections.map((s, i) =>
+        i < index ? s.locked || !!s.timeLimitMinutes : i === index && deadline !== null && now > deadline + (clock.graceEndsAt - clock.deadline)
+    );
+    return { sectionIndex: index, sectionDeadline: deadline, closed };
+}
+
+/**
+ * Takes the candidate's answers, keeping what was already saved for closed sections and
+ * dropping anything for sections they have not reached.
+ */
+export function applySectionRules(
+    sections: SectionConfig[],
+    submission: SectionProgress,
+    clock: AttemptClock,
+    saved: Record<string, any>,
+    incoming: Record<string, any>,
+    now = Date.now()
+): Record<string, any> {
+    const state = getSectionClock(sections, submission, clock, now);
+    if (!state) return incoming;
+
+    const answers = { ...incoming };
+    getSectionRanges(submission.sectionSizes).forEach((range, i) => {
+        for (const qid of submission.questionIds.slice(range.start, range.end)) {
+            if (i > state.sectionIndex || (state.closed[i] && saved[qid] === undefined)) delete answers[qid];
+            else if (state.closed[i]) answers[qid] = saved[qid];
+        }
+    });
+    return answers;
+}
+
+// Candidate view of the sections: the questions of this paper, in the order they are shown
+export function toCandidateSections(sections: SectionConfig[], submission: Pick<Submission, 'questionIds' | 'sectionSizes'>) {
+    if (!isSectioned(sections, submission)) return undefined;
+    return getSectionRanges(submission.sectionSizes).map((range, i) => ({
+        ...sections[i],
+        questionIds: submission.questionIds.slice(range.start, range.end)
+    }));
+}
+
+export interface SectionScore {
+    id: string;
+    title: string;
+    score: number; // Question scores before negative marking and late penalty
+    maxScore: number;
+}
+
+export function getSectionScores(
+    sections: SectionConfig[],
+    submission: Pick<Submission, 'questionIds' | 'sectionSizes' | 'questionResults'>,
+    questions: { id: string; points: number }[]
+): SectionScore[] | undefined {
+    if (!isSectioned(sections, submission)) return undefined;
+
+    const results = (submission.questionResults || {}) as Record<string, { score?: number }>;
+    const points = new Map(questions.map(q => [q.id, q.points]));
+    return getSectionRanges(submission.sectionSizes).map((range, i) => {
+        const ids = submission.questionIds.slice(range.start, range.end);
+        return {
+            id: sections[i].id,
+            title: sections[i].title,
+            score: ids.reduce((sum, id) => sum + (Number(results[id]?.score) || 0), 0),
+            maxScore: ids.reduce((sum, id) => sum + (points.get(id) || 0), 0)
+        };
+    });
+}
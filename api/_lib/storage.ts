@@ -0,0 +1,184 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type StorageName = 'local' | 's3';
+
+export interface StoredObject {
+    body: Buffer;
+    contentType?: string;
+}
+
+/** Where uploaded media bytes live. Keys are opaque paths such as "media/ab/abcdef…". */
+export interface StorageAdapter {
+    name: StorageName;
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<StoredObject | null>;
+    delete(key: string): Promise<void>;
+}
+
+export interface S3Config {
+    endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 for MinIO
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+// Keys are generated by the media library, but nothing outside the storage root is ever touched
+const assertSafeKey = (key: string) => {
+    if (!key || key.startsWith('/') || key.split('/').some(part => part === '' || part === '.' || part === '..')) {
+        throw new Error(`Invalid storage key: ${key}`);
+    }
+};
+
+// === Local disk (self-hosting and development; serverless file systems are not persistent) ===
+
+export function createLocalStorage(dir: string): StorageAdapter {
+    const root = path.resolve(dir);
+    const resolve = (key: string) => {
+        assertSafeKey(key);
+        return path.join(root, key);
+    };
+
+    return {
+        name: 'local',
+        async put(key, body) {
+            const file = resolve(key);
+            await mkdir(path.dirname(file), { recursive: true });
+            await writeFile(file, body);
+        },
+        async get(key) {
+            try {
+                return { body: await readFile(resolve(key)) };
+            } catch (e: any) {
+                if (e?.code === 'ENOENT') return null;
+                throw e;
+            }
+        },
+        async delete(key) {
+            await rm(resolve(key), { force: true });
+        }
+    };
+}
+
+// === S3-compatible (AWS S3, MinIO, R2…), path-style requests signed with Signature V4 ===
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding of each path segment, as SigV4 canonical URIs expect
+const encodeKey = (key: string) =>
+    key.split('/').map(part => encodeURIComponent(part).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join('/');
+
+export function signS3Request(
+    config: S3Config,
+    method: string,
+    url: URL,
+    payloadHash: string,
+    headers: Record<string, string> = {},
+    now = new Date()
+): Record<string, string> {
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+    const signed: Record<string, string> = {
+        ...Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()])),
+        host: url.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate
+    };
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+        method,
+        url.pathname,
+        '', // No query strings are used
+        ...names.map(name => `${name}:${signed[name]}`),
+        '',
+        names.join(';'),
+        payloadHash
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+        (key, part) => hmac(key, part),
+        hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...rest } = signed;
+    return {
+        ...rest,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`
+    };
+}
+
+export function createS3Storage(config: S3Config): StorageAdapter {
+    const objectUrl = (key: string) => {
+        assertSafeKey(key);
+        return new URL(`${config.endpoint.replace(/\/+$/, '')}/${encodeKey(config.bucket)}/${encodeKey(key)}`);
+    };
+
+    const send = async (method: string, key: string, body?: Buffer, headers: Record<string, string> = {}) => {
+        const url = objectUrl(key);
+        const signedHeaders = signS3Request(config, method, url, sha256Hex(body || ''), headers);
+        return fetch(url, { method, headers: signedHeaders, body: body ? new Uint8Array(body) : undefined });
+    };
+
+    return {
+        name: 's3',
+        async put(key, body, contentType) {
+            const res = await send('PUT', key, body, { 'content-type': contentType });
+            if (!res.ok) throw new Error(`S3 PUT ${key} failed: ${res.status} ${await res.text()}`);
+        },
+        async get(key) {
+            const res = await send('GET', key);
+            if (res.status === 404) return null;
+            if (!res.ok) throw new Error(`S3 GET ${key} failed: ${res.status} ${await res.text()}`);
+            return { body: Buffer.from(await res.arrayBuffer()), contentType: res.headers.get('content-type') || undefined };
+        },
+        async delete(key) {
+            const res = await send('DELETE', key);
+            if (!res.ok && res.status !== 404) throw new Error(`S3 DELETE ${key} failed: ${res.status}`);
+        }
+    };
+}
+
+/** Media storage is missing or incomplete; uploads cannot be kept until the environment is fixed. */
+export class StorageNotConfiguredError extends Error {}
+
+let storageOverride: StorageAdapter | null = null;
+
+/** Replaces the configured storage (e.g. with an in-memory stub in tests). Pass null to restore. */
+export function setStorage(storage: StorageAdapter | null) {
+    storageOverride = storage;
+}
+
+/**
+ * MEDIA_STORAGE picks the adapter; local disk unless S3 is configured. On Vercel the function file
+ * system does not keep files, so there is no silent local fallback: storage must be set explicitly.
+ */
+export function getStorage(): StorageAdapter {
+    if (storageOverride) return storageOverride;
+
+    const configured = process.env.MEDIA_STORAGE || (process.env.S3_BUCKET ? 's3' : '');
+    if (!configured && process.env.VERCEL) {
+        throw new StorageNotConfiguredError('Media storage is not configured. Set S3_BUCKET and the other S3_* variables (see DEPLOYMENT.md).');
+    }
+    const name = (configured || 'local') as StorageName;
+    if (name === 's3') {
+        const config: S3Config = {
+            endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+            region: process.env.S3_REGION || 'us-east-1',
+            bucket: process.env.S3_BUCKET || '',
+            accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || ''
+        };
+        if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+            throw new StorageNotConfiguredError('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+        }
+        return createS3Storage(config);
+    }
+    return createLocalStorage(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), '.media'));
+}
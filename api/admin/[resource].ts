@@ -4,6 +4,8 @@ import { db } from '../_lib/db.js';
 import { authLib } from '../_lib/auth.js';
 import { emailLib } from '../_lib/email.js';
 import { parse } from 'cookie';
+import { announcementAudienceFilter, toIdSet } from '../_lib/groups.js';
+import { externalizeDataUrl } from '../_lib/media.js';
 
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -48,6 +50,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     try {
         switch (resource) {
             case 'users': return await handleUsers(req, res, user);
+            case 'groups': return await handleGroups(req, res, user);
             case 'logs': return await handleLogs(req, res, user);
             case 'announcements': return await handleAnnouncements(req, res, user);
             case 'broadcast': return await handleBroadcast(req, res, user);
@@ -79,7 +82,8 @@ async function handleUsers(req: VercelRequest, res: VercelResponse, user: any) {
                 skip,
                 take: limit,
                 select: {
-                    id: true, name: true, email: true, role: true, isVerified: true, lastActive: true, createdAt: true
+                    id: true, name: true, email: true, role: true, isVerified: true, lastActive: true, createdAt: true,
+                    accommodation: true, groups: { select: { id: true, name: true } }
                 } as any,
                 orderBy: { createdAt: 'desc' }
             }),
@@ -98,7 +102,38 @@ async function handleUsers(req: VercelRequest, res: VercelResponse, user: any) {
     }
 
     if (req.method === 'POST') {
-        const { action, userId, newPassword } = req.body;
+        const { action, userId, newPassword, accommodation } = req.body;
+
+        if (action === 'set-accommodation') {
+            if (!userId || !accommodation) return res.status(400).json({ error: 'UserId and accommodation required' });
+
+            const clamp = (value: any, max: number) => Math.min(max, Math.max(0, Math.round(Number(value) || 0)));
+            const data = {
+                extraTimePercent: clamp(accommodation.extraTimePercent, 300),
+                extraMinutes: clamp(accommodation.extraMinutes, 600),
+                restBreakMinutes: clamp(accommodation.restBreakMinutes, 240),
+                separateSitting: !!accommodation.separateSitting,
+                notes: typeof accommodation.notes === 'string' ? accommodation.notes.slice(0, 1000) : null,
+                updatedBy: user.userId
+            };
+
+            try {
+                const isEmpty = !data.extraTimePercent && !data.extraMinutes && !data.restBreakMinutes && !data.separateSitting && !data.notes;
+                if (isEmpty) {
+                    await db.accommodation.deleteMany({ where: { userId } });
+                    return res.status(200).json({ success: true, accommodation: null });
+                }
+
+                const saved = await db.accommodation.upsert({
+                    where: { userId },
+                    update: data,
+                    create: { ...data, userId }
+                });
+                return res.status(200).json({ success: true, accommodation: saved });
+            } catch (e: any) {
+                return res.status(500).json({ error: 'Failed to save accommodation' });
+            }
+        }
 
         if (action === 'reset-password') {
             if (!userId || !newPassword) return res.status(400).json({ error: 'UserId and NewPassword required' });
@@ -122,6 +157,58 @@ async function handleUsers(req: VercelRequest, res: VercelResponse, user: any) {
     return res.status(405).json({ error: 'Method not allowed' });
 }
 
+async function handleGroups(req: VercelRequest, res: VercelResponse, user: any) {
+    if (req.method === 'GET') {
+        const groups = await db.group.findMany({
+            orderBy: { name: 'asc' },
+            include: { members: { select: { id: true, name: true, email: true } } }
+        });
+        return res.status(200).json(groups);
+    }
+
+    if (req.method === 'POST') {
+        const { id, name, kind, description, memberIds } = req.body;
+        if (!name || typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: 'Group name required' });
+
+        const data = {
+            name: name.trim().slice(0, 120),
+            kind: ['CLASS', 'COHORT', 'DEPARTMENT'].includes(kind) ? kind : 'CLASS',
+            description: typeof description === 'string' ? description.slice(0, 500) : null
+        };
+        const memberSet = toIdSet(memberIds);
+
+        try {
+            const saved = id
+                ? await db.group.update({
+                    where: { id },
+                    data: { ...data, ...(memberSet && { members: { set: memberSet } }) },
+                    include: { members: { select: { id: true, name: true, email: true } } }
+                })
+                : await db.group.create({
+                    data: { ...data, members: { connect: memberSet || [] } },
+                    include: { members: { select: { id: true, name: true, email: true } } }
+                });
+            return res.status(200).json(saved);
+        } catch (e: any) {
+            console.error('Group save failed:', e);
+            return res.status(500).json({ error: 'Failed to save group' });
+        }
+    }
+
+    if (req.method === 'DELETE') {
+        const { id } = req.query;
+        if (!id || typeof id !== 'string') return res.status(400).json({ error: 'Missing id' });
+        try {
+            await db.group.delete({ where: { id } });
+            return res.status(200).json({ success: true, id });
+        } catch (e: any) {
+            return res.status(500).json({ error: 'Failed to delete group' });
+        }
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+}
+
 async function handleLogs(req: VercelRequest, res: VercelResponse, user: any) {
     if ((user.role as string) !== 'SUPERADMIN') return res.status(403).json({ error: 'Forbidden' });
 
@@ -170,10 +257,14 @@ async function handleLogs(req: VercelRequest, res: VercelResponse, user: any) {
 
 async function handleAnnouncements(req: VercelRequest, res: VercelResponse, user: any) {
     if (req.method === 'GET') {
+        // Admins see every post; everyone else only posts addressed to them
+        const isStaff = user && ['ADMIN', 'SUPERADMIN'].includes(user.role as string);
+        const audience = isStaff ? {} : user ? announcementAudienceFilter(user.userId) : { groups: { none: {} } };
+
         const posts = await db.blogPost.findMany({
-            where: { published: true },
+            where: { published: true, ...audience },
             orderBy: { createdAt: 'desc' },
-            include: { author: { select: { name: true } } }
+            include: { author: { select: { name: true } }, groups: { select: { id: true, name: true } } }
         });
         return res.status(200).json(posts.map(p => ({
             ...p,
@@ -204,15 +295,19 @@ async function handleAnnouncements(req: VercelRequest, res: VercelResponse, user
                 authorId: authorId
             };
 
+            const groups = toIdSet(p.groups);
+
             // Use Upsert to handle both New (Client-generated UUID) and Existing
             const saved = await db.blogPost.upsert({
                 where: { id: p.id },
-                update: data,
+                update: { ...data, ...(groups && { groups: { set: groups } }) },
                 create: {
                     ...data,
                     id: p.id,
-                    createdAt: p.createdAt ? new Date(p.createdAt) : new Date()
-                }
+                    createdAt: p.createdAt ? new Date(p.createdAt) : new Date(),
+                    groups: { connect: groups || [] }
+                },
+                include: { groups: { select: { id: true, name: true } } }
             });
             results.push(saved);
         }
@@ -247,7 +342,7 @@ async function handleBroadcast(req: VercelRequest, res: VercelResponse, user: an
     // Double check SUPERADMIN
     if ((user.role as string) !== 'SUPERADMIN') return res.status(403).json({ error: 'Forbidden' });
 
-    const { subject, message, targetRole } = req.body;
+    const { subject, message, targetRole, groupIds } = req.body;
 
     if (!subject || !message) {
         return res.status(400).json({ error: 'Subject and message are required' });
@@ -258,6 +353,9 @@ async function handleBroadcast(req: VercelRequest, res: VercelResponse, user: an
     if (targetRole && targetRole !== 'ALL') {
         whereClause.role = targetRole;
     }
+    if (Array.isArray(groupIds) && groupIds.length > 0) {
+        whereClause.groups = { some: { id: { in: groupIds } } };
+    }
 
     try {
         const recipients = await db.user.findMany({
@@ -326,7 +424,7 @@ async function handleSettings(req: VercelRequest, res: VercelResponse, user: any
 
         settings.forEach(s => {
             // Whitelist keys that store JSON objects
-            const jsonKeys = ['dbConfigs', 'apiKeys', 'oauthConfig', 'branding', 'smtpConfig', 'timerSettings', 'gradingPolicy'];
+            const jsonKeys = ['dbConfigs', 'apiKeys', 'oauthConfig', 'branding', 'smtpConfig', 'timerSettings', 'gradingPolicy', 'llmConfig'];
 
             if (jsonKeys.includes(s.key)) {
                 if (isSuperAdmin || s.key === 'branding') { // Branding is public-ish
@@ -342,8 +440,10 @@ async function handleSettings(req: VercelRequest, res: VercelResponse, user: any
             }
         });
 
-        if (config.aiGradingEnabled === 'true') config.aiGradingEnabled = true;
-        if (config.aiGradingEnabled === 'false') config.aiGradingEnabled = false;
+        ['aiGlobalEnabled', 'aiGradingEnabled', 'aiQuestionGenEnabled'].forEach(key => {
+            if (config[key] === 'true') config[key] = true;
+            if (config[key] === 'false') config[key] = false;
+        });
         if (config.maintenanceMode === 'true') config.maintenanceMode = true;
         if (config.maintenanceMode === 'false') config.maintenanceMode = false;
 
@@ -354,6 +454,17 @@ async function handleSettings(req: VercelRequest, res: VercelResponse, user: any
         if (!isSuperAdmin) return res.status(403).json({ error: 'Forbidden: Superadmin only' });
 
         const updates: Record<string, any> = req.body;
+
+        // Uploaded logos used to be stored inline as data URLs; keep them in media storage instead
+        if (updates.branding && typeof updates.branding === 'object') {
+            for (const field of ['appIcon', 'faviconUrl']) {
+                if (typeof updates.branding[field] !== 'string' || !updates.branding[field].startsWith('data:')) continue;
+                const image = await externalizeDataUrl(updates.branding[field], user?.userId);
+                if ('error' in image) return res.status(400).json({ error: `${field}: ${image.error}` });
+                updates.branding = { ...updates.branding, [field]: image.url };
+            }
+        }
+
         const prismaPromises = Object.entries(updates).map(([key, value]) => {
             const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
             return db.systemSettings.upsert({
@@ -2,8 +2,54 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { db } from '../_lib/db.js';
 import { authLib } from '../_lib/auth.js';
+import { getEntryWindow } from '../_lib/deadline.js';
+import { getAttemptStatus } from '../_lib/attempts.js';
+import { assignedExamFilter, isExamAssigned, toIdSet } from '../_lib/groups.js';
+import { generateCodeSecret, generateFixedCode, getCurrentAccessCode, toCandidateExam, withoutCodeSecret } from '../_lib/accessCode.js';
+import { parseSections } from '../_lib/sections.js';
 import { parse } from 'cookie';
 
+// Optional date and number fields: undefined leaves the value alone, null/'' clears it
+const toOptionalDate = (value: any): Date | null | undefined => {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toOptionalInt = (value: any): number | null | undefined => {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    const n = Math.floor(Number(value));
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+const ATTEMPT_SCORING = ['BEST', 'LAST', 'AVERAGE'];
+
+// Start code settings; switching to a mode that needs a code or secret issues one if none exists yet
+const toAccessCodeData = (
+    mode: any,
+    code: any,
+    rotationMinutes: any,
+    existing?: { accessCode: string | null; accessCodeSecret: string | null }
+) => {
+    const data: Record<string, any> = {};
+    if (['NONE', 'FIXED', 'ROTATING'].includes(mode)) data.accessCodeMode = mode;
+    if (typeof code === 'string' && code.trim()) data.accessCode = code.trim().toUpperCase().slice(0, 32);
+
+    const rotation = toOptionalInt(rotationMinutes);
+    if (rotation) data.accessCodeRotationMinutes = Math.min(rotation, 24 * 60);
+
+    if (data.accessCodeMode === 'FIXED' && !data.accessCode && !existing?.accessCode) data.accessCode = generateFixedCode();
+    if (data.accessCodeMode === 'ROTATING' && !existing?.accessCodeSecret) data.accessCodeSecret = generateCodeSecret();
+    return data;
+};
+
+const EXAM_ASSIGNMENT_INCLUDE = {
+    assignedGroups: { select: { id: true, name: true } },
+    assignedUsers: { select: { id: true, name: true, email: true } }
+};
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     const cookies = parse(req.headers.cookie || '');
     const token = cookies.auth_token || req.headers.authorization?.split(' ')[1];
@@ -27,12 +73,42 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Handlers for Specific ID (GET Detail, PUT Update, DELETE, POST Actions)
     if (pathId) {
+        // ACTION: Start code for invigilators (GET shows the current code, POST issues a new one)
+        if (action === 'access-code') {
+            if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
+            try {
+                let exam = await db.exam.findUnique({ where: { id: pathId } });
+                if (!exam) return res.status(404).json({ error: 'Exam not found' });
+
+                if (req.method === 'POST') {
+                    if (exam.accessCodeMode === 'NONE') return res.status(400).json({ error: 'This exam does not use a start code' });
+                    exam = await db.exam.update({
+                        where: { id: pathId },
+                        data: exam.accessCodeMode === 'FIXED' ? { accessCode: generateFixedCode() } : { accessCodeSecret: generateCodeSecret() }
+                    });
+                } else if (req.method !== 'GET') {
+                    return res.status(405).json({ error: 'Method not allowed' });
+                }
+
+                const current = getCurrentAccessCode(exam);
+                return res.status(200).json({
+                    mode: exam.accessCodeMode,
+                    code: current?.code || null,
+                    expiresAt: current?.expiresAt || null,
+                    rotationMinutes: exam.accessCodeRotationMinutes,
+                    serverNow: Date.now()
+                });
+            } catch (e) {
+                return res.status(500).json({ error: 'Failed to load start code' });
+            }
+        }
+
         // ACTION: Release Results (POST /api/exams/123?action=release)
         if (req.method === 'POST' && action === 'release') {
             if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
             try {
                 await db.submission.updateMany({
-                    where: { examId: pathId },
+                    where: { examId: pathId, terminatedAt: null },
                     data: { resultsReleased: true }
                 });
                 return res.status(200).json({ success: true });
@@ -51,22 +127,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
                 if (!exam) return res.status(404).json({ error: 'Exam not found' });
 
-                if (!isAdmin && !exam.published) {
+                if (!isAdmin && (!exam.published || !(await isExamAssigned(exam.id, user.userId)))) {
                     return res.status(403).json({ error: 'Exam access denied' });
                 }
 
                 if (!isAdmin) {
+                    // The paper is only for a candidate sitting the exam, so it cannot be read before opensAt
+                    // or a fixed start; everyone else gets the details without questions
+                    const sitting = await db.submission.findFirst({
+                        where: { examId: exam.id, userId: user.userId, status: 'UNGRADED' },
+                        select: { id: true }
+                    });
                     const sanitized = {
                         ...exam,
-                        questions: exam.questions.map(q => ({
+                        questions: !sitting ? [] : exam.questions.map(q => ({
                             ...q,
-                            correctAnswer: undefined
+                            correctAnswer: undefined,
+                            correctAnswers: undefined,
+                            answerConfig: undefined,
+                            rubric: undefined
                         }))
                     };
-                    return res.status(200).json(sanitized);
+                    return res.status(200).json(toCandidateExam(sanitized));
                 }
 
-                return res.status(200).json(exam);
+                return res.status(200).json(withoutCodeSecret(exam));
             } catch (e) {
                 return res.status(500).json({ error: 'Failed to fetch exam' });
             }
@@ -97,7 +182,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     warningTimeThreshold, resultReleaseMode, scheduledReleaseDate,
                     showMcqScoreImmediately, passMark, totalPoints, published,
                     version, resultRelease, reviewed, timerSettings, gradingPolicy,
-                    questions, collaborators, createdAt, resourceLink
+                    poolRules, sections, shuffleQuestions, shuffleOptions, questions, collaborators, createdAt, resourceLink,
+                    opensAt, closesAt, fixedStart, lateEntryMinutes,
+                    maxAttempts, attemptCooldownMinutes, attemptScoring, assignedGroups, assignedUsers,
+                    accessCodeMode, accessCode, accessCodeRotationMinutes,
+                    lockdownMode, lockdownMaxViolations
                 } = req.body;
 
                 const updateData: any = {
@@ -105,9 +194,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     warningTimeThreshold, resultReleaseMode, scheduledReleaseDate,
                     showMcqScoreImmediately, passMark, totalPoints, published,
                     version, resultRelease, reviewed, timerSettings, gradingPolicy,
-                    resourceLink
+                    poolRules: Array.isArray(poolRules) ? poolRules : undefined,
+                    sections: Array.isArray(sections) ? parseSections(sections) : undefined,
+                    shuffleQuestions, shuffleOptions,
+                    resourceLink,
+                    opensAt: toOptionalDate(opensAt),
+                    closesAt: toOptionalDate(closesAt),
+                    fixedStart,
+                    lateEntryMinutes: toOptionalInt(lateEntryMinutes),
+                    maxAttempts: toOptionalInt(maxAttempts) ?? undefined,
+                    attemptCooldownMinutes: toOptionalInt(attemptCooldownMinutes) ?? undefined,
+                    attemptScoring: ATTEMPT_SCORING.includes(attemptScoring) ? attemptScoring : undefined,
+                    lockdownMode,
+                    lockdownMaxViolations: toOptionalInt(lockdownMaxViolations) ?? undefined
                 };
 
+                if (updateData.opensAt && updateData.closesAt && updateData.closesAt <= updateData.opensAt) {
+                    return res.status(400).json({ error: 'Closing time must be after opening time' });
+                }
+
                 if (createdAt) {
                     updateData.createdAt = typeof createdAt === 'number' ? new Date(createdAt) : createdAt;
                 }
@@ -120,6 +225,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     };
                 }
 
+                Object.assign(updateData, toAccessCodeData(accessCodeMode, accessCode, accessCodeRotationMinutes, exam));
+
+                const groupSet = toIdSet(assignedGroups);
+                if (groupSet) updateData.assignedGroups = { set: groupSet };
+                const assigneeSet = toIdSet(assignedUsers);
+                if (assigneeSet) updateData.assignedUsers = { set: assigneeSet };
+
                 if (collaborators && Array.isArray(collaborators)) {
                     updateData.collaborators = {
                         set: collaborators.filter((c: any) => c && c.id).map((c: any) => ({ id: c.id }))
@@ -128,9 +240,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
                 const updated = await db.exam.update({
                     where: { id: pathId },
-                    data: updateData
+                    data: updateData,
+                    include: EXAM_ASSIGNMENT_INCLUDE
                 });
-                return res.status(200).json(updated);
+                return res.status(200).json(withoutCodeSecret(updated));
             } catch (e: any) {
                 console.error("Exam Update Failed:", e);
                 return res.status(500).json({ error: 'Update failed: ' + e.message });
@@ -178,16 +291,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             console.log(`[API] Fetching Exams. Mode: ${mode}, User: ${(user as any).email} (${user.role})`);
             if (mode === 'available') {
                 const exams = await db.exam.findMany({
-                    where: {
-                        published: true,
+                    where: { published: true, ...assignedExamFilter(user.userId) },
+                    include: {
                         submissions: {
-                            none: { userId: user.userId }
+                            where: { userId: user.userId },
+                            select: { status: true, submittedAt: true, timeSpentMs: true }
                         }
                     },
                     orderBy: { createdAt: 'desc' }
                 });
-                console.log(`[API] Found ${exams.length} available exams.`);
-                return res.status(200).json(exams);
+
+                // Listed while there is something to do: resume an open attempt, or start one now or later
+                // (upcoming windows and running cooldowns stay visible so candidates can see when)
+                const available = exams.flatMap(({ submissions, ...exam }) => {
+                    const attemptStatus = getAttemptStatus(exam, submissions);
+                    if (!attemptStatus.inProgress) {
+                        if (getEntryWindow(exam).status === 'CLOSED') return [];
+                        if (attemptStatus.max !== null && attemptStatus.used >= attemptStatus.max) return [];
+                    }
+                    return [{ ...toCandidateExam(exam), attemptStatus }];
+                });
+                console.log(`[API] Found ${available.length} available exams.`);
+                return res.status(200).json(available);
             }
 
             if (!isAdmin) {
@@ -200,11 +325,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 include: {
                     questions: { select: { id: true } },
                     author: { select: { id: true, name: true, email: true } },
-                    collaborators: { select: { id: true, name: true, email: true } }
+                    collaborators: { select: { id: true, name: true, email: true } },
+                    ...EXAM_ASSIGNMENT_INCLUDE
                 }
             });
             console.log(`[API] Admin List: Found ${exams.length} exams.`);
-            return res.status(200).json(exams);
+            return res.status(200).json(exams.map(withoutCodeSecret));
         } catch (e: any) {
             console.error("[API] Failed to fetch exams list:", e);
             return res.status(500).json({ error: 'Failed to fetch exams ' + e.message });
@@ -217,10 +343,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         try {
             const {
                 title, description, category, difficulty, durationMinutes,
-                timerSettings, gradingPolicy, questions, published,
+                timerSettings, gradingPolicy, poolRules, sections, shuffleQuestions, shuffleOptions, questions, published,
                 collaborators, passMark, totalPoints,
                 warningTimeThreshold, resultReleaseMode, scheduledReleaseDate,
-                showMcqScoreImmediately, resultRelease, resourceLink, createdAt
+                showMcqScoreImmediately, resultRelease, resourceLink, createdAt,
+                opensAt, closesAt, fixedStart, lateEntryMinutes,
+                maxAttempts, attemptCooldownMinutes, attemptScoring, assignedGroups, assignedUsers,
+                accessCodeMode, accessCode, accessCodeRotationMinutes,
+                lockdownMode, lockdownMaxViolations
             } = req.body;
 
             const questionConnect = questions && Array.isArray(questions)
@@ -239,9 +369,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 durationMinutes: Number(durationMinutes) || 30,
                 timerSettings: timerSettings || {},
                 gradingPolicy: gradingPolicy || {},
+                poolRules: Array.isArray(poolRules) ? poolRules : undefined,
+                sections: Array.isArray(sections) ? parseSections(sections) : undefined,
+                shuffleQuestions: shuffleQuestions !== undefined ? !!shuffleQuestions : true,
+                shuffleOptions: shuffleOptions !== undefined ? !!shuffleOptions : true,
                 published: published !== undefined ? published : false,
                 resultRelease: resultRelease || 'INSTANT',
                 resourceLink: resourceLink || null,
+                opensAt: toOptionalDate(opensAt),
+                closesAt: toOptionalDate(closesAt),
+                fixedStart: !!fixedStart,
+                lateEntryMinutes: toOptionalInt(lateEntryMinutes),
+                maxAttempts: toOptionalInt(maxAttempts) ?? 1,
+                attemptCooldownMinutes: toOptionalInt(attemptCooldownMinutes) ?? 0,
+                attemptScoring: ATTEMPT_SCORING.includes(attemptScoring) ? attemptScoring : 'BEST',
+                ...toAccessCodeData(accessCodeMode, accessCode, accessCodeRotationMinutes),
+                lockdownMode: !!lockdownMode,
+                lockdownMaxViolations: toOptionalInt(lockdownMaxViolations) ?? 0,
 
                 passMark: passMark !== undefined ? Number(passMark) : 50,
                 totalPoints: totalPoints !== undefined ? Number(totalPoints) : 0,
@@ -253,10 +397,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 author: { connect: { id: user.userId } },
                 questions: { connect: questionConnect },
                 // @ts-ignore
-                collaborators: { connect: collaboratorConnect }
+                collaborators: { connect: collaboratorConnect },
+                assignedGroups: { connect: toIdSet(assignedGroups) || [] },
+                assignedUsers: { connect: toIdSet(assignedUsers) || [] }
             };
 
-            console.log("[API] Creating Exam. Payload:", JSON.stringify(createData, null, 2));
+            if (createData.opensAt && createData.closesAt && createData.closesAt <= createData.opensAt) {
+                return res.status(400).json({ error: 'Closing time must be after opening time' });
+            }
+
+            console.log(`[API] Creating Exam. Title: ${createData.title}, Author: ${user.userId}`); // Not the payload: it holds the start code
 
             if (scheduledReleaseDate) {
                 createData.scheduledReleaseDate = typeof scheduledReleaseDate === 'number'
@@ -270,10 +420,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
             const exam = await db.exam.create({
                 data: createData,
-                include: { questions: true }
+                include: { questions: true, ...EXAM_ASSIGNMENT_INCLUDE }
             });
             console.log("[API] Exam Created Successfully:", exam.id);
-            return res.status(200).json(exam);
+            return res.status(200).json(withoutCodeSecret(exam));
         } catch (e: any) {
             console.error("Exam Creation Failed:", e);
             // Log inner prisma error if available
@@ -0,0 +1,92 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { db } from './_lib/db.js';
+import { authLib } from './_lib/auth.js';
+import { parse } from 'cookie';
+import { checkRateLimit } from './_lib/rateLimit.js';
+import { toProctoringEventData } from './_lib/integrity.js';
+
+const SEVERITIES = ['INFO', 'WARN', 'CRITICAL'];
+// The only actions the client may report (see logEvent callers). Stored as CLIENT_<action>,
+// so they never pass for entries the server writes itself.
+const CLIENT_ACTIONS = ['CSP_VIOLATION', 'SYSTEM_BACKUP', 'API_THROTTLED', 'API_AUTH_FAILURE', 'API_INGEST'];
+const MAX_EVENTS_PER_REQUEST = 50;
+
+/**
+ * Client-side logging.
+ * - `{ submissionId, events: [...] }` records proctoring events against the caller's own attempt
+ *   (batched, since the exam client queues events while offline).
+ * - `{ action, details, severity }` writes a CLIENT_ audit log entry for one of CLIENT_ACTIONS
+ *   (see logEvent in securityService). Only admins can report CRITICAL.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+    const cookies = parse(req.headers.cookie || '');
+    const token = cookies.auth_token || req.headers.authorization?.split(' ')[1];
+    if (!token) return res.status(401).json({ error: 'Unauthorized' });
+
+    let user;
+    try {
+        user = authLib.verifyToken(token);
+    } catch (e) {
+        return res.status(401).json({ error: 'Invalid token' });
+    }
+    if (!user) return res.status(401).json({ error: 'Invalid token' });
+
+    const body = req.body || {};
+
+    try {
+        if (body.submissionId) {
+            if (!Array.isArray(body.events) || body.events.length === 0) return res.status(400).json({ error: 'Missing events' });
+            if (body.events.length > MAX_EVENTS_PER_REQUEST) return res.status(413).json({ error: 'Too many events' });
+
+            const submission = await db.submission.findUnique({
+                where: { id: String(body.submissionId) },
+                select: { id: true, userId: true, submittedAt: true }
+            });
+            if (!submission) return res.status(404).json({ error: 'Submission not found' });
+            if (submission.userId !== user.userId) return res.status(403).json({ error: 'Access denied' });
+
+            if (!await checkRateLimit(`proctor_${submission.id}`, 30, 60)) {
+                return res.status(429).json({ error: 'Too many requests' });
+            }
+
+            // Accepted after submission too: events queued offline are flushed once the candidate reconnects
+            const data = body.events
+                .map((e: any) => toProctoringEventData(e, submission.id, submission.submittedAt))
+                .filter((e: any): e is NonNullable<ReturnType<typeof toProctoringEventData>> => e !== null);
+            if (data.length === 0) return res.status(400).json({ error: 'No valid events' });
+
+            await db.$transaction([
+                db.proctoringEvent.createMany({ data }),
+                db.submission.update({ where: { id: submission.id }, data: { proctorAlerts: { increment: data.length } } })
+            ]);
+            return res.status(201).json({ success: true, recorded: data.length });
+        }
+
+        const action = typeof body.action === 'string' ? body.action.trim() : '';
+        if (!action) return res.status(400).json({ error: 'Missing action' });
+        if (!CLIENT_ACTIONS.includes(action)) return res.status(400).json({ error: 'Unknown action' });
+        const isAdmin = ['ADMIN', 'SUPERADMIN'].includes((user.role as string).toUpperCase());
+        const requested = SEVERITIES.includes(body.severity) ? body.severity : 'INFO';
+        const severity = requested === 'CRITICAL' && !isAdmin ? 'WARN' : requested;
+        const details = typeof body.details === 'string' ? body.details.slice(0, 1000) : '';
+
+        if (!await checkRateLimit(`log_${user.userId}`, 30, 60)) {
+            return res.status(429).json({ error: 'Too many requests' });
+        }
+
+        await db.auditLog.create({
+            data: {
+                userId: user.userId,
+                action: `CLIENT_${action}`,
+                details: `[${severity}] ${details}`,
+                ipAddress: String(req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown')
+            }
+        });
+        return res.status(201).json({ success: true });
+    } catch (e) {
+        console.error('Log Error:', e);
+        return res.status(500).json({ error: 'Failed to record log' });
+    }
+}
@@ -0,0 +1,128 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { db } from '../_lib/db.js';
+import { authLib } from '../_lib/auth.js';
+import { parse } from 'cookie';
+import { normalizeContentType, storeMedia, toAttachment, uploadLimit } from '../_lib/media.js';
+import { StorageNotConfiguredError, getStorage } from '../_lib/storage.js';
+
+// Uploads arrive as the raw file, not JSON
+export const config = { api: { bodyParser: false } };
+
+class PayloadTooLarge extends Error {}
+
+const readBody = (req: VercelRequest, limit: number) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+            reject(new PayloadTooLarge());
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const parseRange = (header: string | undefined, size: number) => {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header || '');
+    if (!match || (!match[1] && !match[2])) return null;
+    const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+    const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    return start <= end && start < size ? { start, end } : 'invalid' as const;
+};
+
+/**
+ * Media assets. GET is public (question stimuli and branding are shown to candidates and on the
+ * login page) and cached for good, since an asset's bytes never change. POST is for admins.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method === 'GET') {
+        const { id } = req.query;
+        if (typeof id !== 'string' || !id) return res.status(400).json({ error: 'Media id is required' });
+
+        try {
+            const asset = await db.mediaAsset.findUnique({ where: { id } });
+            if (!asset) return res.status(404).json({ error: 'Media not found' });
+
+            const object = await getStorage().get(asset.storageKey);
+            if (!object) return res.status(404).json({ error: 'Media file is missing from storage' });
+
+            const filename = (asset.filename || `${asset.id}`).replace(/[^\w.\- ]/g, '_');
+            res.setHeader('Content-Type', asset.contentType);
+            res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+            res.setHeader('X-Content-Type-Options', 'nosniff');
+            res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+            res.setHeader('Accept-Ranges', 'bytes');
+
+            // Audio players seek with range requests
+            const range = parseRange(req.headers.range, object.body.length);
+            if (range === 'invalid') {
+                res.setHeader('Content-Range', `bytes */${object.body.length}`);
+                return res.status(416).end();
+            }
+            if (range) {
+                res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.body.length}`);
+                return res.status(206).send(object.body.subarray(range.start, range.end + 1));
+            }
+            return res.status(200).send(object.body);
+        } catch (e: any) {
+            if (e instanceof StorageNotConfiguredError) return res.status(503).json({ error: e.message });
+            console.error('Media read failed:', e);
+            return res.status(500).json({ error: 'Failed to load media' });
+        }
+    }
+
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+    const cookies = parse(req.headers.cookie || '');
+    const token = cookies.auth_token || req.headers.authorization?.split(' ')[1];
+    if (!token) return res.status(401).json({ error: 'Unauthorized' });
+
+    let user;
+    try {
+        user = authLib.verifyToken(token);
+    } catch (e) {
+        return res.status(401).json({ error: 'Invalid token' });
+    }
+    if (!user) return res.status(401).json({ error: 'Invalid token' });
+    if (!['ADMIN', 'SUPERADMIN'].includes((user.role as string).toUpperCase())) {
+        return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    try {
+        getStorage();
+    } catch (e) {
+        if (e instanceof StorageNotConfiguredError) return res.status(503).json({ error: e.message });
+        throw e;
+    }
+
+    const contentType = normalizeContentType(req.headers['content-type']);
+    const limit = uploadLimit(contentType);
+    if (Number(req.headers['content-length']) > limit) {
+        return res.status(413).json({ error: `File is too large (max ${limit / (1024 * 1024)}MB)` });
+    }
+
+    let filename: string | null = null;
+    try {
+        const header = req.headers['x-filename'];
+        if (typeof header === 'string' && header) filename = decodeURIComponent(header);
+    } catch (e) {
+        // A badly encoded name is not worth failing the upload over
+    }
+
+    try {
+        const body = await readBody(req, limit);
+        const result = await storeMedia(body, contentType, filename, user.userId);
+        if ('error' in result) return res.status(400).json({ error: result.error });
+
+        const { asset } = result;
+        return res.status(201).json({ ...toAttachment(asset), size: asset.size });
+    } catch (e: any) {
+        if (e instanceof PayloadTooLarge) return res.status(413).json({ error: `File is too large (max ${limit / (1024 * 1024)}MB)` });
+        console.error('Media upload failed:', e);
+        return res.status(500).json({ error: 'Failed to store media' });
+    }
+}
@@ -3,6 +3,9 @@ import { VercelRequest, VercelResponse } from '@vercel/node';
 import { db } from '../_lib/db.js';
 import { authLib } from '../_lib/auth.js';
 import { parse } from 'cookie';
+import { getLlmProvider, isAiFeatureEnabled } from '../_lib/llm.js';
+import { sanitizeRichText } from '../_lib/richText.js';
+import { externalizeDataUrl, parseAttachments } from '../_lib/media.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     const cookies = parse(req.headers.cookie || '');
@@ -40,6 +43,29 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
     }
 
+    // === AI GENERATION (returns drafts; nothing is saved) ===
+    if (action === 'generate') {
+        if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+        try {
+            if (!(await isAiFeatureEnabled('questionGen'))) return res.status(403).json({ error: 'AI question generation is disabled in system settings' });
+
+            const { topic, count, types, difficulty } = req.body || {};
+            if (!topic || typeof topic !== 'string') return res.status(400).json({ error: 'Topic is required' });
+
+            const provider = await getLlmProvider();
+            const questions = await provider.generateQuestions({
+                topic: topic.trim(),
+                count: Math.min(Math.max(Number(count) || 5, 1), 50),
+                types: Array.isArray(types) ? types : ['MCQ'],
+                difficulty: difficulty || 'MEDIUM'
+            });
+            return res.status(200).json({ questions, provider: provider.name });
+        } catch (e: any) {
+            console.error('Question generation failed', e);
+            return res.status(502).json({ error: 'Automated generation failed. Please use manual item construction.' });
+        }
+    }
+
     // === BATCH OPERATIONS ===
     if (action === 'batch') {
         // DELETE BATCH
@@ -63,15 +89,29 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
             if (!Array.isArray(questionsToImport)) return res.status(400).json({ error: 'Invalid payload' });
 
-            const validQuestions = questionsToImport.map((q: any) => ({
+            // Imported images may be data URLs; they go to media storage instead of the row
+            const media: { imageUrl: string | null; attachments?: any[] }[] = [];
+            for (const [i, q] of questionsToImport.entries()) {
+                const image = await externalizeDataUrl(q?.imageUrl, user.userId);
+                if ('error' in image) return res.status(400).json({ error: `Question ${i + 1}: ${image.error}` });
+                media.push({ imageUrl: image.url, attachments: await parseAttachments(q?.attachments ?? q?.media) }); // BulkImportModal sends `media` references
+            }
+
+            const validQuestions = questionsToImport.map((q: any, i: number) => ({
                 type: q.type || 'MCQ',
-                text: q.text || 'Untitled Question',
+                text: sanitizeRichText(q.text) || 'Untitled Question',
                 options: q.options || [],
                 correctAnswer: q.correctAnswer || '',
+                correctAnswers: Array.isArray(q.correctAnswers) ? q.correctAnswers : [],
+                answerConfig: q.answerConfig || undefined,
+                rubric: Array.isArray(q.rubric) ? q.rubric : undefined,
                 points: q.points || 1,
                 batchId: batchId || q.batchId || null, // Capture batchId
                 category: q.category || 'General',
-                imageUrl: q.imageUrl || null,
+                difficulty: ['EASY', 'MEDIUM', 'HARD'].includes(q.difficulty) ? q.difficulty : null,
+                lockedOptions: Array.isArray(q.lockedOptions) ? q.lockedOptions : [],
+                imageUrl: media[i].imageUrl,
+                attachments: media[i].attachments,
                 authorId: user.userId // Assign author!
             }));
 
@@ -108,10 +148,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     return res.status(403).json({ error: 'Access denied' });
                 }
 
-                const { type, text, options, correctAnswer, points, category, imageUrl, collaborators } = req.body;
+                const { type, text, options, correctAnswer, correctAnswers, answerConfig, rubric, points, category, difficulty, lockedOptions, imageUrl, attachments, collaborators } = req.body;
+
+                let image: { url: string | null } | undefined;
+                if (imageUrl !== undefined) {
+                    const result = await externalizeDataUrl(imageUrl, user.userId);
+                    if ('error' in result) return res.status(400).json({ error: result.error });
+                    image = result;
+                }
 
                 // Construct update data
-                const updateData: any = { type, text, options, correctAnswer, points, category, imageUrl };
+                const updateData: any = {
+                    type, text: text === undefined ? undefined : sanitizeRichText(text) || 'Untitled Question', options, correctAnswer, correctAnswers, answerConfig, rubric, points, category, difficulty, lockedOptions,
+                    imageUrl: image?.url, attachments: await parseAttachments(attachments)
+                };
 
                 // Clean undefined
                 Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
@@ -220,16 +270,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // POST: Create
     if (req.method === 'POST') {
         try {
-            const { type, text, options, correctAnswer, points, category, imageUrl, collaborators } = req.body;
+            const { type, text, options, correctAnswer, correctAnswers, answerConfig, rubric, points, category, difficulty, lockedOptions, imageUrl, attachments, collaborators } = req.body;
+
+            const image = await externalizeDataUrl(imageUrl, user.userId);
+            if ('error' in image) return res.status(400).json({ error: image.error });
 
             const createData: any = {
                 type: type || 'MCQ',
-                text: text || 'New Question',
+                text: sanitizeRichText(text) || 'New Question',
                 options: options || [],
                 correctAnswer: correctAnswer || '',
+                correctAnswers: Array.isArray(correctAnswers) ? correctAnswers : [],
+                answerConfig: answerConfig || undefined,
+                rubric: Array.isArray(rubric) ? rubric : undefined,
                 points: points || 1,
                 category,
-                imageUrl,
+                difficulty: difficulty || undefined,
+                lockedOptions: Array.isArray(lockedOptions) ? lockedOptions : [],
+                imageUrl: image.url,
+                attachments: await parseAttachments(attachments),
                 author: { connect: { id: user.userId } }
             };
 
@@ -3,7 +3,74 @@ import { VercelRequest, VercelResponse } from '@vercel/node';
 import { db } from '../_lib/db.js';
 import { authLib } from '../_lib/auth.js';
 import { parse } from 'cookie';
-import { calculateGrade } from '../_lib/grading.js';
+import { calculateGrade, scoreRubric, toSubmissionGradeData } from '../_lib/grading.js';
+import { getLlmProvider, isAiFeatureEnabled } from '../_lib/llm.js';
+import { applyOptionOrder, drawPaper, shufflePaper, withPaper } from '../_lib/paper.js';
+import { getAttemptClock, getEntryWindow, getSubmissionTiming, loadAttemptClock } from '../_lib/deadline.js';
+import { getAttemptStatus, getNewAttemptBlocker } from '../_lib/attempts.js';
+import { isExamAssigned } from '../_lib/groups.js';
+import { requiresAccessCode, toCandidateExam, verifyAccessCode } from '../_lib/accessCode.js';
+import { checkRateLimit } from '../_lib/rateLimit.js';
+import { getIntegrityReport, snapshotStorageKey, snapshotUrl, toSnapshotData } from '../_lib/integrity.js';
+import { StorageNotConfiguredError, getStorage } from '../_lib/storage.js';
+import { getJournalKey, toDraftSeq, toFlaggedIds, toSubmitKey } from '../_lib/journal.js';
+import { loadTheoryQuestions, richTextToPlain, sanitizeTheoryAnswers } from '../_lib/richText.js';
+import { MEDIA_PLAY_EVENTS, MediaPlayEventType, parseMediaPlays, recordMediaEvent, toPlayCounts } from '../_lib/mediaPlays.js';
+import { MediaAttachment } from '../_lib/media.js';
+import { applySectionRules, enterNextSection, getSectionClock, getSectionScores, parseSections, syncSectionProgress, toCandidateSections } from '../_lib/sections.js';
+import { randomUUID } from 'crypto';
+import { Exam, Question, Submission } from '@prisma/client';
+
+type AttemptWithExam = Submission & { exam: Exam & { questions: Question[] } };
+
+/**
+ * Grades a candidate's own attempt against the server clock.
+ * Answers arriving after the grace period count as late (with penalty) if the exam allows it;
+ * otherwise the last draft saved in time is graded instead.
+ * An invigilator ending the attempt (`byInvigilator`) grades the given answers with no late penalty.
+ * `submitKey` is the client's idempotency key: a replay of the same hand-in gets this result back.
+ * In a sectioned exam, closed sections keep the answers saved before they closed.
+ * Theory answers are rich text and are sanitized before they are stored.
+ */
+async function finalizeAttempt(submission: AttemptWithExam, answers: Record<string, any>, options: { byInvigilator?: boolean; submitKey?: string | null } = {}) {
+    const now = Date.now();
+    const clock = await loadAttemptClock(submission.exam, submission, now);
+    const timing = options.byInvigilator ? 'ON_TIME' : getSubmissionTiming(clock, now);
+    const isLate = timing === 'LATE';
+    const draft = (submission.answersDraft || {}) as Record<string, any>;
+    let finalAnswers = timing === 'CLOSED' ? draft : answers;
+    if (timing !== 'CLOSED' && !options.byInvigilator) {
+        const sections = parseSections(submission.exam.sections);
+        const progress = await syncSectionProgress(sections, submission, clock, now);
+        finalAnswers = applySectionRules(sections, progress, clock, draft, answers, now);
+    }
+
+    if (timing !== 'ON_TIME') {
+        console.warn(`[Submit] ${submission.id} arrived ${Math.round((now - clock.deadline) / 1000)}s after the deadline (${timing}).`);
+    }
+
+    const paper = await withPaper(submission.exam, submission.questionIds);
+    finalAnswers = sanitizeTheoryAnswers(paper.questions, finalAnswers);
+    const gradeResult = calculateGrade(
+        paper,
+        finalAnswers,
+        submission.questionResults as Record<string, any>,
+        { isLate }
+    );
+
+    const updated = await db.submission.update({
+        where: { id: submission.id },
+        data: {
+            answers: finalAnswers,
+            ...toSubmissionGradeData(gradeResult),
+            isLate,
+            timeSpentMs: now - clock.startedAt,
+            resultsReleased: submission.exam.resultRelease === 'INSTANT',
+            submitKey: options.submitKey ?? undefined
+        }
+    });
+    return { updated, timing };
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     const cookies = parse(req.headers.cookie || '');
@@ -43,37 +110,50 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
                 try {
                     const { questionId, result } = req.body;
-                    const submission = await db.submission.findUnique({ where: { id } });
-                    if (!submission) return res.status(404).json({ error: 'Submission not found' });
-
-                    const currentResults: any = submission.questionResults || {};
-                    // Ensure result has score and isCorrect
-                    currentResults[questionId] = {
-                        score: Number(result.score) || 0,
-                        isCorrect: result.isCorrect ?? (Number(result.score) > 0)
-                    };
-
                     const fullSubmission = await db.submission.findUnique({
                         where: { id },
                         include: { exam: { include: { questions: true } } }
                     });
+                    if (!fullSubmission || !fullSubmission.exam) return res.status(404).json({ error: 'Submission not found' });
+
+                    const exam = await withPaper(fullSubmission.exam, fullSubmission.questionIds);
+                    const question = exam.questions.find(q => q.id === questionId);
+                    if (!question) return res.status(400).json({ error: 'Question is not part of this exam' });
+
+                    const currentResults: any = fullSubmission.questionResults || {};
+                    const previous = currentResults[questionId] || {};
+
+                    // Rubric selections are totalled here so the stored score always matches them
+                    let score = Number(result.score) || 0;
+                    let rubricSelections = previous.rubricSelections;
+                    if (result.rubricSelections && Array.isArray(question.rubric)) {
+                        const rubricScore = scoreRubric(question.rubric, result.rubricSelections);
+                        score = rubricScore.score;
+                        rubricSelections = rubricScore.selections;
+                    }
+                    score = Math.min(question.points, Math.max(0, score));
 
-                    if (!fullSubmission || !fullSubmission.exam) return res.status(404).json({ error: 'Data sync error' });
+                    currentResults[questionId] = {
+                        ...previous,
+                        score,
+                        isCorrect: result.isCorrect ?? (score > 0),
+                        manuallyGraded: true,
+                        needsReview: undefined,
+                        rubricSelections,
+                        criterionComments: result.criterionComments ?? previous.criterionComments,
+                        feedback: typeof result.feedback === 'string' ? result.feedback : previous.feedback
+                    };
 
                     const gradeResult = calculateGrade(
-                        fullSubmission.exam,
+                        exam,
                         fullSubmission.answers as Record<string, any>,
-                        currentResults
+                        currentResults,
+                        { isLate: fullSubmission.isLate }
                     );
 
                     await db.submission.update({
                         where: { id },
-                        data: {
-                            questionResults: gradeResult.questionResults,
-                            score: gradeResult.score,
-                            status: gradeResult.status,
-                            graded: gradeResult.graded
-                        }
+                        data: toSubmissionGradeData(gradeResult)
                     });
                     return res.status(200).json({ success: true });
                 } catch (e) { return res.status(500).json({ error: 'Grading failed' }); }
@@ -101,6 +181,292 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 return res.status(200).json({ success: true, released: release });
             }
 
+            if (action === 'ai-grade') {
+                if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
+                try {
+                    if (!(await isAiFeatureEnabled('grading'))) return res.status(403).json({ error: 'AI grading is disabled in system settings' });
+
+                    const submission = await db.submission.findUnique({
+                        where: { id },
+                        include: { exam: { include: { questions: true } } }
+                    });
+                    if (!submission || !submission.exam) return res.status(404).json({ error: 'Not found' });
+
+                    const exam = await withPaper(submission.exam, submission.questionIds);
+                    const provider = await getLlmProvider();
+                    const answers = (submission.answers || {}) as Record<string, any>;
+                    const currentResults: any = submission.questionResults || {};
+                    let gradedCount = 0;
+                    let failedCount = 0;
+
+                    for (const q of exam.questions) {
+                        const answer = answers[q.id];
+                        // Never overwrite a human decision
+                        if (q.type !== 'THEORY' || currentResults[q.id]?.manuallyGraded) continue;
+                        if (typeof answer !== 'string' || !answer.trim()) continue;
+
+                        try {
+                            const rubric = Array.isArray(q.rubric) ? q.rubric as any[] : [];
+                            const output = await provider.gradeTheoryAnswer({
+                                question: richTextToPlain(q.text),
+                                answer: richTextToPlain(answer),
+                                modelAnswer: q.correctAnswer,
+                                rubric,
+                                maxPoints: q.points
+                            });
+
+                            let score = Number(output.score) || 0;
+                            let rubricSelections: Record<string, string> | undefined;
+                            if (rubric.length > 0 && output.rubricSelections) {
+                                const rubricScore = scoreRubric(rubric, output.rubricSelections);
+                                if (rubricScore.complete) {
+                                    score = rubricScore.score;
+                                    rubricSelections = rubricScore.selections;
+                                }
+                            }
+                            score = Math.min(q.points, Math.max(0, score));
+
+                            currentResults[q.id] = {
+                                score,
+                                isCorrect: score >= q.points / 2,
+                                feedback: output.feedback,
+                                strengths: output.strengths || [],
+                                weaknesses: output.weaknesses || [],
+                                improvementSteps: output.improvementSteps || [],
+                                rubricSelections,
+                                aiGraded: true
+                            };
+                            gradedCount++;
+                        } catch (e) {
+                            console.error(`AI grading failed for question ${q.id} (${provider.name})`);
+                            failedCount++;
+                        }
+                    }
+
+                    const gradeResult = calculateGrade(exam, answers, currentResults, { isLate: submission.isLate });
+                    await db.submission.update({
+                        where: { id },
+                        data: toSubmissionGradeData(gradeResult)
+                    });
+
+                    return res.status(200).json({ success: true, graded: gradedCount, failed: failedCount, score: gradeResult.score });
+                } catch (e) {
+                    console.error('AI grade error', e);
+                    return res.status(500).json({ error: 'AI grading failed' });
+                }
+            }
+
+            // Webcam still from the exam client's presence monitor
+            if (action === 'snapshot') {
+                try {
+                    const submission = await db.submission.findUnique({ where: { id }, select: { userId: true, status: true, submittedAt: true } });
+                    if (!submission) return res.status(404).json({ error: 'Submission not found' });
+                    if (submission.userId !== user.userId) return res.status(403).json({ error: 'Access denied' });
+                    if (submission.status !== 'UNGRADED') return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+                    const snapshot = toSnapshotData(req.body, id, submission.submittedAt);
+                    if (!snapshot) return res.status(400).json({ error: 'Invalid snapshot' });
+                    if (!await checkRateLimit(`snapshot_${id}`, 20, 600)) return res.status(429).json({ error: 'Too many snapshots' });
+
+                    // The image goes to media storage; the row only points at it
+                    const { image, ...data } = snapshot;
+                    const storageKey = snapshotStorageKey(id);
+                    await getStorage().put(storageKey, image, 'image/jpeg');
+                    await db.proctoringSnapshot.create({ data: { ...data, storageKey } });
+                    return res.status(201).json({ success: true });
+                } catch (e) {
+                    if (e instanceof StorageNotConfiguredError) return res.status(503).json({ error: e.message });
+                    return res.status(500).json({ error: 'Failed to save snapshot' });
+                }
+            }
+
+            // Audio/video stimuli: every play, pause and end is logged, and plays beyond the clip's limit are refused
+            if (action === 'media-event') {
+                try {
+                    const { questionId, attachmentId, type } = req.body || {};
+                    if (typeof questionId !== 'string' || typeof attachmentId !== 'string' || !MEDIA_PLAY_EVENTS.includes(type)) {
+                        return res.status(400).json({ error: 'Invalid media event' });
+                    }
+
+                    const submission = await db.submission.findUnique({ where: { id }, include: { exam: true } });
+                    if (!submission) return res.status(404).json({ error: 'Submission not found' });
+                    if (submission.userId !== user.userId) return res.status(403).json({ error: 'Access denied' });
+                    if (submission.status !== 'UNGRADED') return res.status(409).json({ error: 'This attempt has already been submitted' });
+                    if (getSubmissionTiming(await loadAttemptClock(submission.exam, submission)) === 'CLOSED') return res.status(409).json({ error: 'Time is up' });
+                    if (!await checkRateLimit(`media_${id}`, 120, 600)) return res.status(429).json({ error: 'Too many media events' });
+
+                    const onPaper = submission.questionIds.length > 0
+                        ? submission.questionIds.includes(questionId)
+                        : !!(await db.exam.findFirst({ where: { id: submission.examId, questions: { some: { id: questionId } } }, select: { id: true } }));
+                    const question = onPaper ? await db.question.findUnique({ where: { id: questionId }, select: { attachments: true } }) : null;
+                    const attachment = ((question?.attachments || []) as unknown as MediaAttachment[]).find(a => a?.id === attachmentId);
+                    if (!attachment) return res.status(404).json({ error: 'Media not found on this paper' });
+
+                    // Two events at once (a double-clicked Play) must not both pass the play limit, so the
+                    // write only lands on the version it was computed from; the loser re-reads and retries
+                    let current: Pick<Submission, 'mediaPlays' | 'mediaPlaysVersion'> | null = submission;
+                    for (let tries = 0; current && tries < 3; tries++) {
+                        const result = recordMediaEvent(parseMediaPlays(current.mediaPlays), questionId, attachment, type as MediaPlayEventType);
+                        if ('error' in result) return res.status(409).json({ error: result.error, plays: result.log.plays });
+
+                        const { count } = await db.submission.updateMany({
+                            where: { id, mediaPlaysVersion: current.mediaPlaysVersion },
+                            data: { mediaPlays: result.plays as any, mediaPlaysVersion: { increment: 1 } }
+                        });
+                        if (count > 0) return res.status(200).json({ plays: result.log.plays });
+                        current = await db.submission.findUnique({ where: { id }, select: { mediaPlays: true, mediaPlaysVersion: true } });
+                    }
+                    return res.status(409).json({ error: 'Media event was not recorded, please try again' });
+                } catch (e) {
+                    return res.status(500).json({ error: 'Failed to record media event' });
+                }
+            }
+
+            // Sectioned exams: hand in the current section and start the next one's clock
+            if (action === 'next-section') {
+                try {
+                    const submission = await db.submission.findUnique({ where: { id }, include: { exam: true } });
+                    if (!submission) return res.status(404).json({ error: 'Submission not found' });
+                    if (submission.userId !== user.userId) return res.status(403).json({ error: 'Access denied' });
+                    if (submission.status !== 'UNGRADED') return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+                    const now = Date.now();
+                    const sections = parseSections(submission.exam.sections);
+                    const clock = await loadAttemptClock(submission.exam, submission, now);
+                    if (getSubmissionTiming(clock, now) === 'CLOSED') return res.status(409).json({ error: 'Time is up' });
+                    if (clock.onBreak) return res.status(409).json({ error: 'Resume from your break first' });
+
+                    const progress = await syncSectionProgress(sections, submission, clock, now);
+                    const current = getSectionClock(sections, progress, clock, now);
+                    if (!current) return res.status(400).json({ error: 'This exam has no sections' });
+
+                    // A retry after the move already happened (or the section timed out meanwhile) gets the current state
+                    const from = Number(req.body?.fromIndex);
+                    if (from === current.sectionIndex) {
+                        if (from >= sections.length - 1) return res.status(400).json({ error: 'This is the last section' });
+
+                        const seq = toDraftSeq(req.body?.seq);
+                        const answers = req.body?.answers && typeof req.body.answers === 'object' && (seq === null || seq > progress.draftSeq)
+                            ? sanitizeTheoryAnswers(
+                                await loadTheoryQuestions(progress.questionIds),
+                                applySectionRules(sections, progress, clock, (progress.answersDraft || {}) as Record<string, any>, req.body.answers, now)
+                            )
+                            : undefined;
+                        const moved = enterNextSection(progress, clock, now);
+                        await db.submission.update({
+                            where: { id },
+                            data: { ...moved, ...(answers && { answersDraft: answers, lastDraftAt: new Date(now), ...(seq !== null && { draftSeq: seq }) }) }
+                        });
+                        Object.assign(progress, moved);
+                    }
+
+                    const section = getSectionClock(sections, progress, clock, now)!;
+                    return res.status(200).json({
+                        deadline: clock.deadline,
+                        serverNow: now,
+                        onBreak: clock.onBreak,
+                        breakSecondsLeft: clock.breakSecondsLeft,
+                        sectionIndex: section.sectionIndex,
+                        sectionDeadline: section.sectionDeadline
+                    });
+                } catch (e) {
+                    return res.status(500).json({ error: 'Failed to move to the next section' });
+                }
+            }
+
+            // Rest breaks (accommodation): the clock stops until the candidate resumes or the allowance runs out
+            if (action === 'break-start' || action === 'break-end') {
+                try {
+                    const submission = await db.submission.findUnique({ where: { id }, include: { exam: true } });
+                    if (!submission) return res.status(404).json({ error: 'Submission not found' });
+                    if (submission.userId !== user.userId) return res.status(403).json({ error: 'Access denied' });
+                    if (submission.status !== 'UNGRADED') return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+                    const now = Date.now();
+                    const accommodation = await db.accommodation.findUnique({ where: { userId: submission.userId } });
+                    const clock = getAttemptClock(submission.exam, submission, accommodation, now);
+                    let next = submission;
+
+                    if (action === 'break-start') {
+                        if (clock.onBreak) return res.status(409).json({ error: 'Already on a break' });
+                        if (clock.breakSecondsLeft <= 0) return res.status(403).json({ error: 'No rest break time remaining' });
+                        if (now > clock.deadline) return res.status(409).json({ error: 'Time is up' });
+                        next = { ...submission, breakStartedAt: new Date(now) };
+                    } else {
+                        if (!clock.onBreak) return res.status(409).json({ error: 'Not on a break' });
+                        // The clock already credits the running break (capped at the allowance); bank that amount
+                        const running = getAttemptClock(submission.exam, { ...submission, breakStartedAt: null }, accommodation, now);
+                        const taken = Math.round((clock.deadline - running.deadline) / 1000);
+                        next = { ...submission, breakStartedAt: null, pausedSeconds: submission.pausedSeconds + taken };
+                    }
+
+                    await db.submission.update({
+                        where: { id },
+                        data: { breakStartedAt: next.breakStartedAt, pausedSeconds: next.pausedSeconds }
+                    });
+
+                    const updated = getAttemptClock(submission.exam, next, accommodation, now);
+                    const section = getSectionClock(parseSections(submission.exam.sections), next, updated, now);
+                    return res.status(200).json({
+                        deadline: updated.deadline,
+                        serverNow: now,
+                        onBreak: updated.onBreak,
+                        breakSecondsLeft: updated.breakSecondsLeft,
+                        sectionIndex: section?.sectionIndex,
+                        sectionDeadline: section?.sectionDeadline
+                    });
+                } catch (e) {
+                    return res.status(500).json({ error: 'Failed to update break' });
+                }
+            }
+
+            // Invigilator controls for an attempt in progress (see action=live)
+            if (action === 'extend-time' || action === 'force-submit' || action === 'terminate') {
+                if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
+                try {
+                    const submission = await db.submission.findUnique({ where: { id }, include: { exam: { include: { questions: true } } } });
+                    if (!submission) return res.status(404).json({ error: 'Submission not found' });
+                    if (submission.status !== 'UNGRADED') return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+                    if (action === 'extend-time') {
+                        const minutes = Math.round(Number(req.body?.minutes));
+                        if (!Number.isFinite(minutes) || minutes < 1 || minutes > 240) {
+                            return res.status(400).json({ error: 'Extension must be between 1 and 240 minutes' });
+                        }
+                        const updated = await db.submission.update({
+                            where: { id },
+                            data: { extraTimeSeconds: { increment: minutes * 60 } }
+                        });
+                        await db.auditLog.create({
+                            data: { userId: user.userId, action: 'ATTEMPT_TIME_EXTENDED', details: `[INFO] +${minutes} min on submission ${id} (exam ${submission.examId})` }
+                        });
+                        const clock = await loadAttemptClock(submission.exam, updated);
+                        return res.status(200).json({ success: true, deadline: clock.deadline });
+                    }
+
+                    // Both grade the last saved draft; answers still on the candidate's screen are lost
+                    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().slice(0, 500) : '';
+                    const { updated } = await finalizeAttempt(submission, (submission.answersDraft || {}) as Record<string, any>, { byInvigilator: true });
+
+                    if (action === 'terminate') {
+                        await db.submission.update({
+                            where: { id },
+                            data: { terminatedAt: new Date(), terminatedBy: user.userId, terminationReason: reason || null, resultsReleased: false }
+                        });
+                    }
+                    await db.auditLog.create({
+                        data: {
+                            userId: user.userId,
+                            action: action === 'terminate' ? 'ATTEMPT_TERMINATED' : 'ATTEMPT_FORCE_SUBMITTED',
+                            details: `${action === 'terminate' ? '[WARN]' : '[INFO]'} Submission ${id} (exam ${submission.examId})${reason ? `: ${reason}` : ''}`
+                        }
+                    });
+                    return res.status(200).json({ success: true, gradingStatus: updated.status });
+                } catch (e) {
+                    return res.status(500).json({ error: 'Failed to update attempt' });
+                }
+            }
+
             if (action === 'regrade') {
                 if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
                 try {
@@ -112,19 +478,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     if (!submission || !submission.exam) return res.status(404).json({ error: 'Not found' });
 
                     const gradeResult = calculateGrade(
-                        submission.exam,
+                        await withPaper(submission.exam, submission.questionIds),
                         submission.answers as Record<string, any>,
-                        submission.questionResults as Record<string, any>
+                        submission.questionResults as Record<string, any>,
+                        { isLate: submission.isLate }
                     );
 
                     await db.submission.update({
                         where: { id },
-                        data: {
-                            score: gradeResult.score,
-                            questionResults: gradeResult.questionResults,
-                            status: gradeResult.status,
-                            graded: gradeResult.graded
-                        }
+                        data: toSubmissionGradeData(gradeResult)
                     });
 
                     return res.status(200).json({ success: true, result: gradeResult });
@@ -149,6 +511,82 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             return res.status(400).json({ error: 'Invalid action' });
         }
 
+        // GET: Live clock for an attempt in progress (picks up extensions granted mid-exam)
+        if (req.method === 'GET' && action === 'timer') {
+            try {
+                const submission = await db.submission.findUnique({ where: { id }, include: { exam: true } });
+                if (!submission) return res.status(404).json({ error: 'Submission not found' });
+                if (submission.userId !== user.userId && !isAdmin) return res.status(403).json({ error: 'Access denied' });
+
+                const now = Date.now();
+                const clock = await loadAttemptClock(submission.exam, submission, now);
+                const sections = parseSections(submission.exam.sections);
+                const progress = submission.status === 'UNGRADED' ? await syncSectionProgress(sections, submission, clock, now) : submission;
+                const section = getSectionClock(sections, progress, clock, now);
+                return res.status(200).json({
+                    deadline: clock.deadline,
+                    graceEndsAt: clock.graceEndsAt,
+                    serverNow: now,
+                    onBreak: clock.onBreak,
+                    breakSecondsLeft: clock.breakSecondsLeft,
+                    sectionIndex: section?.sectionIndex,
+                    sectionDeadline: section?.sectionDeadline,
+                    submitted: submission.status !== 'UNGRADED'
+                });
+            } catch (e) {
+                return res.status(500).json({ error: 'Failed to fetch timer' });
+            }
+        }
+
+        // GET: Integrity report (proctoring timeline and risk score) for reviewers
+        if (req.method === 'GET' && action === 'integrity') {
+            if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
+            try {
+                const [events, snapshots] = await Promise.all([
+                    db.proctoringEvent.findMany({
+                        where: { submissionId: id },
+                        orderBy: { occurredAt: 'asc' },
+                        select: { id: true, type: true, details: true, durationMs: true, occurredAt: true }
+                    }),
+                    db.proctoringSnapshot.findMany({
+                        where: { submissionId: id },
+                        orderBy: { takenAt: 'asc' },
+                        select: { id: true, submissionId: true, storageKey: true, imageData: true, reason: true, takenAt: true }
+                    })
+                ]);
+                return res.status(200).json({
+                    ...getIntegrityReport(events),
+                    events,
+                    snapshots: snapshots.map(s => ({ id: s.id, url: snapshotUrl(s), reason: s.reason, takenAt: s.takenAt }))
+                });
+            } catch (e) {
+                return res.status(500).json({ error: 'Failed to fetch integrity report' });
+            }
+        }
+
+        // GET: One webcam still, for reviewers only (unlike question media, which is public)
+        if (req.method === 'GET' && action === 'snapshot') {
+            if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
+            try {
+                const snapshot = await db.proctoringSnapshot.findFirst({
+                    where: { id: String(req.query.snapshotId || ''), submissionId: id },
+                    select: { storageKey: true }
+                });
+                if (!snapshot?.storageKey) return res.status(404).json({ error: 'Snapshot not found' });
+
+                const object = await getStorage().get(snapshot.storageKey);
+                if (!object) return res.status(404).json({ error: 'Snapshot file is missing from storage' });
+
+                res.setHeader('Content-Type', 'image/jpeg');
+                res.setHeader('Cache-Control', 'private, max-age=3600');
+                res.setHeader('X-Content-Type-Options', 'nosniff');
+                return res.status(200).send(object.body);
+            } catch (e) {
+                if (e instanceof StorageNotConfiguredError) return res.status(503).json({ error: e.message });
+                return res.status(500).json({ error: 'Failed to load snapshot' });
+            }
+        }
+
         // GET: Detail
         if (req.method === 'GET') {
             try {
@@ -160,11 +598,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                                 title: true,
                                 totalPoints: true,
                                 passMark: true,
+                                sections: true,
                                 questions: {
                                     select: {
                                         id: true, text: true, type: true, options: true, points: true,
                                         correctAnswer: true, // Always fetch, sanitize later
-                                        imageUrl: true
+                                        correctAnswers: true,
+                                        answerConfig: true,
+                                        rubric: true,
+                                        imageUrl: true,
+                                        attachments: true
                                     }
                                 }
                             }
@@ -176,7 +619,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 if (!submission) return res.status(404).json({ error: 'Submission not found' });
                 if (submission.userId !== user.userId && !isAdmin) return res.status(403).json({ error: 'Access denied' });
 
-                const mapped = { ...submission, gradingStatus: submission.status };
+                // Review always shows the paper this candidate actually sat
+                const paper = await withPaper(submission.exam, submission.questionIds);
+                const sections = parseSections(submission.exam.sections);
+                const mapped = {
+                    ...submission,
+                    exam: { ...paper, sections: toCandidateSections(sections, submission), questions: applyOptionOrder(paper.questions, submission.optionOrder) },
+                    sectionScores: getSectionScores(sections, submission, paper.questions),
+                    gradingStatus: submission.status
+                };
 
                 // Sanitize if NOT Admin AND NOT Released
                 if (!isAdmin && !submission.resultsReleased) {
@@ -184,9 +635,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                         ...mapped,
                         exam: {
                             ...mapped.exam,
-                            questions: mapped.exam.questions.map(q => ({ ...q, correctAnswer: undefined }))
+                            questions: mapped.exam.questions.map(q => ({ ...q, correctAnswer: undefined, correctAnswers: undefined, answerConfig: undefined, rubric: undefined }))
                         },
-                        questionResults: undefined // Hide results until released
+                        questionResults: undefined, // Hide results until released
+                        sectionScores: undefined
                     };
                     return res.status(200).json(sanitizedSubmission);
                 }
@@ -206,6 +658,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
                 if (submission.userId !== user.userId && !isAdmin) return res.status(403).json({ error: 'Access denied' });
 
+                // Handing in your own open attempt: only the answers are taken from the client
+                const submitKey = toSubmitKey(req.body.submitKey);
+                if (submission.userId === user.userId && submission.status === 'UNGRADED') {
+                    if (!req.body.answers) return res.status(400).json({ error: 'Missing answers' });
+                    const { updated, timing } = await finalizeAttempt(submission, req.body.answers, { submitKey });
+                    return res.status(200).json({ ...updated, gradingStatus: updated.status, lateRejected: timing === 'CLOSED' });
+                }
+                // A replayed hand-in (the response was lost offline) gets the original result, not a 409
+                if (submission.userId === user.userId && submitKey && submission.submitKey === submitKey) {
+                    return res.status(200).json({ ...submission, exam: undefined, gradingStatus: submission.status, replayed: true });
+                }
+                if (!isAdmin) return res.status(409).json({ error: 'This attempt has already been submitted' });
+
                 const updates = req.body;
                 console.log(`[API] Update Submission Payload. ID: ${id}, Keys: ${Object.keys(updates).join(',')}`);
                 if (updates.answers) {
@@ -215,7 +680,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 // Whitelist allowed fields to prevent "Unknown argument" errors
                 const allowedFields = [
                     'answers', 'answersDraft', 'questionResults',
-                    'score', 'status', 'graded', 'resultsReleased'
+                    'score', 'rawScore', 'negativeDeduction', 'latePenaltyDeduction',
+                    'status', 'graded', 'resultsReleased'
                 ];
 
                 // Filter updates to include only allowable keys
@@ -225,15 +691,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
                 if (updates.answers && submission.exam) {
                     const gradeResult = calculateGrade(
-                        submission.exam,
+                        await withPaper(submission.exam, submission.questionIds),
                         updates.answers,
-                        (updates.questionResults || submission.questionResults) as Record<string, any>
+                        (updates.questionResults || submission.questionResults) as Record<string, any>,
+                        { isLate: submission.isLate }
                     );
 
-                    updates.score = gradeResult.score;
-                    updates.questionResults = gradeResult.questionResults;
-                    updates.status = gradeResult.status;
-                    updates.graded = gradeResult.graded;
+                    Object.assign(updates, toSubmissionGradeData(gradeResult));
                     updates.resultsReleased = submission.exam.resultRelease === 'INSTANT';
                 }
 
@@ -257,7 +721,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // Start Attempt
         if (action === 'start') {
             const { examId } = req.body;
-            console.log(`[API] Start Exam Payload:`, JSON.stringify(req.body));
+            console.log(`[API] Start Exam Payload. ExamId: ${examId}, User: ${user.userId}`); // Never the body: it carries the access code
             if (!examId) return res.status(400).json({ error: 'Missing Exam ID' });
 
             const exam = await db.exam.findUnique({
@@ -267,71 +731,155 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
             if (!exam) return res.status(404).json({ error: 'Exam not found' });
             if (!exam.published && !isAdmin) return res.status(403).json({ error: 'Exam not published' });
+            if (!isAdmin && !(await isExamAssigned(exam.id, user.userId))) {
+                return res.status(403).json({ error: 'This exam is not assigned to you' });
+            }
+
+            // Answer keys never leave the server during an attempt
+            const toCandidatePaper = (questions: typeof exam.questions) => questions.map(q => ({
+                id: q.id,
+                text: q.text,
+                type: q.type,
+                options: q.options,
+                points: q.points,
+                imageUrl: q.imageUrl,
+                attachments: q.attachments
+            }));
 
-            // Look for existing active submission (most recent)
-            const existing = await db.submission.findFirst({
+            const attempts = await db.submission.findMany({
                 where: { userId: user.userId, examId: examId },
                 orderBy: { submittedAt: 'desc' }
             });
 
-            // Resume if existing and NOT graded/released? 
-            if (existing && existing.status === 'UNGRADED' && !existing.resultsReleased) {
-                const sanitizedQuestions = exam.questions.map(q => ({
-                    id: q.id,
-                    text: q.text,
-                    type: q.type,
-                    options: q.options,
-                    points: q.points,
-                    imageUrl: q.imageUrl
-                }));
+            // Resume the open attempt (most recent) rather than starting another
+            const existing = attempts.find(a => a.status === 'UNGRADED');
+            if (existing && !existing.resultsReleased) {
+                const clock = await loadAttemptClock(exam, existing);
+
+                // Coming back after time ran out: hand in what was saved rather than reopening the paper
+                if (getSubmissionTiming(clock) === 'CLOSED') {
+                    await finalizeAttempt({ ...existing, exam }, (existing.answersDraft || {}) as Record<string, any>);
+                    return res.status(409).json({ error: 'Time is up for this attempt. Your saved answers have been submitted.' });
+                }
+
+                const paper = await withPaper(exam, existing.questionIds);
+                const sections = parseSections(exam.sections);
+                const section = getSectionClock(sections, await syncSectionProgress(sections, existing, clock), clock);
 
                 return res.status(200).json({
                     exam: {
-                        ...exam,
-                        questions: sanitizedQuestions
+                        ...toCandidateExam(exam),
+                        sections: toCandidateSections(sections, existing),
+                        questions: toCandidatePaper(applyOptionOrder(paper.questions, existing.optionOrder))
                     },
                     startTime: existing.submittedAt.getTime(),
+                    deadline: clock.deadline,
+                    serverNow: Date.now(),
+                    onBreak: clock.onBreak,
+                    breakSecondsLeft: clock.breakSecondsLeft,
+                    sectionIndex: section?.sectionIndex,
+                    sectionDeadline: section?.sectionDeadline,
                     submissionId: existing.id,
                     answersDraft: existing.answersDraft || {},
+                    draftSeq: existing.draftSeq,
+                    flaggedQuestionIds: existing.flaggedQuestionIds,
+                    mediaPlays: toPlayCounts(existing.mediaPlays),
+                    journalKey: getJournalKey(existing.id),
                     resumed: true
                 });
             }
 
+            // New attempts only inside the availability window (admins may preview any time)
+            const entry = getEntryWindow(exam);
+            if (!isAdmin && entry.status === 'UPCOMING') {
+                return res.status(403).json({ error: `This exam opens at ${new Date(entry.opensAt!).toISOString()}.` });
+            }
+            if (!isAdmin && entry.status === 'CLOSED') {
+                return res.status(403).json({ error: 'Entry to this exam has closed.' });
+            }
+
+            const attemptStatus = getAttemptStatus(exam, attempts);
+            const blocker = getNewAttemptBlocker(attemptStatus);
+            if (!isAdmin && blocker) return res.status(403).json({ error: blocker });
+
+            // Supervised sittings: a new attempt needs the code the invigilator is displaying
+            if (!isAdmin && requiresAccessCode(exam)) {
+                const { accessCode } = req.body;
+                if (!accessCode) return res.status(403).json({ error: 'This exam requires a start code from your invigilator.', codeRequired: true });
+
+                const ip = String(req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown');
+                const logFailure = (details: string) => db.auditLog.create({
+                    data: { userId: user.userId, action: 'START_CODE_FAILED', details, ipAddress: ip }
+                }).catch(e => console.error('Audit log failed:', e));
+
+                if (!(await checkRateLimit(`startcode_${user.userId}_${exam.id}`, 5, 900))) {
+                    await logFailure(`[CRITICAL] Start code attempts locked out for exam "${exam.title}" (${exam.id})`);
+                    return res.status(429).json({ error: 'Too many start code attempts. Please ask your invigilator for help.' });
+                }
+                if (!verifyAccessCode(exam, accessCode)) {
+                    await logFailure(`[WARN] Incorrect start code for exam "${exam.title}" (${exam.id})`);
+                    return res.status(403).json({ error: 'Incorrect start code.', codeRequired: true });
+                }
+            }
+
+            // Draw and order this candidate's paper once; grading, resume and review all reuse it
+            const { questionIds: drawnIds, sectionSizes } = await drawPaper(exam);
+            if (drawnIds.length === 0) return res.status(400).json({ error: 'Exam has no questions' });
+
+            const submissionId = randomUUID();
+            const drawn = await withPaper(exam, drawnIds);
+            const { questionIds, optionOrder } = shufflePaper(submissionId, exam, drawn.questions, sectionSizes);
+            const startedAt = exam.fixedStart && exam.opensAt && entry.status === 'OPEN' ? exam.opensAt : new Date();
+
             // Create New Submission
             const newSubmission = await db.submission.create({
                 data: {
+                    id: submissionId,
                     examId,
                     userId: user.userId,
                     answers: {}, // Empty initially
                     questionResults: {},
+                    questionIds,
+                    optionOrder,
+                    sectionSizes,
+                    sectionStartedAt: startedAt,
                     status: 'UNGRADED',
-                    submittedAt: new Date(), // Start time
+                    // Start time; in a fixed-start sitting everyone's clock runs from the opening
+                    submittedAt: startedAt,
                     graded: false,
                     resultsReleased: false
                 }
             });
 
-            const sanitizedQuestions = exam.questions.map(q => ({
-                id: q.id,
-                text: q.text,
-                type: q.type,
-                options: q.options,
-                points: q.points,
-                imageUrl: q.imageUrl
-            }));
+            const paper = questionIds.map(qid => drawn.questions.find(q => q.id === qid)!);
+
+            const clock = await loadAttemptClock(exam, newSubmission);
+            const sections = parseSections(exam.sections);
+            const section = getSectionClock(sections, await syncSectionProgress(sections, newSubmission, clock), clock);
 
-            // Exclude source link from active attempt
-            const { resourceLink, ...safeExamLabels } = exam as any;
+            // Exclude source link and start code material from active attempt
+            const { resourceLink, ...safeExamLabels } = toCandidateExam(exam) as any;
 
             return res.status(200).json({
                 exam: {
                     ...safeExamLabels,
                     resourceLink: undefined, // Explicitly undefined
-                    questions: sanitizedQuestions
+                    sections: toCandidateSections(sections, newSubmission),
+                    questions: toCandidatePaper(applyOptionOrder(paper, optionOrder))
                 },
+                sectionIndex: section?.sectionIndex,
+                sectionDeadline: section?.sectionDeadline,
                 startTime: newSubmission.submittedAt.getTime(),
+                deadline: clock.deadline,
+                serverNow: Date.now(),
+                onBreak: false,
+                breakSecondsLeft: clock.breakSecondsLeft,
                 submissionId: newSubmission.id,
                 answersDraft: {},
+                draftSeq: 0,
+                flaggedQuestionIds: [],
+                mediaPlays: {},
+                journalKey: getJournalKey(newSubmission.id),
                 resumed: false
             });
         }
@@ -339,16 +887,46 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // Draft Save
         if (action === 'draft') {
             try {
-                const { submissionId, answers } = req.body;
-                if (!submissionId || !answers) return res.status(400).json({ error: 'Missing data' });
+                const { submissionId } = req.body;
+                if (!submissionId || !req.body.answers) return res.status(400).json({ error: 'Missing data' });
+                const seq = toDraftSeq(req.body.seq);
 
-                const submission = await db.submission.findUnique({ where: { id: submissionId } });
+                const submission = await db.submission.findUnique({ where: { id: submissionId }, include: { exam: true } });
                 if (!submission) return res.status(404).json({ error: 'Submission not found' });
                 if (submission.userId !== user.userId && !isAdmin) return res.status(403).json({ error: 'Forbidden' });
+                if (submission.status !== 'UNGRADED') return res.status(409).json({ error: 'This attempt has already been submitted' });
+
+                // Drafts are the fallback paper once time is up, so they must stop changing at the deadline
+                const clock = await loadAttemptClock(submission.exam, submission);
+                if (getSubmissionTiming(clock) === 'CLOSED') {
+                    return res.status(409).json({ error: 'Time is up' });
+                }
+                if (clock.onBreak) return res.status(409).json({ error: 'Resume from your break first' });
+
+                const sections = parseSections(submission.exam.sections);
+                const progress = await syncSectionProgress(sections, submission, clock);
+                const answers = sanitizeTheoryAnswers(
+                    await loadTheoryQuestions(submission.questionIds),
+                    applySectionRules(sections, progress, clock, (submission.answersDraft || {}) as Record<string, any>, req.body.answers)
+                );
+                const flags = toFlaggedIds(req.body.flags, submission.questionIds);
+
+                // Journal replays can arrive out of order; a draft older than the stored one only counts as a heartbeat
+                if (seq !== null) {
+                    const saved = await db.submission.updateMany({
+                        where: { id: submissionId, draftSeq: { lt: seq } },
+                        data: { answersDraft: answers, draftSeq: seq, lastDraftAt: new Date(), ...(flags && { flaggedQuestionIds: flags }) }
+                    });
+                    if (saved.count === 0) {
+                        await db.submission.update({ where: { id: submissionId }, data: { lastDraftAt: new Date() } });
+                        return res.status(200).json({ success: true, stale: true, savedAt: Date.now() });
+                    }
+                    return res.status(200).json({ success: true, savedAt: Date.now() });
+                }
 
                 await db.submission.update({
                     where: { id: submissionId },
-                    data: { answersDraft: answers }
+                    data: { answersDraft: answers, lastDraftAt: new Date(), ...(flags && { flaggedQuestionIds: flags }) }
                 });
                 return res.status(200).json({ success: true, savedAt: Date.now() });
             } catch (e) {
@@ -364,7 +942,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
             try {
                 const count = await db.submission.updateMany({
-                    where: { examId, resultsReleased: false }, // Only unreleased
+                    where: { examId, resultsReleased: false, terminatedAt: null }, // Only unreleased; terminated attempts are released one by one
                     data: { resultsReleased: true }
                 });
                 return res.status(200).json({ success: true, count: count.count });
@@ -389,7 +967,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     await db.submission.updateMany({
                         where: {
                             examId: { in: dueExamIds },
-                            resultsReleased: false
+                            resultsReleased: false,
+                            terminatedAt: null
                         },
                         data: { resultsReleased: true }
                     });
@@ -418,14 +997,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     if (!sub.exam) continue;
 
                     const gradeResult = calculateGrade(
-                        sub.exam,
+                        await withPaper(sub.exam, sub.questionIds),
                         sub.answers as Record<string, any>,
-                        sub.questionResults as Record<string, any>
+                        sub.questionResults as Record<string, any>,
+                        { isLate: sub.isLate }
                     );
 
                     // Strict Update Logic
                     if (
                         sub.score !== gradeResult.score ||
+                        sub.rawScore !== gradeResult.rawScore ||
+                        sub.negativeDeduction !== gradeResult.negativeDeduction ||
+                        sub.latePenaltyDeduction !== gradeResult.latePenaltyDeduction ||
                         JSON.stringify(sub.questionResults) !== JSON.stringify(gradeResult.questionResults) ||
                         sub.status !== gradeResult.status ||
                         sub.graded !== gradeResult.graded
@@ -433,12 +1016,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                         console.log(`[Regrade] Updating ${sub.id}: Score ${sub.score} -> ${gradeResult.score}`);
                         await db.submission.update({
                             where: { id: sub.id },
-                            data: {
-                                score: gradeResult.score,
-                                questionResults: gradeResult.questionResults,
-                                status: gradeResult.status,
-                                graded: gradeResult.graded
-                            }
+                            data: toSubmissionGradeData(gradeResult)
                         });
                         updateCount++;
                     }
@@ -465,7 +1043,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                         where: { userId: user.userId },
                         orderBy: { submittedAt: 'desc' },
                         include: {
-                            exam: { select: { title: true, totalPoints: true } }
+                            exam: { select: { title: true, totalPoints: true, passMark: true, maxAttempts: true, attemptScoring: true } }
                         }
                     });
                     const mapped = mySubmissions.map(s => ({
@@ -486,6 +1064,43 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             // Admin View
             if (!isAdmin) return res.status(403).json({ error: 'Access denied' });
 
+            if (mode === 'live') {
+                // Invigilation: everyone currently sitting the exam
+                const { examId } = req.query;
+                if (!examId || typeof examId !== 'string') return res.status(400).json({ error: 'Missing examId' });
+
+                const attempts = await db.submission.findMany({
+                    where: { examId, status: 'UNGRADED' },
+                    orderBy: { submittedAt: 'asc' },
+                    include: {
+                        user: { select: { name: true, email: true } },
+                        exam: { select: { durationMinutes: true, timerSettings: true, _count: { select: { questions: true } } } }
+                    }
+                });
+                const accommodations = await db.accommodation.findMany({ where: { userId: { in: attempts.map(a => a.userId) } } });
+                const accommodationFor = new Map(accommodations.map(a => [a.userId, a]));
+
+                const now = Date.now();
+                const live = attempts.map(a => {
+                    const clock = getAttemptClock(a.exam, a, accommodationFor.get(a.userId), now);
+                    const draft = (a.answersDraft || {}) as Record<string, any>;
+                    return {
+                        id: a.id,
+                        userId: a.userId,
+                        user: a.user,
+                        startedAt: clock.startedAt,
+                        deadline: clock.deadline,
+                        onBreak: clock.onBreak,
+                        answeredCount: Object.values(draft).filter(v => v !== null && v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0)).length,
+                        questionCount: a.questionIds.length || a.exam._count.questions,
+                        lastDraftAt: a.lastDraftAt,
+                        proctorAlerts: a.proctorAlerts,
+                        extraTimeSeconds: a.extraTimeSeconds
+                    };
+                });
+                return res.status(200).json({ attempts: live, serverNow: now });
+            }
+
             const page = Number(req.query.page) || 1;
             const limit = Number(req.query.limit) || 50;
             const skip = (page - 1) * limit;
@@ -509,7 +1124,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                         take: limit,
                         include: {
                             user: { select: { name: true, email: true } },
-                            exam: { select: { title: true, totalPoints: true } }
+                            exam: { select: { title: true, totalPoints: true, passMark: true, maxAttempts: true, attemptScoring: true } }
                         },
                         orderBy: { submittedAt: 'desc' }
                     }),
@@ -559,20 +1174,41 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
             if (!exam) return res.status(404).json({ error: 'Exam not found' });
 
-            const gradeResult = calculateGrade(exam, answers);
+            // A replayed hand-in returns the attempt it already submitted instead of touching another one
+            const submitKey = toSubmitKey(req.body.submitKey);
+            if (submitKey) {
+                const handedIn = await db.submission.findFirst({ where: { userId: user.userId, examId, submitKey } });
+                if (handedIn) return res.status(200).json({ ...handedIn, gradingStatus: handedIn.status, replayed: true });
+            }
+
+            // Candidates hand in the attempt started via action=start, so the server clock applies
+            const openAttempt = await db.submission.findFirst({
+                where: { userId: user.userId, examId, status: 'UNGRADED' },
+                orderBy: { submittedAt: 'desc' }
+            });
+            if (openAttempt) {
+                const { updated, timing } = await finalizeAttempt({ ...openAttempt, exam }, answers || {}, { submitKey });
+                return res.status(200).json({ ...updated, gradingStatus: updated.status, lateRejected: timing === 'CLOSED' });
+            }
+            if (!isAdmin) return res.status(400).json({ error: 'Start the exam before submitting' });
+
+            // No server-side start to measure from, so the reported time spent is held against the timer
+            const now = Date.now();
+            const spentMs = Math.max(0, Number(timeSpentMs) || 0);
+            const clock = getAttemptClock(exam, { submittedAt: new Date(now - spentMs), pausedSeconds: 0, extraTimeSeconds: 0, breakStartedAt: null }, null, now);
+            const isLate = getSubmissionTiming(clock, now) !== 'ON_TIME';
+            const gradeResult = calculateGrade(exam, answers, undefined, { isLate });
 
             const submission = await db.submission.create({
                 data: {
                     examId,
                     userId: user.userId,
                     answers,
-                    questionResults: gradeResult.questionResults,
-                    score: gradeResult.score,
-                    timeSpentMs: Number(timeSpentMs) || 0,
-                    status: gradeResult.status,
-                    graded: gradeResult.graded,
+                    ...toSubmissionGradeData(gradeResult),
+                    timeSpentMs: spentMs,
+                    isLate,
                     resultsReleased: exam.resultRelease === 'INSTANT',
-                    submittedAt: new Date(),
+                    submittedAt: new Date(now),
                 }
             });
 
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+
+interface AccessCodeModalProps {
+    examTitle: string;
+    onSubmit: (code: string) => Promise<void>; // Rejects with the server's reason (wrong code, too many tries)
+    onClose: () => void;
+}
+
+/**
+ * Asks for the invigilator's start code before a supervised attempt begins. The code is masked
+ * unless the candidate chooses to show it; a refused code keeps the dialog open with the reason.
+ */
+const AccessCodeModal: React.FC<AccessCodeModalProps> = ({ examTitle, onSubmit, onClose }) => {
+    const [code, setCode] = useState('');
+    const [showCode, setShowCode] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim() || isStarting) return;
+        setIsStarting(true);
+        setError(null);
+        try {
+            await onSubmit(code.trim());
+        } catch (err: any) {
+            setError(err.message || 'Failed to start exam');
+            setIsStarting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+            <form className="bg-white dark:bg-slate-900 theme-rounded shadow-2xl w-full max-w-md p-8 space-y-5" onClick={e => e.stopPropagation()} onSubmit={handleSubmit}>
+                <div>
+                    <h2 className="font-black text-xl uppercase">🔑 Start Code</h2>
+                    <p className="text-xs text-slate-400">{examTitle} · enter the code shown by your invigilator</p>
+                </div>
+
+                <div className="relative">
+                    <input
+                        type={showCode ? 'text' : 'password'}
+                        autoFocus
+                        autoComplete="off"
+                        spellCheck={false}
+                        className="w-full p-4 pr-20 rounded-lg bg-slate-50 dark:bg-slate-950 font-mono font-black text-2xl tracking-[0.3em] text-center outline-none border-2 border-transparent focus:border-indigo-500"
+                        value={code}
+                        onChange={e => { setCode(e.target.value); setError(null); }}
+                        aria-label="Start code"
+                        aria-invalid={!!error}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setShowCode(prev => !prev)}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600"
+                    >
+                        {showCode ? 'Hide' : 'Show'}
+                    </button>
+                </div>
+
+                {error && <p className="text-sm font-bold text-red-500" role="alert">{error}</p>}
+
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onClose} className="px-6 py-3 font-bold uppercase text-xs text-slate-500">Cancel</button>
+                    <button
+                        type="submit"
+                        disabled={!code.trim() || isStarting}
+                        className="bg-indigo-600 text-white px-8 py-3 rounded-xl font-bold uppercase text-xs shadow-lg disabled:opacity-50"
+                    >
+                        {isStarting ? 'Starting...' : 'Start Exam'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default AccessCodeModal;
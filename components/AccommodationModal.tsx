@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Accommodation } from '../services/types';
+
+interface AccommodationModalProps {
+    userName: string;
+    accommodation?: Accommodation | null;
+    onSave: (accommodation: Accommodation) => Promise<void>;
+    onClose: () => void;
+}
+
+const EMPTY: Accommodation = { extraTimePercent: 0, extraMinutes: 0, restBreakMinutes: 0, separateSitting: false, notes: '' };
+
+/**
+ * Edits a candidate's exam arrangements. Saving all zeros / unchecked removes them.
+ */
+const AccommodationModal: React.FC<AccommodationModalProps> = ({ userName, accommodation, onSave, onClose }) => {
+    const [form, setForm] = useState<Accommodation>({ ...EMPTY, ...accommodation, notes: accommodation?.notes || '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const update = (field: keyof Accommodation, value: any) => setForm(prev => ({ ...prev, [field]: value }));
+    const numberInput = (field: 'extraTimePercent' | 'extraMinutes' | 'restBreakMinutes', label: string, hint: string) => (
+        <div>
+            <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">{label}</label>
+            <input
+                type="number"
+                min={0}
+                className="w-full p-3 rounded-lg bg-slate-50 dark:bg-slate-950 font-bold"
+                value={form[field]}
+                onChange={e => update(field, Math.max(0, parseInt(e.target.value) || 0))}
+            />
+            <p className="text-[10px] text-slate-400 mt-1">{hint}</p>
+        </div>
+    );
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(form);
+            onClose();
+        } catch (e) {
+            // The parent reports the failure; keep the form open for another try
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 theme-rounded shadow-2xl w-full max-w-lg p-8 space-y-5" onClick={e => e.stopPropagation()}>
+                <div>
+                    <h2 className="font-black text-xl uppercase">Accommodations</h2>
+                    <p className="text-xs text-slate-400">{userName} · applied to every new and in-progress attempt</p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {numberInput('extraTimePercent', 'Extra Time (%)', 'Of each exam’s duration')}
+                    {numberInput('extraMinutes', 'Extra Minutes', 'Added on top')}
+                    {numberInput('restBreakMinutes', 'Rest Breaks (Min)', 'Clock stops while paused')}
+                </div>
+
+                <label className="flex items-center gap-3 text-sm font-bold text-slate-700 dark:text-slate-300 cursor-pointer select-none">
+                    <input
+                        type="checkbox"
+                        checked={form.separateSitting}
+                        onChange={e => update('separateSitting', e.target.checked)}
+                        className="w-5 h-5 text-indigo-600 rounded"
+                    />
+                    Separate Sitting (own room / invigilator)
+                </label>
+
+                <textarea
+                    className="w-full p-3 text-sm bg-slate-50 dark:bg-slate-950 rounded-lg h-20 outline-none"
+                    value={form.notes || ''}
+                    onChange={e => update('notes', e.target.value)}
+                    placeholder="Notes for invigilators (optional)"
+                />
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-6 py-3 font-bold uppercase text-xs text-slate-500">Cancel</button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="bg-indigo-600 text-white px-8 py-3 rounded-xl font-bold uppercase text-xs shadow-lg disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AccommodationModal;
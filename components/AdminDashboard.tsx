@@ -1,11 +1,11 @@
 
 import React, { useState, useEffect, useMemo, memo } from 'react';
-import { User, Exam, QuestionType, ResultRelease, Question, Submission, TimerSettings, ExamTemplate, GradingPolicy, Difficulty, SystemSettings, QuestionResult, UserRole, BlogPost } from '../services/types';
+import { User, Accommodation, AccessCodeMode, AttemptScoring, Group, Exam, ExamPoolRule, ExamSection, QuestionType, ResultRelease, Question, Submission, TimerSettings, ExamTemplate, GradingPolicy, Difficulty, SystemSettings, QuestionResult, UserRole, BlogPost } from '../services/types';
 import { v4 as uuidv4 } from 'uuid';
 import SubmissionDetailModal from './SubmissionDetailModal';
 import BulkImportModal from './BulkImportModal';
 import { sanitize, logEvent } from '../services/securityService';
-import { generateQuestions } from '../services/geminiService';
+import { richTextToPlain } from '../services/richText';
 import { useSystem } from '../services/SystemContext';
 import { useToast } from '../services/ToastContext';
 import { useExams } from '../hooks/useExams';
@@ -15,7 +15,11 @@ import { useQuestions } from '../hooks/useQuestions';
 import QuestionEditor from './QuestionEditor';
 import QuestionSelector from './QuestionSelector';
 import AnalyticsDashboard from './AnalyticsDashboard';
-import { api } from '../services/api';
+import AccommodationModal from './AccommodationModal';
+import GroupModal from './GroupModal';
+import InvigilatorView from './InvigilatorView';
+import { api, GroupInput } from '../services/api';
+import { ATTEMPT_SCORING_LABELS } from '../services/attempts';
 
 interface AdminDashboardProps {
   exams: Exam[];
@@ -45,6 +49,14 @@ interface AdminDashboardProps {
   onBulkDeleteAnnouncements?: (ids: string[]) => void;
 }
 
+// datetime-local works in local time; stored values are ISO (UTC)
+const toLocalDateTimeInput = (value?: string | null) => {
+  if (!value) return '';
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return '';
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
   exams,
   templates,
@@ -69,7 +81,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
   const { users } = useUsers(); // Assuming useUsers provides a 'users' array
 
   // Local Data State with Pagination
-  const [activeTab, setActiveTab] = useState<'overview' | 'exams' | 'submissions' | 'users' | 'questions' | 'analytics'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'exams' | 'submissions' | 'users' | 'questions' | 'analytics' | 'invigilate'>('overview');
   const [isCreating, setIsCreating] = useState(false);
   const [aiContext, setAiContext] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
@@ -83,6 +95,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
 
   const [submissionsData, setSubmissionsData] = useState<{ data: Submission[], total: number, page: number, totalPages: number }>({ data: [], total: 0, page: 1, totalPages: 0 });
   const [usersData, setUsersData] = useState<{ data: User[], total: number, page: number, totalPages: number }>({ data: [], total: 0, page: 1, totalPages: 0 });
+  const [accommodationUser, setAccommodationUser] = useState<User | null>(null);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [editingGroup, setEditingGroup] = useState<Group | 'new' | null>(null);
   const [logsData, setLogsData] = useState<{ data: any[], total: number, page: number, totalPages: number }>({ data: [], total: 0, page: 1, totalPages: 0 });
 
   const [isLoadingData, setIsLoadingData] = useState(false);
@@ -127,8 +142,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
         if (Array.isArray(res)) setBatches(res);
       } catch (e) { console.error("Failed to load batches", e); }
     };
+    const loadGroups = async () => {
+      try {
+        setGroups(await api.admin.groups.list());
+      } catch (e) { console.error("Failed to load groups", e); }
+    };
     loadStats();
     loadBatches();
+    loadGroups();
   }, []);
 
   useEffect(() => {
@@ -182,6 +203,53 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
     setIsLoadingData(false);
   };
 
+  const handleSaveAccommodation = async (userId: string, accommodation: Accommodation) => {
+    try {
+      const res = await api.admin.users.setAccommodation(userId, accommodation);
+      setUsersData(prev => ({ ...prev, data: prev.data.map(u => u.id === userId ? { ...u, accommodation: res.accommodation } : u) }));
+      addToast(res.accommodation ? 'Accommodations saved' : 'Accommodations removed', 'success');
+    } catch (e: any) {
+      addToast(e.message || 'Failed to save accommodations', 'error');
+      throw e;
+    }
+  };
+
+  const handleSaveGroup = async (group: GroupInput) => {
+    try {
+      const saved = await api.admin.groups.save(group);
+      setGroups(prev => prev.some(g => g.id === saved.id)
+        ? prev.map(g => g.id === saved.id ? saved : g)
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      fetchUsers(usersData.page, true); // Refresh the Groups column
+      addToast('Group saved', 'success');
+    } catch (e: any) {
+      addToast(e.message || 'Failed to save group', 'error');
+      throw e;
+    }
+  };
+
+  const handleDeleteGroup = async (group: Group) => {
+    if (!confirm(`Delete group "${group.name}"? Exams and announcements addressed only to it become open to everyone.`)) return;
+    try {
+      await api.admin.groups.delete(group.id);
+      setGroups(prev => prev.filter(g => g.id !== group.id));
+      fetchUsers(usersData.page, true);
+      addToast('Group deleted', 'success');
+    } catch (e: any) {
+      addToast(e.message || 'Failed to delete group', 'error');
+    }
+  };
+
+  const describeAccommodation = (a?: Accommodation | null) => {
+    if (!a) return '';
+    return [
+      a.extraTimePercent > 0 && `+${a.extraTimePercent}%`,
+      a.extraMinutes > 0 && `+${a.extraMinutes}m`,
+      a.restBreakMinutes > 0 && `${a.restBreakMinutes}m breaks`,
+      a.separateSitting && 'Separate room'
+    ].filter(Boolean).join(' · ');
+  };
+
   const deleteQuestion = async (id: string) => {
     if (confirm('Delete this question?')) {
       try {
@@ -192,6 +260,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
     }
   };
 
+  const handleAiGenerate = async () => {
+    const topic = prompt('Topic for AI-generated questions:');
+    if (!topic || !topic.trim()) return;
+    const count = parseInt(prompt('How many questions? (1-50)', '5') || '', 10);
+    if (!count) return;
+
+    setIsGenerating(true);
+    try {
+      const res = await api.questions.generate({ topic: topic.trim(), count, types: [QuestionType.MCQ, QuestionType.SBA, QuestionType.THEORY] });
+      if (res.questions.length === 0) {
+        addToast('The AI provider returned no usable questions.', 'info');
+        return;
+      }
+      await handleBatchImport(res.questions);
+    } catch (e: any) {
+      addToast(e.message || 'AI generation failed', 'error');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const handleBatchImport = async (importedQuestions: Partial<Question>[]) => {
     setIsImporting(true);
     try {
@@ -252,8 +341,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
   const handleSave = async () => {
     try {
       console.log("Saving Exam...", editingExam);
-      if (!editingExam.title || !editingExam.questions?.length) {
-        addToast("Title and questions are required.", 'error');
+      const poolRules = (editingExam.poolRules || []).filter(r => r.count > 0);
+      if (!editingExam.title || (!editingExam.questions?.length && poolRules.length === 0)) {
+        addToast("Title and questions (or a question pool) are required.", 'error');
         return;
       }
 
@@ -264,9 +354,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
         console.warn("Some questions missing IDs, filtering them out.");
       }
 
+      // Sections only list questions still on the paper
+      const validIds = new Set(validQuestions.map(q => q.id));
+      const sections = (editingExam.sections || []).map(s => ({ ...s, questionIds: s.questionIds.filter(id => validIds.has(id)) }));
+
       const securedExam: Exam = {
         ...editingExam,
         questions: validQuestions,
+        poolRules,
+        sections,
         id: editingExam.id, // Only use specific ID if updating, otherwise undefined for creation? 
         // Wait, logic was: id: editingExam.id || uuidv4()
         // If creating new, we should let backend generate ID? No, frontend generates UUID often.
@@ -298,6 +394,31 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
     }
   };
 
+  const updatePoolRule = (ruleId: string, updates: Partial<ExamPoolRule>) => {
+    setEditingExam(prev => ({
+      ...prev,
+      poolRules: (prev.poolRules || []).map(r => r.id === ruleId ? { ...r, ...updates } : r)
+    }));
+  };
+
+  const updateSection = (sectionId: string, updates: Partial<ExamSection>) => {
+    setEditingExam(prev => ({
+      ...prev,
+      sections: (prev.sections || []).map(s => s.id === sectionId ? { ...s, ...updates } : s)
+    }));
+  };
+
+  // A question belongs to at most one section; unassigned ones land in the last section
+  const assignToSection = (questionId: string, sectionId: string) => {
+    setEditingExam(prev => ({
+      ...prev,
+      sections: (prev.sections || []).map(s => {
+        const questionIds = s.questionIds.filter(id => id !== questionId);
+        return { ...s, questionIds: s.id === sectionId ? [...questionIds, questionId] : questionIds };
+      })
+    }));
+  };
+
   const handleBulkDeleteSubmissions = async (ids: string[]) => {
     try {
       await api.submissions.bulkDelete(ids);
@@ -383,7 +504,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
   return (
     <div className="space-y-8 pb-20 dark:text-slate-100">
       <div className="flex border-b border-slate-200 dark:border-slate-800 sticky top-0 bg-slate-50 dark:bg-slate-950 z-30 overflow-x-auto">
-        {['overview', 'exams', 'questions', 'submissions', 'analytics', 'users'].map(tab => (
+        {['overview', 'exams', 'questions', 'submissions', 'analytics', 'users', 'invigilate'].map(tab => (
           <button key={tab} onClick={() => setActiveTab(tab as any)} className={`px-8 py-5 text-xs font-black uppercase tracking-widest transition-all whitespace-nowrap ${activeTab === tab ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}>
             {tab}
           </button>
@@ -630,6 +751,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                 <option value="ALL">All Types</option>
                 <option value={QuestionType.MCQ}>MCQ</option>
                 <option value={QuestionType.SBA}>SBA</option>
+                <option value={QuestionType.MRQ}>MRQ</option>
+                <option value={QuestionType.NUMERIC}>Numeric</option>
+                <option value={QuestionType.SHORT_ANSWER}>Short Answer</option>
                 <option value={QuestionType.THEORY}>Theory</option>
               </select>
             </div>
@@ -683,13 +807,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                         <button onClick={() => { if (confirm('Purge ALL questions?')) { onPurgeQuestions('ALL'); setShowPurgeConfirm(false); } }} className="w-full text-left text-xs font-bold text-red-600 hover:bg-red-50 p-2 rounded">Purge ALL</button>
                         <button onClick={() => { if (confirm('Purge ALL MCQs?')) { onPurgeQuestions(QuestionType.MCQ); setShowPurgeConfirm(false); } }} className="w-full text-left text-xs text-slate-700 hover:bg-slate-50 p-2 rounded">Purge MCQs</button>
                         <button onClick={() => { if (confirm('Purge ALL SBAs?')) { onPurgeQuestions(QuestionType.SBA); setShowPurgeConfirm(false); } }} className="w-full text-left text-xs text-slate-700 hover:bg-slate-50 p-2 rounded">Purge SBAs</button>
+                        <button onClick={() => { if (confirm('Purge ALL MRQs?')) { onPurgeQuestions(QuestionType.MRQ); setShowPurgeConfirm(false); } }} className="w-full text-left text-xs text-slate-700 hover:bg-slate-50 p-2 rounded">Purge MRQs</button>
                       </div>
                     )}
                   </div>
                   <div className="w-px h-8 bg-slate-200 mx-2"></div>
                   <button onClick={() => setIsImporting(true)} className="bg-slate-800 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">Import (CSV)</button>
+                  {systemSettings.aiGlobalEnabled !== false && systemSettings.aiQuestionGenEnabled && (
+                    <button onClick={handleAiGenerate} disabled={isGenerating} className="bg-fuchsia-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px] disabled:opacity-50">{isGenerating ? 'Generating...' : 'AI Generate'}</button>
+                  )}
                   <button onClick={() => setCreatingQuestionType(QuestionType.MCQ)} className="bg-indigo-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">+ MCQ</button>
                   <button onClick={() => setCreatingQuestionType(QuestionType.SBA)} className="bg-emerald-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">+ SBA</button>
+                  <button onClick={() => setCreatingQuestionType(QuestionType.MRQ)} className="bg-amber-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">+ MRQ</button>
+                  <button onClick={() => setCreatingQuestionType(QuestionType.NUMERIC)} className="bg-cyan-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">+ Numeric</button>
+                  <button onClick={() => setCreatingQuestionType(QuestionType.SHORT_ANSWER)} className="bg-rose-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">+ Short</button>
                   <button onClick={() => setCreatingQuestionType(QuestionType.THEORY)} className="bg-purple-600 text-white px-4 py-3 rounded-xl font-bold uppercase text-[10px]">+ Theory</button>
                 </div>
               </div>
@@ -820,9 +951,156 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                       <p className="text-[10px] text-slate-400 mt-1">Leave blank to publish immediately.</p>
                     </div>
                     <div>
+                      <label className="block text-xs font-black uppercase tracking-widest text-slate-400 mb-2">Time Warning (Minutes Left)</label>
+                      <input type="number" className="w-full p-4 theme-rounded bg-slate-50 dark:bg-slate-950 font-bold" value={editingExam.timerSettings?.warningThresholdMinutes || 5} onChange={e => setEditingExam({ ...editingExam, timerSettings: { ...editingExam.timerSettings!, warningThresholdMinutes: parseInt(e.target.value) || 5 } })} />
                     </div>
+                  </div>
+
+                  {/* Deadline rules (enforced by the server) */}
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl items-end">
                     <div>
-                      <input type="number" className="w-full p-4 theme-rounded bg-slate-50 dark:bg-slate-950 font-bold" value={editingExam.timerSettings?.warningThresholdMinutes || 5} onChange={e => setEditingExam({ ...editingExam, timerSettings: { ...editingExam.timerSettings!, warningThresholdMinutes: parseInt(e.target.value) || 5 } })} />
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Grace Period (Seconds)</label>
+                      <input type="number" min={0} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold" value={editingExam.timerSettings?.gracePeriodSeconds ?? 30} onChange={e => setEditingExam({ ...editingExam, timerSettings: { ...editingExam.timerSettings!, gracePeriodSeconds: Math.max(0, parseInt(e.target.value) || 0) } })} />
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-700 dark:text-slate-300 cursor-pointer select-none pb-3">
+                      <input type="checkbox" checked={editingExam.timerSettings?.autoSubmitOnExpiry ?? true} onChange={e => setEditingExam({ ...editingExam, timerSettings: { ...editingExam.timerSettings!, autoSubmitOnExpiry: e.target.checked } })} className="w-4 h-4 text-indigo-600 rounded" />
+                      Auto-Submit at Zero
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-700 dark:text-slate-300 cursor-pointer select-none pb-3">
+                      <input type="checkbox" checked={editingExam.timerSettings?.allowLateSubmission ?? false} onChange={e => setEditingExam({ ...editingExam, timerSettings: { ...editingExam.timerSettings!, allowLateSubmission: e.target.checked } })} className="w-4 h-4 text-indigo-600 rounded" />
+                      Accept Late Submissions
+                    </label>
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Late Penalty (%)</label>
+                      <input type="number" min={0} max={100} disabled={!editingExam.timerSettings?.allowLateSubmission} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold disabled:opacity-40" value={editingExam.timerSettings?.latePenaltyPercentage ?? 0} onChange={e => setEditingExam({ ...editingExam, timerSettings: { ...editingExam.timerSettings!, latePenaltyPercentage: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) } })} />
+                    </div>
+                  </div>
+
+                  {/* Availability window (enforced by the server when a candidate starts) */}
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl items-end">
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Opens At</label>
+                      <input type="datetime-local" className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold text-sm" value={toLocalDateTimeInput(editingExam.opensAt)} onChange={e => setEditingExam({ ...editingExam, opensAt: e.target.value ? new Date(e.target.value).toISOString() : null })} />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Closes At (Last Start)</label>
+                      <input type="datetime-local" className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold text-sm" value={toLocalDateTimeInput(editingExam.closesAt)} onChange={e => setEditingExam({ ...editingExam, closesAt: e.target.value ? new Date(e.target.value).toISOString() : null })} />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Late Entry (Minutes)</label>
+                      <input type="number" min={0} disabled={!editingExam.opensAt} placeholder="No limit" className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold disabled:opacity-40" value={editingExam.lateEntryMinutes ?? ''} onChange={e => setEditingExam({ ...editingExam, lateEntryMinutes: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0) })} />
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-700 dark:text-slate-300 cursor-pointer select-none pb-3">
+                      <input type="checkbox" disabled={!editingExam.opensAt} checked={editingExam.fixedStart ?? false} onChange={e => setEditingExam({ ...editingExam, fixedStart: e.target.checked })} className="w-4 h-4 text-indigo-600 rounded" />
+                      Fixed Start (clock runs from opening)
+                    </label>
+                  </div>
+
+                  {/* Attempts policy */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl items-end">
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Max Attempts (0 = Unlimited)</label>
+                      <input type="number" min={0} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold" value={editingExam.maxAttempts ?? 1} onChange={e => setEditingExam({ ...editingExam, maxAttempts: Math.max(0, parseInt(e.target.value) || 0) })} />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Cooldown Between (Minutes)</label>
+                      <input type="number" min={0} disabled={(editingExam.maxAttempts ?? 1) === 1} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold disabled:opacity-40" value={editingExam.attemptCooldownMinutes ?? 0} onChange={e => setEditingExam({ ...editingExam, attemptCooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })} />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Attempt That Counts</label>
+                      <select disabled={(editingExam.maxAttempts ?? 1) === 1} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold disabled:opacity-40" value={editingExam.attemptScoring || 'BEST'} onChange={e => setEditingExam({ ...editingExam, attemptScoring: e.target.value as AttemptScoring })}>
+                        {(Object.keys(ATTEMPT_SCORING_LABELS) as AttemptScoring[]).map(mode => <option key={mode} value={mode}>{ATTEMPT_SCORING_LABELS[mode]}</option>)}
+                      </select>
+                    </div>
+                  </div>
+
+                  {/* Start code for supervised sittings (shown from the Invigilate tab) */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl items-end">
+                    <div>
+                      <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Start Code</label>
+                      <select className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold" value={editingExam.accessCodeMode || 'NONE'} onChange={e => setEditingExam({ ...editingExam, accessCodeMode: e.target.value as AccessCodeMode })}>
+                        <option value="NONE">Not required</option>
+                        <option value="FIXED">Fixed code</option>
+                        <option value="ROTATING">Rotating code</option>
+                      </select>
+                    </div>
+                    {editingExam.accessCodeMode === 'FIXED' && (
+                      <div>
+                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Code</label>
+                        <input className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-mono font-bold uppercase" placeholder="Generated if blank" value={editingExam.accessCode || ''} onChange={e => setEditingExam({ ...editingExam, accessCode: e.target.value.toUpperCase() })} />
+                      </div>
+                    )}
+                    {editingExam.accessCodeMode === 'ROTATING' && (
+                      <div>
+                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Changes Every (Minutes)</label>
+                        <input type="number" min={1} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold" value={editingExam.accessCodeRotationMinutes ?? 10} onChange={e => setEditingExam({ ...editingExam, accessCodeRotationMinutes: Math.max(1, parseInt(e.target.value) || 1) })} />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Lockdown: fullscreen-only sitting; violations can hand the attempt in automatically */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl items-end">
+                    <label className="flex items-center gap-3 p-3 cursor-pointer">
+                      <input type="checkbox" className="w-5 h-5" checked={!!editingExam.lockdownMode} onChange={e => setEditingExam({ ...editingExam, lockdownMode: e.target.checked })} />
+                      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Lockdown Mode</span>
+                    </label>
+                    {editingExam.lockdownMode && (
+                      <div>
+                        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Auto-Submit After Violations (0 = Warn Only)</label>
+                        <input type="number" min={0} className="w-full p-3 theme-rounded bg-white dark:bg-slate-950 font-bold" value={editingExam.lockdownMaxViolations ?? 0} onChange={e => setEditingExam({ ...editingExam, lockdownMaxViolations: Math.max(0, parseInt(e.target.value) || 0) })} />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Assignment: leave empty to open the exam to every candidate */}
+                  <div className="bg-slate-50 dark:bg-slate-900 p-6 theme-rounded space-y-4">
+                    <h3 className="font-bold uppercase text-xs text-slate-400">
+                      Assigned To {(editingExam.assignedGroups?.length || editingExam.assignedUsers?.length) ? '' : '(Everyone)'}
+                    </h3>
+                    {groups.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {groups.map(g => {
+                          const selected = !!editingExam.assignedGroups?.some(x => x.id === g.id);
+                          return (
+                            <button
+                              key={g.id}
+                              onClick={() => setEditingExam({
+                                ...editingExam,
+                                assignedGroups: selected
+                                  ? editingExam.assignedGroups?.filter(x => x.id !== g.id)
+                                  : [...(editingExam.assignedGroups || []), { id: g.id, name: g.name }]
+                              })}
+                              className={`px-3 py-2 rounded-full text-xs font-bold border transition-colors ${selected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}
+                            >
+                              {g.name} <span className="opacity-60">({g.members.length})</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <select
+                      className="w-full p-3 rounded-xl bg-white dark:bg-slate-800 text-sm font-bold"
+                      value=""
+                      onChange={e => {
+                        const candidate = users.find(u => u.id === e.target.value);
+                        if (!candidate) return;
+                        setEditingExam({ ...editingExam, assignedUsers: [...(editingExam.assignedUsers || []), { id: candidate.id, name: candidate.name, email: candidate.email }] });
+                      }}
+                    >
+                      <option value="">Add an individual candidate...</option>
+                      {users.filter(u => u.role === 'CANDIDATE' && !editingExam.assignedUsers?.some(a => a.id === u.id)).map(u => (
+                        <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
+                      ))}
+                    </select>
+                    <div className="flex flex-wrap gap-2">
+                      {editingExam.assignedUsers?.map(a => (
+                        <div key={a.id} className="flex items-center gap-2 bg-white dark:bg-slate-800 px-3 py-2 rounded-full border border-slate-200 dark:border-slate-700">
+                          <span className="text-xs font-bold">{a.name}</span>
+                          <button onClick={() => setEditingExam({ ...editingExam, assignedUsers: editingExam.assignedUsers?.filter(x => x.id !== a.id) })} className="text-red-500 hover:text-red-700">
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                          </button>
+                        </div>
+                      ))}
                     </div>
                   </div>
 
@@ -866,6 +1144,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <label className="flex items-center gap-3 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-300 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={editingExam.shuffleQuestions ?? true}
+                        onChange={e => setEditingExam({ ...editingExam, shuffleQuestions: e.target.checked })}
+                        className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+                      />
+                      Shuffle Question Order (per candidate)
+                    </label>
+                    <label className="flex items-center gap-3 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-300 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={editingExam.shuffleOptions ?? true}
+                        onChange={e => setEditingExam({ ...editingExam, shuffleOptions: e.target.checked })}
+                        className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+                      />
+                      Shuffle Answer Options (locked options stay put)
+                    </label>
+                  </div>
+
                   <div className="flex items-center gap-3 bg-slate-50 dark:bg-slate-900 p-4 rounded-xl">
                     <input
                       type="checkbox"
@@ -904,14 +1203,99 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                     <h3 className="font-bold uppercase text-xs text-slate-400 mb-4">Selected Questions ({editingExam.questions?.length})</h3>
                     <div className="space-y-2 max-h-60 overflow-y-auto">
                       {editingExam.questions?.map((q, idx) => (
-                        <div key={idx} className="flex justify-between items-center bg-white dark:bg-slate-900 p-3 rounded shadow-sm">
-                          <span className="text-sm font-medium truncate w-3/4">{q.text}</span>
+                        <div key={idx} className="flex justify-between items-center gap-2 bg-white dark:bg-slate-900 p-3 rounded shadow-sm">
+                          <span className="text-sm font-medium truncate w-3/4">{richTextToPlain(q.text)}</span>
+                          {(editingExam.sections || []).length > 0 && (
+                            <select
+                              className="p-1 rounded bg-slate-50 dark:bg-slate-950 font-bold text-[10px] max-w-[140px]"
+                              value={editingExam.sections!.find(s => s.questionIds.includes(q.id))?.id || ''}
+                              onChange={e => assignToSection(q.id, e.target.value)}
+                            >
+                              <option value="">Last Section</option>
+                              {editingExam.sections!.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                            </select>
+                          )}
                           <button onClick={() => setEditingExam({ ...editingExam, questions: editingExam.questions?.filter((_, i) => i !== idx) })} className="text-red-500 text-xs font-bold uppercase">Remove</button>
                         </div>
                       ))}
                     </div>
                   </div>
 
+                  <div className="bg-slate-50 dark:bg-slate-800 p-6 theme-rounded space-y-3">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <h3 className="font-bold uppercase text-xs text-slate-400">Sections ({(editingExam.sections || []).length})</h3>
+                        <p className="text-[10px] text-slate-400">Candidates work through sections in order. A timed or locked section cannot be reopened once submitted. Leave empty for a single flat paper.</p>
+                      </div>
+                      <button
+                        onClick={() => setEditingExam({
+                          ...editingExam,
+                          sections: [...(editingExam.sections || []), { id: uuidv4(), title: `Part ${String.fromCharCode(65 + (editingExam.sections || []).length)}`, questionIds: [] }]
+                        })}
+                        className="bg-white dark:bg-slate-900 text-indigo-600 px-4 py-2 rounded-lg font-bold uppercase text-[10px] shadow-sm"
+                      >
+                        + Add Section
+                      </button>
+                    </div>
+                    {(editingExam.sections || []).map(section => (
+                      <div key={section.id} className="bg-white dark:bg-slate-900 p-3 rounded shadow-sm space-y-2">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+                          <input className="md:col-span-2 p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-sm" value={section.title} onChange={e => updateSection(section.id, { title: e.target.value })} placeholder="Section Title" />
+                          <input type="number" min={0} className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-sm" value={section.timeLimitMinutes || ''} onChange={e => updateSection(section.id, { timeLimitMinutes: Math.max(0, parseInt(e.target.value) || 0) || undefined })} placeholder="No Time Limit" title="Time limit (minutes)" />
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300 select-none cursor-pointer">
+                            <input type="checkbox" checked={!!section.locked} onChange={e => updateSection(section.id, { locked: e.target.checked })} className="w-4 h-4 text-indigo-600 rounded" />
+                            No Going Back
+                          </label>
+                          <button onClick={() => setEditingExam({ ...editingExam, sections: editingExam.sections?.filter(s => s.id !== section.id) })} className="text-red-500 text-xs font-bold uppercase">Remove</button>
+                        </div>
+                        <textarea className="w-full p-2 rounded bg-slate-50 dark:bg-slate-950 text-xs" rows={2} value={section.instructions || ''} onChange={e => updateSection(section.id, { instructions: e.target.value || undefined })} placeholder="Instructions shown at the start of the section" />
+                        <p className="text-[10px] font-bold uppercase text-slate-400">{section.questionIds.length} selected questions{(editingExam.poolRules || []).some(r => r.sectionId === section.id) ? ' + pooled' : ''}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="bg-slate-50 dark:bg-slate-800 p-6 theme-rounded space-y-3">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <h3 className="font-bold uppercase text-xs text-slate-400">Random Question Pools ({(editingExam.poolRules || []).reduce((sum, r) => sum + r.count, 0)} per candidate)</h3>
+                        <p className="text-[10px] text-slate-400">Each candidate gets the selected questions plus a fresh draw for every rule, from the bank questions the exam's author owns or collaborates on. Blank filters match anything.</p>
+                      </div>
+                      <button
+                        onClick={() => setEditingExam({ ...editingExam, poolRules: [...(editingExam.poolRules || []), { id: uuidv4(), count: 5 }] })}
+                        className="bg-white dark:bg-slate-900 text-indigo-600 px-4 py-2 rounded-lg font-bold uppercase text-[10px] shadow-sm"
+                      >
+                        + Add Rule
+                      </button>
+                    </div>
+                    {(editingExam.poolRules || []).map(rule => (
+                      <div key={rule.id} className={`grid grid-cols-2 ${(editingExam.sections || []).length > 0 ? 'md:grid-cols-7' : 'md:grid-cols-6'} gap-2 items-center bg-white dark:bg-slate-900 p-3 rounded shadow-sm`}>
+                        <input type="number" min={1} className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-sm" value={rule.count} onChange={e => updatePoolRule(rule.id, { count: Math.max(0, parseInt(e.target.value) || 0) })} title="Questions to draw" />
+                        <select className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-xs" value={rule.difficulty || ''} onChange={e => updatePoolRule(rule.id, { difficulty: (e.target.value || undefined) as Difficulty | undefined })}>
+                          <option value="">Any Difficulty</option>
+                          <option value={Difficulty.EASY}>Easy</option>
+                          <option value={Difficulty.MEDIUM}>Medium</option>
+                          <option value={Difficulty.HARD}>Hard</option>
+                        </select>
+                        <input list="categories" className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-xs" value={rule.category || ''} onChange={e => updatePoolRule(rule.id, { category: e.target.value || undefined })} placeholder="Any Category" />
+                        <select className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-xs" value={rule.batchId || ''} onChange={e => updatePoolRule(rule.id, { batchId: e.target.value || undefined })}>
+                          <option value="">Any Batch</option>
+                          {batches.map(b => <option key={b} value={b}>{b}</option>)}
+                        </select>
+                        <select className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-xs" value={rule.type || ''} onChange={e => updatePoolRule(rule.id, { type: (e.target.value || undefined) as QuestionType | undefined })}>
+                          <option value="">Any Type</option>
+                          {Object.values(QuestionType).map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        {(editingExam.sections || []).length > 0 && (
+                          <select className="p-2 rounded bg-slate-50 dark:bg-slate-950 font-bold text-xs" value={rule.sectionId || ''} onChange={e => updatePoolRule(rule.id, { sectionId: e.target.value || undefined })}>
+                            <option value="">Last Section</option>
+                            {editingExam.sections!.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                          </select>
+                        )}
+                        <button onClick={() => setEditingExam({ ...editingExam, poolRules: editingExam.poolRules?.filter(r => r.id !== rule.id) })} className="text-red-500 text-xs font-bold uppercase">Remove</button>
+                      </div>
+                    ))}
+                  </div>
+
                   <div className="flex justify-between gap-4 pt-4 border-t">
                     <div className="flex gap-2">
                       <button onClick={() => setIsCreating(false)} className="px-6 py-3 font-bold uppercase text-xs text-slate-500">Cancel</button>
@@ -941,6 +1325,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                       <h3 className="font-bold text-lg mb-2">{exam.title}</h3>
                       <div className="flex gap-2 text-[10px] font-black uppercase text-slate-400">
                         <span className="bg-slate-200 dark:bg-slate-700 px-2 py-1 rounded">{exam.questions?.length || 0} Qs</span>
+                        {exam.poolRules && exam.poolRules.length > 0 && (
+                          <span className="bg-indigo-100 text-indigo-600 dark:bg-indigo-900/30 px-2 py-1 rounded">+{exam.poolRules.reduce((sum, r) => sum + (Number(r.count) || 0), 0)} Pooled</span>
+                        )}
                         <span className="bg-slate-200 dark:bg-slate-700 px-2 py-1 rounded">{exam.durationMinutes} m</span>
                       </div>
                       <div className="mt-4 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -1007,7 +1394,32 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
         )}
 
       {activeTab === 'users' && (
-        <div className="px-4">
+        <div className="px-4 space-y-8">
+          <div className="bg-white dark:bg-slate-900 p-10 theme-rounded shadow-sm">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-black text-2xl uppercase">Groups</h2>
+              <button onClick={() => setEditingGroup('new')} className="bg-indigo-600 text-white px-4 py-2 rounded-xl font-bold uppercase text-xs shadow-md hover:bg-indigo-700 transition-colors">+ New Group</button>
+            </div>
+            {groups.length === 0 ? (
+              <p className="text-sm text-slate-400">No groups yet. Exams and announcements are open to every candidate until assigned to a group.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {groups.map(g => (
+                  <div key={g.id} className="p-4 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-100 dark:border-slate-800 group relative">
+                    <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500">{g.kind}</span>
+                    <h3 className="font-bold">{g.name}</h3>
+                    {g.description && <p className="text-xs text-slate-500 line-clamp-1">{g.description}</p>}
+                    <p className="text-xs text-slate-400 mt-2">{g.members.length} member{g.members.length === 1 ? '' : 's'}</p>
+                    <div className="absolute top-4 right-4 flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => setEditingGroup(g)} className="text-indigo-600 text-xs font-bold uppercase">Edit</button>
+                      <button onClick={() => handleDeleteGroup(g)} className="text-red-500 text-xs font-bold uppercase">Delete</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div className="bg-white dark:bg-slate-900 p-10 theme-rounded shadow-sm">
             <h2 className="font-black text-2xl uppercase mb-8">Registered Users</h2>
             <table className="w-full text-left">
@@ -1016,6 +1428,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                   <th className="pb-4">Name</th>
                   <th className="pb-4">Email</th>
                   <th className="pb-4">Role</th>
+                  <th className="pb-4">Groups</th>
+                  <th className="pb-4">Accommodations</th>
                 </tr>
               </thead>
               <tbody className="text-sm">
@@ -1024,6 +1438,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
                     <td className="py-4 font-bold">{u.name}</td>
                     <td className="py-4 text-slate-500">{u.email}</td>
                     <td className="py-4"><span className="bg-slate-100 px-2 py-1 rounded text-[10px] uppercase font-black">{u.role}</span></td>
+                    <td className="py-4 text-xs text-slate-500">{u.groups?.map(g => g.name).join(', ') || '—'}</td>
+                    <td className="py-4">
+                      <button onClick={() => setAccommodationUser(u)} className="text-xs font-bold text-indigo-600 hover:underline">
+                        {describeAccommodation(u.accommodation) || '+ Add'}
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -1052,6 +1472,26 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
         </div>
       )}
 
+      {accommodationUser && (
+        <AccommodationModal
+          userName={accommodationUser.name}
+          accommodation={accommodationUser.accommodation}
+          onSave={a => handleSaveAccommodation(accommodationUser.id, a)}
+          onClose={() => setAccommodationUser(null)}
+        />
+      )}
+
+      {activeTab === 'invigilate' && <InvigilatorView exams={exams} />}
+
+      {editingGroup && (
+        <GroupModal
+          group={editingGroup === 'new' ? null : editingGroup}
+          users={users}
+          onSave={handleSaveGroup}
+          onClose={() => setEditingGroup(null)}
+        />
+      )}
+
       {activeTab === 'analytics' && (
         <AnalyticsDashboard
           exams={exams}
@@ -1090,6 +1530,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = memo(({
               }
             } catch (e) { addToast("Recalc failed", "error"); }
           }}
+          onAiGrade={async () => {
+            try {
+              const res = await api.submissions.aiGrade(selectedSubmission.sub.id);
+              addToast(`AI graded ${res.graded} answer(s)${res.failed ? `, ${res.failed} failed` : ''}.`, res.failed ? 'info' : 'success');
+              setSelectedSubmission(null);
+              fetchSubmissions(submissionsData.page);
+            } catch (e: any) { addToast(e.message || 'AI grading failed', 'error'); }
+          }}
           onMarkReviewed={async () => {
             await fetchSubmissions(submissionsData.page);
             // Optionally close or keep open. If keeping open, we need to update selectedSubmission locally.
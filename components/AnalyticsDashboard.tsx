@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
 import { Exam, Submission, User } from '../services/types';
+import { getCountedResults } from '../services/attempts';
 
 interface AnalyticsDashboardProps {
     exams: Exam[];
@@ -22,12 +23,12 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ exams, submissi
         let passed = 0;
         let failed = 0;
 
-        // Exam specific stats
+        // Exam specific stats, one counted attempt per candidate (best / last / average per the exam's policy)
         const examStats = exams.map(exam => {
-            const examSubs = submissions.filter(s => s.examId === exam.id);
-            const subCount = examSubs.length;
-            const avgScore = subCount > 0 ? examSubs.reduce((acc, s) => acc + s.score, 0) / subCount : 0;
-            const passCount = examSubs.filter(s => (s.score / exam.totalPoints * 100) >= exam.passMark).length;
+            const counted = getCountedResults(exam, submissions);
+            const subCount = counted.length;
+            const avgScore = subCount > 0 ? counted.reduce((acc, c) => acc + c.score, 0) / subCount : 0;
+            const passCount = counted.filter(c => (c.score / exam.totalPoints * 100) >= exam.passMark).length;
 
             passed += passCount;
             failed += (subCount - passCount);
@@ -74,7 +75,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ exams, submissi
                 <div className="p-6 bg-white dark:bg-slate-900 theme-rounded shadow-sm">
                     <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Overall Pass Rate</h3>
                     <p className="text-3xl font-black text-emerald-500">
-                        {stats.totalSubmissions > 0 ? ((stats.passed / stats.totalSubmissions) * 100).toFixed(1) : 0}%
+                        {stats.passed + stats.failed > 0 ? ((stats.passed / (stats.passed + stats.failed)) * 100).toFixed(1) : 0}%
                     </p>
                 </div>
             </div>
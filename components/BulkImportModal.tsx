@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
-import { Question, QuestionType } from '../services/types';
+import { Question, QuestionType, Difficulty, MrqScoringMode, ToleranceType, MediaRef } from '../services/types';
 import { v4 as uuidv4 } from 'uuid';
 import DOMPurify from 'dompurify';
 
+// Media goes to the server as references; it resolves them against the uploaded files
+type ImportedQuestion = Partial<Question> & { media?: MediaRef[] };
+
 interface BulkImportModalProps {
     onImport: (questions: Partial<Question>[]) => Promise<void>;
     onClose: () => void;
@@ -10,7 +13,7 @@ interface BulkImportModalProps {
 
 const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose }) => {
     const [inputText, setInputText] = useState('');
-    const [preview, setPreview] = useState<Partial<Question>[]>([]);
+    const [preview, setPreview] = useState<ImportedQuestion[]>([]);
     const [error, setError] = useState('');
     const [isProcessing, setIsProcessing] = useState(false);
     const [showExamples, setShowExamples] = useState(false);
@@ -21,6 +24,44 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
         return DOMPurify.sanitize(text.trim());
     };
 
+    // MRQ keys: "A, C" or "Vagus, Phrenic" (letters are mapped to option text)
+    const resolveAnswerList = (raw: string | string[], options: string[]): string[] => {
+        const parts = Array.isArray(raw) ? raw.map(String) : String(raw || '').split(',');
+        return parts.map(p => sanitize(p)).filter(Boolean).map(p => {
+            if (/^[A-E]$/i.test(p) && options[p.toUpperCase().charCodeAt(0) - 65]) {
+                return options[p.toUpperCase().charCodeAt(0) - 65];
+            }
+            return p;
+        });
+    };
+
+    // Optional in JSON imports; lets exam pool rules filter by difficulty
+    const resolveDifficulty = (raw: unknown): Difficulty | undefined => {
+        const value = String(raw || '').toUpperCase();
+        return Object.values(Difficulty).includes(value as Difficulty) ? value as Difficulty : undefined;
+    };
+
+    // Uploaded files by id or /api/media URL; JSON entries may carry playback limits for audio and video
+    const resolveMedia = (raw: unknown): MediaRef[] => {
+        const refs = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : raw ? [raw] : [];
+        return refs.flatMap((ref: any) => {
+            const value = typeof ref === 'string' ? ref.trim() : String(ref?.id || ref?.url || '').trim();
+            if (!value) return [];
+            const fromUrl = /[?&]id=([^&#]+)/.exec(value);
+            const id = fromUrl ? decodeURIComponent(fromUrl[1]) : value;
+            if (typeof ref !== 'object') return [{ id }];
+            const playback = ref.playback || ref;
+            return [{
+                id,
+                playback: {
+                    maxPlays: Number(playback.maxPlays) > 0 ? Math.floor(Number(playback.maxPlays)) : null,
+                    allowPause: playback.allowPause !== false,
+                    autoplay: !!playback.autoplay
+                }
+            }];
+        });
+    };
+
     const parseInput = () => {
         setError('');
         const trimmed = inputText.trim();
@@ -30,7 +71,7 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
         }
 
         const lines = trimmed.split('\n');
-        const parsed: Partial<Question>[] = [];
+        const parsed: ImportedQuestion[] = [];
         let isJson = false;
         let parseErrors: string[] = [];
 
@@ -47,6 +88,8 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                 if (Array.isArray(json)) {
                     isJson = true;
                     json.forEach((item: any, idx) => {
+                        const media = resolveMedia(item.media ?? item.attachments);
+                        const add = (q: ImportedQuestion) => parsed.push(media.length ? { ...q, media } : q);
                         const type = Object.values(QuestionType).includes(item.type) ? item.type : QuestionType.MCQ;
                         const text = sanitize(item.text);
 
@@ -62,7 +105,86 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                             return;
                         }
 
-                        let correctAnswer = sanitize(item.correctAnswer || '');
+                        if (type === QuestionType.MRQ) {
+                            const correctAnswers = resolveAnswerList(item.correctAnswers ?? item.correctAnswer, options);
+                            if (correctAnswers.length === 0) {
+                                parseErrors.push(`Item ${idx + 1}: Missing correct answers.`);
+                                return;
+                            }
+                            const scoringMode = Object.values(MrqScoringMode).includes(item.scoringMode) ? item.scoringMode : MrqScoringMode.ALL_OR_NOTHING;
+                            add({
+                                id: uuidv4(),
+                                type,
+                                text,
+                                options,
+                                correctAnswer: '',
+                                correctAnswers,
+                                answerConfig: { scoringMode },
+                                points: Number(item.points) || 1,
+                                category: sanitize(item.category || 'General'),
+                                difficulty: resolveDifficulty(item.difficulty),
+                                imageUrl: sanitize(item.imageUrl || '')
+                            });
+                            return;
+                        }
+
+                        if (type === QuestionType.NUMERIC) {
+                            const value = sanitize(String(item.correctAnswer ?? ''));
+                            if (isNaN(parseFloat(value))) {
+                                parseErrors.push(`Item ${idx + 1}: Numeric answer required.`);
+                                return;
+                            }
+                            const config = item.answerConfig || {};
+                            add({
+                                id: uuidv4(),
+                                type,
+                                text,
+                                options: [],
+                                correctAnswer: value,
+                                answerConfig: {
+                                    tolerance: Number(item.tolerance ?? config.tolerance) || 0,
+                                    toleranceType: (item.toleranceType ?? config.toleranceType) === ToleranceType.RELATIVE ? ToleranceType.RELATIVE : ToleranceType.ABSOLUTE,
+                                    significantFigures: Number(item.significantFigures ?? config.significantFigures) || undefined,
+                                    acceptedUnits: resolveAnswerList(item.units ?? config.acceptedUnits ?? [], []),
+                                    requireUnit: !!(item.requireUnit ?? config.requireUnit)
+                                },
+                                points: Number(item.points) || 1,
+                                category: sanitize(item.category || 'General'),
+                                difficulty: resolveDifficulty(item.difficulty),
+                                imageUrl: sanitize(item.imageUrl || '')
+                            });
+                            return;
+                        }
+
+                        if (type === QuestionType.SHORT_ANSWER) {
+                            const config = item.answerConfig || {};
+                            const correctAnswers = resolveAnswerList(item.acceptedAnswers ?? item.correctAnswers ?? item.correctAnswer, []);
+                            const acceptedPatterns = Array.isArray(item.patterns ?? config.acceptedPatterns) ? (item.patterns ?? config.acceptedPatterns).map(String) : [];
+                            if (correctAnswers.length === 0 && acceptedPatterns.length === 0) {
+                                parseErrors.push(`Item ${idx + 1}: Missing accepted answers.`);
+                                return;
+                            }
+                            add({
+                                id: uuidv4(),
+                                type,
+                                text,
+                                options: [],
+                                correctAnswer: correctAnswers[0] || '',
+                                correctAnswers,
+                                answerConfig: {
+                                    acceptedPatterns,
+                                    caseSensitive: !!(item.caseSensitive ?? config.caseSensitive),
+                                    fuzzyDistance: Number(item.fuzzyDistance ?? config.fuzzyDistance) || 0
+                                },
+                                points: Number(item.points) || 1,
+                                category: sanitize(item.category || 'General'),
+                                difficulty: resolveDifficulty(item.difficulty),
+                                imageUrl: sanitize(item.imageUrl || '')
+                            });
+                            return;
+                        }
+
+                        let correctAnswer = sanitize(String(item.correctAnswer || ''));
 
                         // Map Letter Answers (A, B, C...) to Option Text if answer is single letter
                         if (/^[A-E]$/i.test(correctAnswer) && options.length > 0) {
@@ -77,7 +199,7 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                             return;
                         }
 
-                        parsed.push({
+                        add({
                             id: uuidv4(),
                             type,
                             text,
@@ -85,6 +207,7 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                             correctAnswer,
                             points: Number(item.points) || (type === QuestionType.THEORY ? 10 : 1),
                             category: sanitize(item.category || 'General'),
+                            difficulty: resolveDifficulty(item.difficulty),
                             imageUrl: sanitize(item.imageUrl || '')
                         });
                     });
@@ -111,7 +234,9 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                     const parts = cleanLine.split('|').map(s => s.trim());
 
                     if (parts.length >= 2) {
-                        const [rawText, rawType, rawCorrect, rawOpts] = parts;
+                        const [rawText, rawType, rawCorrect, rawOpts, rawMedia] = parts;
+                        const media = resolveMedia(rawMedia);
+                        const add = (q: ImportedQuestion) => parsed.push(media.length ? { ...q, media } : q);
 
                         const text = sanitize(rawText);
                         if (!text) return;
@@ -119,6 +244,9 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                         let type = QuestionType.MCQ;
                         const typeUpper = rawType?.toUpperCase() || '';
                         if (typeUpper === 'SBA') type = QuestionType.SBA;
+                        else if (typeUpper === 'MRQ') type = QuestionType.MRQ;
+                        else if (typeUpper === 'NUMERIC') type = QuestionType.NUMERIC;
+                        else if (typeUpper === 'SHORT_ANSWER') type = QuestionType.SHORT_ANSWER;
                         else if (typeUpper === 'THEORY') type = QuestionType.THEORY;
 
                         // Clean Options (Handle simple comma split)
@@ -132,6 +260,49 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                             return;
                         }
 
+                        if (type === QuestionType.MRQ) {
+                            const correctAnswers = resolveAnswerList(rawCorrect, options);
+                            if (correctAnswers.length === 0) {
+                                parseErrors.push(`Line ${idx + 1}: Missing correct answers.`);
+                                return;
+                            }
+                            add({
+                                id: uuidv4(),
+                                text,
+                                type,
+                                correctAnswer: '',
+                                correctAnswers,
+                                options,
+                                points: 1,
+                                category: 'General'
+                            });
+                            return;
+                        }
+
+                        if (type === QuestionType.SHORT_ANSWER) {
+                            const correctAnswers = resolveAnswerList(rawCorrect, []);
+                            if (correctAnswers.length === 0) {
+                                parseErrors.push(`Line ${idx + 1}: Missing accepted answers.`);
+                                return;
+                            }
+                            add({
+                                id: uuidv4(),
+                                text,
+                                type,
+                                correctAnswer: correctAnswers[0],
+                                correctAnswers,
+                                options: [],
+                                points: 1,
+                                category: 'General'
+                            });
+                            return;
+                        }
+
+                        if (type === QuestionType.NUMERIC && isNaN(parseFloat(rawCorrect || ''))) {
+                            parseErrors.push(`Line ${idx + 1}: Numeric answer required.`);
+                            return;
+                        }
+
                         let correctAnswer = sanitize(rawCorrect || '');
 
                         // Map Letter Answers (A, B, C...) to Option Text
@@ -148,7 +319,7 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                             return;
                         }
 
-                        parsed.push({
+                        add({
                             id: uuidv4(),
                             text,
                             type,
@@ -190,7 +361,7 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                 <div className="flex justify-between items-start mb-4">
                     <div>
                         <h2 className="text-2xl font-black uppercase">Secure Bulk Import</h2>
-                        <p className="text-xs text-slate-500 font-bold">Import MCQs, SBAs, and Theory questions.</p>
+                        <p className="text-xs text-slate-500 font-bold">Import MCQs, SBAs, MRQs, Numeric, Short Answer, and Theory questions.</p>
                     </div>
                     <button onClick={onClose} className="text-slate-400 hover:text-red-500 font-bold text-xl">&times;</button>
                 </div>
@@ -211,16 +382,22 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose })
                                         <div className="bg-white dark:bg-slate-900 p-3 rounded border">
                                             <p className="font-black text-[10px] uppercase text-slate-400 mb-2">Pipe Separated (PSV)</p>
                                             <pre className="font-mono text-[10px] bg-slate-100 dark:bg-slate-950 p-2 rounded overflow-x-auto whitespace-pre-wrap">
-                                                {`Question Text | Type | Answer | Options...
+                                                {`Question Text | Type | Answer | Options | Media (optional)...
 
 // Examples:
 Which nerve? | SBA | A | Vagus, Phrenic, Sciatic
 What is 2+2? | MCQ | 4 | 2, 3, 4, 5
-Describe the... | THEORY | | `}
+Select the primes | MRQ | A, C | 2, 4, 5, 9
+Boiling point of water (°C)? | NUMERIC | 100 |
+Powerhouse of the cell? | SHORT_ANSWER | Mitochondria, Mitochondrion |
+Describe the... | THEORY | | 
+What did the speaker order? | MCQ | A | Tea, Coffee | <media id>`}
                                             </pre>
                                             <p className="mt-2 text-[10px] text-amber-600">
                                                 * Answer can be the text OR letter (A, B, C...)<br />
-                                                * Options are comma-separated.
+                                                * Options are comma-separated.<br />
+                                                * MRQ answers are comma-separated too.<br />
+                                                * Media: uploaded file ids or /api/media URLs.
                                             </p>
                                         </div>
                                         <div className="bg-white dark:bg-slate-900 p-3 rounded border">
@@ -233,6 +410,14 @@ Describe the... | THEORY | | `}
     "options": ["Vagus", "Phrenic"],
     "correctAnswer": "Vagus",
     "points": 5
+  },
+  {
+    "text": "What did the speaker order?",
+    "type": "MCQ",
+    "options": ["Tea", "Coffee"],
+    "correctAnswer": "Tea",
+    "media": [{ "id": "<media id>", "maxPlays": 2,
+      "allowPause": false, "autoplay": true }]
   }
 ]`}
                                             </pre>
@@ -274,14 +459,18 @@ Describe the... | THEORY | | `}
                                         <div className="flex-1 min-w-0">
                                             <p className="font-bold text-sm truncate" title={q.text}>{q.text}</p>
                                             <div className="flex flex-wrap gap-2 text-[10px] text-slate-400 mt-1">
-                                                <span>Ans: <b className="text-green-600">{q.correctAnswer || '(None)'}</b></span>
+                                                <span>Ans: <b className="text-green-600">{(q.type === QuestionType.MRQ || q.type === QuestionType.SHORT_ANSWER ? q.correctAnswers?.join(', ') : q.correctAnswer) || '(None)'}</b></span>
                                                 <span>Opts: {q.options?.length}</span>
+                                                {!!q.media?.length && <span>Media: <b>{q.media.length}</b></span>}
                                                 <span className="truncate max-w-[200px]" title={q.options?.join(', ')}>({q.options?.join(', ')})</span>
                                             </div>
                                         </div>
                                         <span className={`text-[9px] font-black uppercase px-2 py-1 rounded ${q.type === 'THEORY' ? 'bg-purple-100 text-purple-700' :
                                             q.type === 'SBA' ? 'bg-emerald-100 text-emerald-700' :
-                                                'bg-blue-100 text-blue-700'
+                                                q.type === 'MRQ' ? 'bg-amber-100 text-amber-700' :
+                                                    q.type === 'NUMERIC' ? 'bg-cyan-100 text-cyan-700' :
+                                                        q.type === 'SHORT_ANSWER' ? 'bg-rose-100 text-rose-700' :
+                                                            'bg-blue-100 text-blue-700'
                                             }`}>{q.type}</span>
                                     </div>
                                 </div>
@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { BlogPost, Exam, Submission, UserRole } from '../services/types';
 import { api } from '../services/api';
 import { format } from 'date-fns';
+import { getExamWindow, getWindowCountdown, formatCountdown } from '../services/examWindow';
+import { ATTEMPT_SCORING_LABELS, getCountedScore } from '../services/attempts';
 
 interface CandidatePortalProps {
     announcements: BlogPost[];
@@ -14,11 +16,18 @@ interface CandidatePortalProps {
 const CandidatePortal: React.FC<CandidatePortalProps> = ({ announcements, onTakeExam, onViewDetails, activeTab, onTabChange }) => {
     const [availableExams, setAvailableExams] = useState<Exam[]>([]);
     const [history, setHistory] = useState<Submission[]>([]);
+    const [now, setNow] = useState(Date.now());
 
     useEffect(() => {
         loadData();
     }, []);
 
+    // Drives the opening / closing countdowns on exam cards
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
     const loadData = async () => {
         // Fetch Available Exams
         try {
@@ -39,6 +48,21 @@ const CandidatePortal: React.FC<CandidatePortalProps> = ({ announcements, onTake
         }
     };
 
+    // Attempts grouped per exam (history arrives newest first, so groups keep that order)
+    const historyGroups = useMemo(() => {
+        const groups = new Map<string, Submission[]>();
+        history.forEach(sub => groups.set(sub.examId, [...(groups.get(sub.examId) || []), sub]));
+        return Array.from(groups.values());
+    }, [history]);
+
+    const getCountedDisplay = (attempts: Submission[]) => {
+        const exam = attempts[0].exam;
+        // Only released results are shown, so the counted score is over those
+        const counted = getCountedScore(exam?.attemptScoring, attempts.filter(a => a.resultsReleased));
+        if (!counted) return <span className="text-amber-600 italic">Result Pending</span>;
+        return getResultDisplay({ ...counted.attempt, score: Math.round(counted.score * 100) / 100 });
+    };
+
     const getResultDisplay = (sub: Submission) => {
         // Logic for "Submitted" vs "Score" based on release settings
         if (sub.resultsReleased) {
@@ -100,12 +124,37 @@ const CandidatePortal: React.FC<CandidatePortalProps> = ({ announcements, onTake
                 {activeTab === 'available' ? (
                     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
                         {(!availableExams || availableExams.length === 0) && <p className="text-slate-500 col-span-full text-center py-10">No exams available at this time.</p>}
-                        {Array.isArray(availableExams) && availableExams.map(exam => (
+                        {Array.isArray(availableExams) && availableExams.map(exam => {
+                            const { status } = getExamWindow(exam, now);
+                            const attempts = exam.attemptStatus;
+                            const inProgress = !!attempts?.inProgress;
+                            const cooldownLeft = attempts?.nextAttemptAt ? attempts.nextAttemptAt - now : 0;
+                            const countdown = cooldownLeft > 0 && !inProgress ? `Next attempt in ${formatCountdown(cooldownLeft)}` : getWindowCountdown(exam, now);
+                            const canStart = inProgress || (status === 'Available' && cooldownLeft <= 0);
+                            return (
                             <div key={exam.id} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 hover:shadow-md transition-shadow">
                                 <div className="flex justify-between items-start mb-4">
                                     <span className="px-2 py-1 text-xs font-semibold rounded bg-indigo-100 text-indigo-700">{exam.category || 'General'}</span>
                                     <span className="text-xs text-slate-400">{exam.durationMinutes} mins</span>
                                 </div>
+                                {exam.requiresAccessCode && !inProgress && (
+                                    <p className="mb-2 text-xs font-bold text-indigo-600">🔑 Start code required from your invigilator</p>
+                                )}
+                                {exam.lockdownMode && (
+                                    <p className="mb-2 text-xs font-bold text-slate-600 dark:text-slate-300">🔒 Lockdown: fullscreen required</p>
+                                )}
+                                {attempts && attempts.max !== 1 && (
+                                    <p className="mb-2 text-xs text-slate-500">
+                                        {inProgress ? 'Attempt in progress' : `Attempt ${attempts.used + 1}${attempts.max !== null ? ` of ${attempts.max}` : ''}`}
+                                        {exam.attemptScoring && ` · ${ATTEMPT_SCORING_LABELS[exam.attemptScoring]} counts`}
+                                    </p>
+                                )}
+                                {(countdown || exam.fixedStart) && (
+                                    <div className={`mb-3 text-xs font-bold ${status === 'Upcoming' ? 'text-amber-600' : 'text-slate-500'}`}>
+                                        {countdown}
+                                        {exam.fixedStart && status === 'Upcoming' && <span className="block font-normal text-slate-400">Fixed start: everyone begins together{exam.lateEntryMinutes != null ? `, entry up to ${exam.lateEntryMinutes} min late` : ''}.</span>}
+                                    </div>
+                                )}
                                 <h3 className="text-xl font-bold mb-2">{exam.title}</h3>
                                 <p className="text-sm text-slate-500 mb-4 line-clamp-2">{exam.description || "No description provided."}</p>
                                 <div className="mt-4 space-y-3">
@@ -121,13 +170,15 @@ const CandidatePortal: React.FC<CandidatePortalProps> = ({ announcements, onTake
                                     )}
                                     <button
                                         onClick={() => onTakeExam(exam)}
-                                        className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded font-medium transition-colors"
+                                        disabled={!canStart}
+                                        className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                                     >
-                                        Start Exam
+                                        {inProgress ? 'Resume Exam' : status === 'Upcoming' ? 'Not Open Yet' : status === 'Closed' ? 'Entry Closed' : cooldownLeft > 0 ? 'Cooling Down' : 'Start Exam'}
                                     </button>
                                 </div>
                             </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 ) : (
                     <div className="bg-white dark:bg-slate-800 rounded-lg shadow overflow-hidden">
@@ -142,16 +193,35 @@ const CandidatePortal: React.FC<CandidatePortalProps> = ({ announcements, onTake
                                     </tr>
                                 </thead>
                                 <tbody>
-                                    {Array.isArray(history) && history.map(sub => (
-                                        <tr key={sub.id} className="border-b border-slate-100 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                                            <td className="p-4 font-medium min-w-[200px]">{(sub.exam && sub.exam.title) || 'Unknown Exam'}</td>
-                                            <td className="p-4 text-slate-500 whitespace-nowrap">{safelyFormatDate(sub.submittedAt)}</td>
-                                            <td className="p-4 whitespace-nowrap">{getResultDisplay(sub)}</td>
-                                            <td className="p-4 whitespace-nowrap">
-                                                {sub.resultsReleased && <button onClick={() => onViewDetails(sub)} className="text-indigo-600 hover:underline text-sm font-bold">View Details</button>}
-                                            </td>
-                                        </tr>
-                                    ))}
+                                    {historyGroups.map(attempts => {
+                                        const latest = attempts[0];
+                                        const multiple = attempts.length > 1;
+                                        return (
+                                            <React.Fragment key={latest.examId}>
+                                                <tr className="border-b border-slate-100 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                                                    <td className="p-4 font-medium min-w-[200px]">
+                                                        {(latest.exam && latest.exam.title) || 'Unknown Exam'}
+                                                        {multiple && <span className="block text-xs text-slate-400 font-normal">{attempts.length} attempts · {ATTEMPT_SCORING_LABELS[latest.exam?.attemptScoring || 'BEST']} counts</span>}
+                                                    </td>
+                                                    <td className="p-4 text-slate-500 whitespace-nowrap">{safelyFormatDate(latest.submittedAt)}</td>
+                                                    <td className="p-4 whitespace-nowrap">{multiple ? getCountedDisplay(attempts) : getResultDisplay(latest)}</td>
+                                                    <td className="p-4 whitespace-nowrap">
+                                                        {!multiple && latest.resultsReleased && <button onClick={() => onViewDetails(latest)} className="text-indigo-600 hover:underline text-sm font-bold">View Details</button>}
+                                                    </td>
+                                                </tr>
+                                                {multiple && attempts.map((sub, i) => (
+                                                    <tr key={sub.id} className="border-b border-slate-100 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/30 text-sm">
+                                                        <td className="py-2 px-4 pl-10 text-slate-500">Attempt {attempts.length - i}</td>
+                                                        <td className="py-2 px-4 text-slate-500 whitespace-nowrap">{safelyFormatDate(sub.submittedAt)}</td>
+                                                        <td className="py-2 px-4 whitespace-nowrap">{getResultDisplay(sub)}</td>
+                                                        <td className="py-2 px-4 whitespace-nowrap">
+                                                            {sub.resultsReleased && <button onClick={() => onViewDetails(sub)} className="text-indigo-600 hover:underline text-sm font-bold">View Details</button>}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </React.Fragment>
+                                        );
+                                    })}
                                 </tbody>
                             </table>
                         </div>
@@ -1,21 +1,48 @@
 
-import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Exam, Submission, QuestionType, Question } from '../services/types';
-import { logEvent, enforceSecureEnvironment } from '../services/securityService';
-import { initializeProctoring, stopProctoring, ProctoringState } from '../services/proctoringService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Exam, Submission, QuestionType, Question, AnswerValue, ProctoringEventType, QuestionAttachment, MediaPlayEventType } from '../services/types';
+import { logEvent, enforceSecureEnvironment, exitExamFullscreen, hasMultipleScreens, isDevtoolsLikelyOpen, isFullscreen, requestExamFullscreen } from '../services/securityService';
+import { initializeProctoring, stopProctoring, ProctoringState, reportProctoringEvent, flushProctoringEvents, startPresenceMonitor } from '../services/proctoringService';
+import { clearJournal, writeJournal } from '../services/answerJournal';
+import { richTextToPlain } from '../services/richText';
+import RichText from './RichText';
+import RichTextEditor from './RichTextEditor';
+import MediaStimulus from './MediaStimulus';
 
 interface ExamInterfaceProps {
   exam: Exam;
   studentId: string;
   submissionId?: string;
-  initialAnswers?: Record<string, string>;
+  initialAnswers?: Record<string, AnswerValue>;
   initialStartTime?: number;
-  onSubmit: (submission: Partial<Submission>) => void;
+  initialDeadline?: number; // Server-computed; includes extensions but not the grace period
+  serverNow?: number;
+  initialOnBreak?: boolean;
+  initialBreakSecondsLeft?: number; // Rest break allowance (accommodation)
+  initialSectionIndex?: number; // Sectioned exams: the section the server has the candidate on
+  initialSectionDeadline?: number | null;
+  initialDraftSeq?: number; // Journal sequence of initialAnswers
+  initialFlags?: string[]; // Questions flagged for review, saved with the draft
+  initialMediaPlays?: Record<string, number>; // Plays used per audio/video clip
+  pendingSubmitKey?: string; // A hand-in journaled offline that the server has not confirmed
+  onSubmit: (submission: Partial<Submission> & { submitKey?: string }) => Promise<void>;
   onCancel: () => void;
   isAdminPreview?: boolean;
 }
 
-import { api } from '../services/api'; // Ensure api import is present
+import { api, AttemptClockState } from '../services/api'; // Ensure api import is present
+
+// Resolves once the browser reports a connection again
+const waitForOnline = () => new Promise<void>(resolve => {
+  if (navigator.onLine) return resolve();
+  window.addEventListener('online', () => resolve(), { once: true });
+});
+
+// In lockdown mode these count towards Exam.lockdownMaxViolations (every incident is still reported)
+const LOCKDOWN_VIOLATIONS: ProctoringEventType[] = ['TAB_HIDDEN', 'FULLSCREEN_EXIT', 'MULTIPLE_SCREENS', 'DEVTOOLS_OPEN'];
+// One action can trip several checks (switching tabs in fullscreen fires TAB_HIDDEN and FULLSCREEN_EXIT);
+// violations this close together count once
+const VIOLATION_MERGE_MS = 1500;
 
 const ExamInterface: React.FC<ExamInterfaceProps> = ({
   exam,
@@ -23,77 +50,287 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
   submissionId,
   initialAnswers = {},
   initialStartTime,
+  initialDeadline,
+  serverNow,
+  initialOnBreak = false,
+  initialBreakSecondsLeft = 0,
+  initialSectionIndex = 0,
+  initialSectionDeadline = null,
+  initialDraftSeq = 0,
+  initialFlags = [],
+  initialMediaPlays = {},
+  pendingSubmitKey,
   onSubmit,
   onCancel,
   isAdminPreview = false
 }) => {
-  const [answers, setAnswers] = useState<Record<string, string>>(initialAnswers);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>(initialAnswers);
+  const [flagged, setFlagged] = useState<string[]>(initialFlags);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const toggleFlag = (questionId: string) =>
+    setFlagged(prev => prev.includes(questionId) ? prev.filter(id => id !== questionId) : [...prev, questionId]);
+
+  // Audio/video play limits: the server has the last word when it can be reached; offline, the local count stands
+  const [mediaPlays, setMediaPlays] = useState<Record<string, number>>(initialMediaPlays);
+  const mediaPlaysRef = useRef(initialMediaPlays);
+  const setPlays = (attachmentId: string, plays: number) => {
+    mediaPlaysRef.current = { ...mediaPlaysRef.current, [attachmentId]: plays };
+    setMediaPlays(mediaPlaysRef.current);
+    if (submissionId && !isAdminPreview) writeJournal(submissionId, { mediaPlays: mediaPlaysRef.current });
+  };
+
+  const handleMediaEvent = async (questionId: string, attachment: QuestionAttachment, type: MediaPlayEventType) => {
+    const used = mediaPlaysRef.current[attachment.id] || 0;
+    const maxPlays = attachment.playback?.maxPlays ?? null;
+    const isPlay = type === 'PLAY';
+    if (isPlay && maxPlays !== null && used >= maxPlays) return false;
+
+    if (!submissionId || isAdminPreview) {
+      if (isPlay) setPlays(attachment.id, used + 1);
+      return true;
+    }
+    try {
+      const res = await api.submissions.mediaEvent(submissionId, questionId, attachment.id, type);
+      if (isPlay) setPlays(attachment.id, Math.max(res.plays, used + 1));
+      return true;
+    } catch (e) {
+      if (e instanceof TypeError || !navigator.onLine) {
+        if (isPlay) setPlays(attachment.id, used + 1);
+        return true;
+      }
+      // Refused: the limit was already used up (e.g. on another device)
+      if (isPlay) setPlays(attachment.id, maxPlays ?? used);
+      return !isPlay;
+    }
+  };
+
+  // MRQ answers are arrays; an emptied selection counts as unanswered
+  const isAnswered = (value?: AnswerValue) => Array.isArray(value) ? value.length > 0 : !!value;
+  const answeredCount = Object.values(answers).filter(isAnswered).length;
+
+  const toggleMultiAnswer = (questionId: string, opt: string) => {
+    const current = Array.isArray(answers[questionId]) ? answers[questionId] as string[] : [];
+    const next = current.includes(opt) ? current.filter(a => a !== opt) : [...current, opt];
+    setAnswers({ ...answers, [questionId]: next });
+  };
   const [currentIndex, setCurrentIndex] = useState(0);
   const [proctorAlerts, setProctorAlerts] = useState<number>(0);
   const [proctorState, setProctorState] = useState<ProctoringState | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  const randomizedExamData = useMemo(() => {
-    if (!exam || !exam.questions || !Array.isArray(exam.questions)) {
-      return { ...exam, questions: [] };
-    }
-    function shuffle<T>(array: T[]): T[] {
-      const arr = [...array];
-      for (let i = arr.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [arr[i], arr[j]] = [arr[j], arr[i]];
+  // Question and option order are fixed per submission by the server, so a resumed attempt looks identical
+  const examQuestions: Question[] = (exam && Array.isArray(exam.questions)) ? exam.questions : [];
+
+  // Sections arrive with this paper's questions in the order shown; any other layout runs as a flat exam
+  const sections = exam.sections || [];
+  const sectionRanges = (() => {
+    let start = 0;
+    const ranges = sections.map(s => ({ start, end: start += s.questionIds.length }));
+    const matches = ranges.every((r, i) => examQuestions.slice(r.start, r.end).every(q => sections[i].questionIds.includes(q.id)));
+    return sections.length > 0 && start === examQuestions.length && matches ? ranges : null;
+  })();
+  const [sectionIndex, setSectionIndex] = useState(initialSectionIndex);
+  const sectionIndexRef = useRef(initialSectionIndex);
+  const sectionSyncRef = useRef(initialSectionIndex); // Last section index the server confirmed
+  const sectionDeadlineRef = useRef<number | null>(initialSectionDeadline);
+  const isSectionPending = useRef(false);
+  const sectionOf = (idx: number) => sectionRanges ? sectionRanges.findIndex(r => idx >= r.start && idx < r.end) : 0;
+  // Earlier sections close for good if they were locked or timed; later ones open in turn
+  const isSectionClosed = (i: number) => i < sectionIndex && (!!sections[i].locked || !!sections[i].timeLimitMinutes);
+  const canVisit = (idx: number) => !sectionRanges || (sectionOf(idx) <= sectionIndex && !isSectionClosed(sectionOf(idx)));
+
+  // The server owns the deadline; locally we only correct for the gap between its clock and ours
+  const deadlineRef = useRef<number>(initialDeadline ?? ((initialStartTime || Date.now()) + (exam?.durationMinutes || 0) * 60 * 1000));
+  const clockOffsetRef = useRef<number>(serverNow ? serverNow - Date.now() : 0);
+  const calculateTimeLeft = () => Math.max(0, Math.ceil((deadlineRef.current - (Date.now() + clockOffsetRef.current)) / 1000));
+
+  const [timeLeft, setTimeLeft] = useState(calculateTimeLeft());
+  const [onBreak, setOnBreak] = useState(initialOnBreak);
+  const [breakSecondsLeft, setBreakSecondsLeft] = useState(initialBreakSecondsLeft);
+  const isBreakPending = useRef(false);
+
+  const applyClock = (clock: AttemptClockState) => {
+    deadlineRef.current = clock.deadline;
+    clockOffsetRef.current = clock.serverNow - Date.now();
+    setOnBreak(clock.onBreak);
+    setBreakSecondsLeft(clock.breakSecondsLeft);
+    setTimeLeft(calculateTimeLeft());
+    if (clock.sectionIndex !== undefined) {
+      sectionSyncRef.current = clock.sectionIndex;
+      // A section moved on while offline stands until the server has caught up
+      if (clock.sectionIndex >= sectionIndexRef.current) {
+        sectionIndexRef.current = clock.sectionIndex;
+        sectionDeadlineRef.current = clock.sectionDeadline ?? null;
+        setSectionIndex(clock.sectionIndex);
       }
-      return arr;
     }
-    const questions = shuffle(exam.questions).map((q: Question) => ({
-      ...q,
-      options: q.options ? shuffle<string>(q.options) : undefined
-    }));
-    return { ...exam, questions };
-  }, [exam]);
-
-  const calculateInitialTime = () => {
-    if (!exam) return 0;
-    const now = Date.now();
-    const start = initialStartTime || now;
-    // Safe access to timerSettings
-    const grace = (exam.timerSettings && exam.timerSettings.gracePeriodSeconds) || 0;
-    const duration = (exam.durationMinutes || 0) * 60;
-
-    // Simple duration based timer
-    const expiry = start + (duration + grace) * 1000;
-    return Math.max(0, Math.floor((expiry - now) / 1000));
+    journalClock(clock.breakSecondsLeft);
   };
 
-  const [timeLeft, setTimeLeft] = useState(calculateInitialTime());
+  // A reload while offline restores the timer from here
+  const journalClock = (breakSeconds: number) => {
+    if (!submissionId || isAdminPreview) return;
+    writeJournal(submissionId, {
+      clock: {
+        deadline: deadlineRef.current,
+        clockOffset: clockOffsetRef.current,
+        breakSecondsLeft: breakSeconds,
+        sectionIndex: sectionIndexRef.current,
+        sectionDeadline: sectionDeadlineRef.current
+      }
+    });
+  };
 
-  // Sync timeLeft if exam duration changes or initialStartTime updates
-  useEffect(() => {
-    if (isNaN(timeLeft)) setTimeLeft(calculateInitialTime());
-  }, [timeLeft]);
+  const toggleBreak = async (start: boolean) => {
+    if (!submissionId || isBreakPending.current) return;
+    isBreakPending.current = true;
+    try {
+      applyClock(start ? await api.submissions.startBreak(submissionId) : await api.submissions.endBreak(submissionId));
+    } catch (e: any) {
+      alert(e.message || 'Could not update your break.');
+    } finally {
+      isBreakPending.current = false;
+    }
+  };
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const isSubmittingRef = useRef(false); // For intervals, which only see the first render's state
   const hasAutoSubmitted = useRef(false);
+  const submitKeyRef = useRef(pendingSubmitKey);
+
+  // Lockdown: fullscreen is required to see the questions; violations can end the attempt
+  const isLockdown = !!exam.lockdownMode && !isAdminPreview;
+  const maxViolations = exam.lockdownMaxViolations || 0;
+  const [lockdownStarted, setLockdownStarted] = useState(false);
+  const lockdownStartedRef = useRef(false);
+  const [inFullscreen, setInFullscreen] = useState(isFullscreen());
+  const [violations, setViolations] = useState(0);
+  const lastViolationAtRef = useRef(0);
+  const onBreakRef = useRef(onBreak);
+  useEffect(() => { onBreakRef.current = onBreak; }, [onBreak]);
+
+  // Reviewers see every incident on the integrity report; only lockdown violations have consequences here
+  const recordIncident = (type: ProctoringEventType, extra?: { details?: string; durationMs?: number; occurredAt?: number }) => {
+    setProctorAlerts(prev => prev + 1);
+    if (submissionId) reportProctoringEvent(submissionId, type, extra);
+    // Candidates on a rest break may leave the exam without penalty
+    if (isLockdown && lockdownStartedRef.current && !onBreakRef.current && LOCKDOWN_VIOLATIONS.includes(type)) {
+      const now = Date.now();
+      if (now - lastViolationAtRef.current > VIOLATION_MERGE_MS) {
+        lastViolationAtRef.current = now;
+        setViolations(prev => prev + 1);
+      }
+    }
+  };
+
+  const beginLockdown = async () => {
+    if (!await requestExamFullscreen()) {
+      alert('This exam must be taken in fullscreen. Allow fullscreen in your browser and try again.');
+      return;
+    }
+    setInFullscreen(true);
+    if (!lockdownStartedRef.current) {
+      lockdownStartedRef.current = true;
+      setLockdownStarted(true);
+      if (hasMultipleScreens()) recordIncident('MULTIPLE_SCREENS', { details: 'Extra display attached at start' });
+    }
+  };
+
+  useEffect(() => {
+    if (!isLockdown) return;
+    const handleFullscreenState = () => setInFullscreen(isFullscreen());
+
+    // Only checked in fullscreen, where the browser's own toolbars are out of the way
+    let devtoolsOpen = false;
+    const devtoolsCheck = setInterval(() => {
+      if (!lockdownStartedRef.current || !isFullscreen()) return;
+      const open = isDevtoolsLikelyOpen();
+      if (open && !devtoolsOpen) recordIncident('DEVTOOLS_OPEN');
+      devtoolsOpen = open;
+    }, 2000);
+
+    // Chromium fires 'change' on window.screen when displays are attached or removed
+    const screenEvents = window.screen as unknown as EventTarget;
+    const handleScreens = () => {
+      if (lockdownStartedRef.current && hasMultipleScreens()) recordIncident('MULTIPLE_SCREENS', { details: 'Display attached during the exam' });
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenState);
+    if ('onchange' in window.screen) screenEvents.addEventListener('change', handleScreens);
+
+    return () => {
+      clearInterval(devtoolsCheck);
+      document.removeEventListener('fullscreenchange', handleFullscreenState);
+      if ('onchange' in window.screen) screenEvents.removeEventListener('change', handleScreens);
+      exitExamFullscreen();
+    };
+  }, [isLockdown]);
 
   useEffect(() => {
     if (isAdminPreview) return;
 
-    // Removed Auto-Submit on Blur (User Request)
-    // const handleBlur = () => { ... };
-    // window.addEventListener('blur', handleBlur);
+    // Blur no longer auto-submits (User Request); it is only recorded below
 
     enforceSecureEnvironment(true);
 
+    const handleVisibility = () => {
+      if (document.hidden) recordIncident('TAB_HIDDEN');
+    };
+    // Switching tabs also blurs the window; only count focus moving to another window or app
+    const handleBlur = () => {
+      setTimeout(() => {
+        if (!document.hidden) recordIncident('WINDOW_BLUR');
+      }, 200);
+    };
+    const handleFullscreen = () => {
+      if (!document.fullscreenElement) recordIncident('FULLSCREEN_EXIT');
+    };
+    const handleClipboard = (e: ClipboardEvent) => recordIncident('COPY_PASTE', { details: e.type });
+
+    let offlineSince: number | null = null;
+    const handleOffline = () => { offlineSince = Date.now(); };
+    const handleOnline = () => {
+      if (offlineSince !== null) {
+        recordIncident('CONNECTION_LOST', { occurredAt: offlineSince, durationMs: Date.now() - offlineSince });
+        offlineSince = null;
+      }
+      if (submissionId) flushProctoringEvents(submissionId);
+      syncDraft();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('fullscreenchange', handleFullscreen);
+    document.addEventListener('copy', handleClipboard);
+    document.addEventListener('cut', handleClipboard);
+    document.addEventListener('paste', handleClipboard);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+
     // Initialize Proctoring
     initializeProctoring().then(state => {
       setProctorState(state);
+      if (!state.hasCamera) recordIncident('CAMERA_DENIED');
     });
 
     return () => {
-      // window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('fullscreenchange', handleFullscreen);
+      document.removeEventListener('copy', handleClipboard);
+      document.removeEventListener('cut', handleClipboard);
+      document.removeEventListener('paste', handleClipboard);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
       enforceSecureEnvironment(false);
       if (proctorState) stopProctoring(proctorState);
     };
-  }, [isAdminPreview]);
+  }, [isAdminPreview, submissionId]);
+
+  // On-device face presence checks; events and stills go to the integrity report
+  useEffect(() => {
+    if (isAdminPreview || !submissionId || !proctorState?.activeStream) return;
+    return startPresenceMonitor(proctorState.activeStream, submissionId, () => setProctorAlerts(prev => prev + 1));
+  }, [proctorState, submissionId, isAdminPreview]);
 
   // Fix Camera Stream Attachment (Race Condition)
   useEffect(() => {
@@ -102,67 +339,109 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
     }
   }, [proctorState, videoRef.current]);
 
-  // Polling for Duration Updates (Dynamic Time Extension)
+  // Poll the server clock so extensions granted mid-exam reach the candidate
   useEffect(() => {
+    if (!submissionId || isAdminPreview) return;
     const interval = setInterval(async () => {
       try {
-        const updatedExam = await api.exams.get(exam.id);
-        if (updatedExam.durationMinutes > exam.durationMinutes) {
-          const addedMinutes = updatedExam.durationMinutes - exam.durationMinutes;
-          setTimeLeft(prev => prev + (addedMinutes * 60));
-          exam.durationMinutes = updatedExam.durationMinutes;
+        const clock = await api.submissions.timer(submissionId);
+        if (clock.submitted) {
+          // Handed in from the invigilation view (force-submit / terminate)
+          if (!isSubmittingRef.current) {
+            isSubmittingRef.current = true;
+            clearJournal(submissionId);
+            alert('Your invigilator has ended this attempt. Your last saved answers were submitted.');
+            onCancel();
+          }
+          return;
         }
+        applyClock(clock);
       } catch (e) { /* Silent fail */ }
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [exam.id, exam]);
+  }, [submissionId, isAdminPreview]);
 
-  // Auto-Save Logic
+  // Auto-Save Logic: every change goes to the local journal, the server gets a draft every 30s
   const answersRef = useRef(answers);
-  useEffect(() => { answersRef.current = answers; }, [answers]);
+  const flaggedRef = useRef(flagged);
+  const draftSeqRef = useRef(initialDraftSeq);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  useEffect(() => {
+    if (answersRef.current === answers && flaggedRef.current === flagged) return; // Nothing changed yet (first render)
+    answersRef.current = answers;
+    flaggedRef.current = flagged;
+    draftSeqRef.current++;
+    if (submissionId && !isAdminPreview) writeJournal(submissionId, { answers, flags: flagged, seq: draftSeqRef.current });
+  }, [answers, flagged]);
+
+  // Sections moved on while offline are replayed first, or the server would drop their answers
+  const catchUpSections = async () => {
+    while (submissionId && sectionSyncRef.current < sectionIndexRef.current) {
+      const from = sectionSyncRef.current;
+      applyClock(await api.submissions.nextSection(submissionId, from));
+      if (sectionSyncRef.current <= from) break;
+    }
+  };
+
+  // The seq lets the server drop a replayed draft that is older than one it already has
+  const syncDraft = () => {
+    if (!submissionId || isAdminPreview || isSubmittingRef.current || !navigator.onLine) return;
+    catchUpSections()
+      .then(() => api.submissions.saveDraft(submissionId, answersRef.current, draftSeqRef.current || undefined, flaggedRef.current))
+      .catch(err => console.error("Auto-save failed", err));
+  };
 
+  // Saves even with nothing answered yet: invigilators read the save time as "still connected"
   useEffect(() => {
     if (!submissionId || isAdminPreview) return;
-    const interval = setInterval(() => {
-      if (Object.keys(answersRef.current).length > 0) {
-        api.submissions.saveDraft(submissionId, answersRef.current).catch(err => console.error("Auto-save failed", err));
-      }
-    }, 30000);
+    const interval = setInterval(syncDraft, 30000);
     return () => clearInterval(interval);
   }, [submissionId, isAdminPreview]);
 
-  // Submission Retry Logic
-  const attemptSubmission = async (payload: any, attempts = 3) => {
-    for (let i = 0; i < attempts; i++) {
-      if (!navigator.onLine) {
-        console.warn(`[Submit] Offline. Waiting to retry... (${i + 1}/${attempts})`);
-        await new Promise(r => setTimeout(r, 120000)); // Wait 2 mins
-        continue;
-      }
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
 
+  // Submission Retry Logic. Offline time does not use up attempts: the hand-in waits in the
+  // journal until the connection returns, and its submit key makes a repeated send harmless.
+  const attemptSubmission = async (payload: any, attempts = 3) => {
+    for (let i = 0; i < attempts;) {
+      await waitForOnline();
       try {
+        await catchUpSections().catch(e => console.warn('[Submit] Could not replay section moves:', e));
         await onSubmit(payload);
         return true;
       } catch (e) {
-        console.error(`[Submit] Attempt ${i + 1} failed:`, e);
+        if (e instanceof TypeError || !navigator.onLine) {
+          console.warn('[Submit] Connection lost, will retry when back online:', e);
+          await new Promise(r => setTimeout(r, 5000));
+          continue;
+        }
+        i++;
+        console.error(`[Submit] Attempt ${i} failed:`, e);
         await new Promise(r => setTimeout(r, 2000)); // Short retry delay for server errors
       }
     }
     return false;
   };
 
-  const handleSubmit = useCallback(async () => {
+  const handleSubmit = useCallback(async (force = false) => {
     if (isAdminPreview) {
       alert("This is a preview. Submission is disabled.");
       return;
     }
     if (isSubmitting) return;
 
-    const isAutoSubmit = timeLeft <= 0;
+    const isAutoSubmit = force || timeLeft <= 0;
 
     if (!isAutoSubmit) {
-      const answeredCount = Object.keys(answers).length;
       const totalQuestions = exam.questions.length;
       if (answeredCount < totalQuestions) {
         const remaining = totalQuestions - answeredCount;
@@ -171,24 +450,116 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
     }
 
     setIsSubmitting(true);
+    isSubmittingRef.current = true;
+
+    // One key per hand-in, journaled first so a reload or replay resends the same one
+    submitKeyRef.current ||= crypto.randomUUID();
+    if (submissionId) await writeJournal(submissionId, { answers, seq: draftSeqRef.current, submitKey: submitKeyRef.current });
 
     const payload = {
       examId: exam.id,
       studentId,
       answers,
-      id: submissionId
+      id: submissionId,
+      submitKey: submitKeyRef.current
     };
 
     const success = await attemptSubmission(payload);
 
-    if (!success) {
-      alert("Submission failed due to connectivity issues. Please contact an invigilator immediately.");
-      // We could flag this locally or save to localStorage for later sync
+    if (success) {
+      if (submissionId) clearJournal(submissionId);
+    } else {
+      alert("Submission failed. Your answers are saved on this device; please contact an invigilator immediately.");
+      setIsSubmitting(false);
+      isSubmittingRef.current = false;
+    }
+
+  }, [exam.id, studentId, answers, answeredCount, onSubmit, isSubmitting, exam.questions.length, timeLeft]);
+
+  // A hand-in that was journaled but never confirmed (reload or resume) goes out straight away
+  useEffect(() => {
+    if (!pendingSubmitKey || isAdminPreview || hasAutoSubmitted.current) return;
+    hasAutoSubmitted.current = true;
+    handleSubmit(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isLockdown || maxViolations <= 0 || violations < maxViolations || hasAutoSubmitted.current) return;
+    hasAutoSubmitted.current = true;
+    handleSubmit(true);
+  }, [violations, isLockdown, maxViolations, handleSubmit]);
+
+  /**
+   * Hands in the current section and opens the next. The server decides; if it cannot be reached
+   * the exam moves on locally and the move is replayed with the next draft.
+   */
+  const submitSection = async (auto = false) => {
+    if (!sectionRanges || sectionIndex >= sections.length - 1 || isSectionPending.current) return;
+    const section = sections[sectionIndex];
+    if (!auto) {
+      const range = sectionRanges[sectionIndex];
+      const unanswered = examQuestions.slice(range.start, range.end).filter(q => !isAnswered(answers[q.id])).length;
+      const warnings = [
+        unanswered > 0 ? `You have ${unanswered} unanswered questions in this section.` : '',
+        section.locked || section.timeLimitMinutes ? 'You will not be able to return to it.' : ''
+      ].filter(Boolean);
+      if (!confirm([`Submit ${section.title}?`, ...warnings].join('\n\n'))) return;
+    }
+
+    const moveOnLocally = () => {
+      const next = sections[sectionIndex + 1];
+      sectionIndexRef.current = sectionIndex + 1;
+      sectionDeadlineRef.current = next.timeLimitMinutes
+        ? Math.min(deadlineRef.current, Date.now() + clockOffsetRef.current + next.timeLimitMinutes * 60 * 1000)
+        : null;
+      setSectionIndex(sectionIndex + 1);
+      journalClock(breakSecondsLeft);
+    };
+    if (isAdminPreview || !submissionId) return moveOnLocally();
+
+    isSectionPending.current = true;
+    try {
+      applyClock(await api.submissions.nextSection(submissionId, sectionIndex, answersRef.current, draftSeqRef.current || undefined));
+    } catch (e: any) {
+      if (auto || e instanceof TypeError || !navigator.onLine) moveOnLocally();
+      else alert(e.message || 'Could not submit this section.');
+    } finally {
+      isSectionPending.current = false;
+    }
+  };
+
+  // Entering (or resuming in) a section starts at its first question
+  useEffect(() => {
+    if (sectionRanges) setCurrentIndex(sectionRanges[sectionIndex].start);
+  }, [sectionIndex]);
+
+  // Section time limit; the last section's limit ends the exam
+  const sectionTimeLeft = sectionRanges && sectionDeadlineRef.current !== null
+    ? Math.max(0, Math.ceil((sectionDeadlineRef.current - (Date.now() + clockOffsetRef.current)) / 1000))
+    : null;
+  useEffect(() => {
+    if (onBreak || isSubmitting || sectionTimeLeft === null || sectionTimeLeft > 0) return;
+    if (sectionIndex < sections.length - 1) {
+      submitSection(true);
+    } else if (!hasAutoSubmitted.current && sectionDeadlineRef.current! < deadlineRef.current) {
+      hasAutoSubmitted.current = true;
+      handleSubmit(true);
     }
+  }, [sectionTimeLeft, sectionIndex, onBreak, isSubmitting]);
 
-  }, [exam.id, studentId, answers, onSubmit, isSubmitting, exam.questions.length, timeLeft]);
+  // Rest break countdown; the exam clock is frozen meanwhile and resumes when the allowance runs out
+  useEffect(() => {
+    if (!onBreak) return;
+    if (breakSecondsLeft <= 0) {
+      toggleBreak(false);
+      return;
+    }
+    const timer = setTimeout(() => setBreakSecondsLeft(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [onBreak, breakSecondsLeft]);
 
   useEffect(() => {
+    if (onBreak) return;
     const autoSubmit = exam.timerSettings && exam.timerSettings.autoSubmitOnExpiry;
     if (timeLeft <= 0) {
       if (autoSubmit && !hasAutoSubmitted.current) {
@@ -197,11 +568,11 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
       }
       return;
     }
-    const timer = setInterval(() => setTimeLeft(prev => prev - 1), 1000);
+    const timer = setInterval(() => setTimeLeft(calculateTimeLeft()), 1000);
     return () => clearInterval(timer);
-  }, [timeLeft, handleSubmit, exam.timerSettings]);
+  }, [timeLeft, handleSubmit, exam.timerSettings, onBreak]);
 
-  if (!randomizedExamData.questions || randomizedExamData.questions.length === 0) {
+  if (!examQuestions || examQuestions.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center p-10 h-screen bg-slate-50 dark:bg-slate-900">
         <h2 className="text-xl font-bold text-slate-800 dark:text-white">Exam Setup Error</h2>
@@ -211,7 +582,7 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
     );
   }
 
-  const currentQuestion = randomizedExamData.questions[currentIndex];
+  const currentQuestion = examQuestions[currentIndex];
   if (!currentQuestion) return <div>Error loading question.</div>;
 
   const formatTime = (seconds: number) => {
@@ -223,23 +594,34 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
   const warningThreshold = (exam.warningTimeThreshold ?? 5) * 60;
   const isStressState = timeLeft < warningThreshold;
 
+  // Sectioned exams: navigation stays inside sections the candidate may still open
+  let prevIndex = currentIndex - 1;
+  while (prevIndex >= 0 && !canVisit(prevIndex)) prevIndex--;
+  const canGoNext = currentIndex < examQuestions.length - 1 && canVisit(currentIndex + 1);
+  const atSectionEnd = !!sectionRanges && sectionIndex < sections.length - 1 && currentIndex === sectionRanges[sectionIndex].end - 1;
+  const currentSection = sectionRanges ? sections[sectionOf(currentIndex)] : null;
+  const isSectionStress = sectionTimeLeft !== null && sectionTimeLeft < warningThreshold;
+
+  // Review screen: everything still unanswered or flagged before the final hand-in
+  const reviewItems = examQuestions
+    .map((q, idx) => ({ q, idx, answered: isAnswered(answers[q.id]), flagged: flagged.includes(q.id) }))
+    .filter(item => !item.answered || item.flagged);
+  const unansweredCount = reviewItems.filter(item => !item.answered).length;
+  const unopenedSections = sectionRanges ? sections.length - 1 - sectionIndex : 0;
+
   const NavigationControls = () => (
     <div className="flex justify-between items-center gap-6 w-full">
       <div className="flex gap-4">
-        <button disabled={currentIndex === 0} onClick={() => setCurrentIndex(prev => prev - 1)} className="px-6 py-3 theme-rounded font-black uppercase text-xs tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-20 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Back</button>
-        <button disabled={currentIndex === exam.questions.length - 1} onClick={() => setCurrentIndex(prev => prev + 1)} className="px-6 py-3 theme-rounded font-black uppercase text-xs tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-20 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Next</button>
+        <button disabled={prevIndex < 0} onClick={() => setCurrentIndex(prevIndex)} className="px-6 py-3 theme-rounded font-black uppercase text-xs tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-20 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Back</button>
+        {atSectionEnd ? (
+          <button onClick={() => submitSection()} className="px-6 py-3 theme-rounded font-black uppercase text-xs tracking-widest bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">Submit Section</button>
+        ) : (
+          <button disabled={!canGoNext} onClick={() => setCurrentIndex(prev => prev + 1)} className="px-6 py-3 theme-rounded font-black uppercase text-xs tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-20 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">Next</button>
+        )}
       </div>
       <button
         disabled={isAdminPreview}
-        onClick={() => {
-          const answeredCount = Object.keys(answers).length;
-          const total = exam.questions.length;
-          if (answeredCount < total) {
-            if (confirm(`Warning: You have ${total - answeredCount} unanswered questions.\n\nAre you sure you want to submit?`)) handleSubmit();
-          } else {
-            if (confirm("Confirm Final Submission?")) handleSubmit();
-          }
-        }}
+        onClick={() => setIsReviewing(true)}
         className={`px-10 py-3 theme-rounded font-black uppercase tracking-[0.2em] shadow-lg transition-all text-xs ${isAdminPreview
           ? 'bg-slate-300 text-slate-500 cursor-not-allowed opacity-50'
           : isStressState
@@ -255,26 +637,39 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
   const QuestionPalette = () => (
     <div className="bg-white dark:bg-slate-900 p-6 theme-rounded shadow-xl border border-slate-200 dark:border-slate-800 h-fit sticky top-24">
       <h3 className="font-black uppercase text-xs tracking-widest text-slate-400 mb-4">Question Map</h3>
-      <div className="grid grid-cols-5 gap-2">
-        {exam.questions.map((_, idx) => {
-          const isAnswered = answers[randomizedExamData.questions[idx].id];
-          const isCurrent = idx === currentIndex;
-          return (
-            <button
-              key={idx}
-              onClick={() => setCurrentIndex(idx)}
-              className={`w-8 h-8 rounded-lg text-xs font-bold transition-all ${isCurrent
-                ? 'bg-indigo-600 text-white shadow-lg scale-110 ring-2 ring-indigo-300'
-                : isAnswered
-                  ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400'
-                  : 'bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
-                }`}
-            >
-              {idx + 1}
-            </button>
-          );
-        })}
-      </div>
+      {(sectionRanges || [{ start: 0, end: examQuestions.length }]).map((range, s) => (
+        <div key={s} className="mb-4 last:mb-0">
+          {sectionRanges && (
+            <p className={`text-[10px] font-black uppercase tracking-widest mb-2 truncate ${s === sectionIndex ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400'}`}>
+              {sections[s].title}{isSectionClosed(s) ? ' · Closed' : s > sectionIndex ? ' · Not Open' : ''}
+            </p>
+          )}
+          <div className="grid grid-cols-5 gap-2">
+            {examQuestions.slice(range.start, range.end).map((q, offset) => {
+              const idx = range.start + offset;
+              const answered = isAnswered(answers[q.id]);
+              const isCurrent = idx === currentIndex;
+              return (
+                <button
+                  key={idx}
+                  disabled={!canVisit(idx)}
+                  onClick={() => setCurrentIndex(idx)}
+                  title={flagged.includes(q.id) ? 'Flagged for review' : undefined}
+                  className={`relative w-8 h-8 rounded-lg text-xs font-bold transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isCurrent
+                    ? 'bg-indigo-600 text-white shadow-lg scale-110 ring-2 ring-indigo-300'
+                    : answered
+                      ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400'
+                      : 'bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+                    }`}
+                >
+                  {idx + 1}
+                  {flagged.includes(q.id) && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-amber-500 ring-2 ring-white dark:ring-slate-900"></span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
       <div className="mt-6 space-y-2 text-[10px] font-bold uppercase text-slate-400">
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 rounded bg-indigo-600"></div> Current
@@ -283,7 +678,10 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
           <div className="w-3 h-3 rounded bg-emerald-100 dark:bg-emerald-900/30"></div> Answered
         </div>
         <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded bg-slate-100 dark:bg-slate-800"></div> Unseen
+          <div className="w-3 h-3 rounded bg-slate-100 dark:bg-slate-800"></div> Unanswered
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-amber-500"></div> Flagged ({flagged.length})
         </div>
       </div>
     </div>
@@ -300,6 +698,91 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
         </div>
       )}
 
+      {isLockdown && !onBreak && (!lockdownStarted || !inFullscreen) && (
+        <div className="fixed inset-0 z-[200] bg-slate-900 text-white flex flex-col items-center justify-center gap-6 p-6 text-center">
+          <p className="text-xs font-black uppercase tracking-[0.3em] text-amber-400">Lockdown Mode</p>
+          <p className="font-black text-3xl uppercase">{isSubmitting ? 'Submitting...' : lockdownStarted ? 'You Left Fullscreen' : 'Fullscreen Required'}</p>
+          <p className="text-sm text-slate-400 max-w-md">
+            {lockdownStarted
+              ? 'The questions are hidden until you return. Your exam clock is still running.'
+              : 'This exam runs in fullscreen. Leaving fullscreen, switching tabs, attaching another display or opening developer tools counts as a violation.'}
+          </p>
+          {maxViolations > 0 && (
+            <p className={`text-sm font-bold ${violations > 0 ? 'text-red-400' : 'text-slate-400'}`}>
+              Violations: {violations} of {maxViolations}. The exam is submitted automatically at {maxViolations}.
+            </p>
+          )}
+          {hasMultipleScreens() && <p className="text-sm font-bold text-amber-400">Disconnect any additional displays before continuing.</p>}
+          {!isSubmitting && (
+            <button onClick={beginLockdown} className="px-10 py-3 theme-rounded font-black uppercase tracking-[0.2em] text-xs bg-indigo-600 hover:bg-indigo-700">
+              {lockdownStarted ? 'Return to Fullscreen' : 'Enter Fullscreen & Begin'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {onBreak && (
+        <div className="fixed inset-0 z-[200] bg-slate-900 text-white flex flex-col items-center justify-center gap-6 p-6 text-center">
+          <p className="text-xs font-black uppercase tracking-[0.3em] text-emerald-400">Rest Break</p>
+          <p className="font-mono font-black text-6xl">{formatTime(Math.max(0, breakSecondsLeft))}</p>
+          <p className="text-sm text-slate-400 max-w-sm">Your exam clock is paused and the questions are hidden. It restarts automatically when your break allowance runs out.</p>
+          <button onClick={() => toggleBreak(false)} className="px-10 py-3 theme-rounded font-black uppercase tracking-[0.2em] text-xs bg-indigo-600 hover:bg-indigo-700">Resume Exam</button>
+        </div>
+      )}
+
+      {isSubmitting && !isOnline && (
+        <div className="fixed inset-0 z-[210] bg-slate-900 text-white flex flex-col items-center justify-center gap-6 p-6 text-center">
+          <p className="text-xs font-black uppercase tracking-[0.3em] text-amber-400">Waiting for Connection</p>
+          <p className="font-black text-3xl uppercase">Your Exam Is Ready to Submit</p>
+          <p className="text-sm text-slate-400 max-w-md">Your answers are saved on this device and will be submitted automatically as soon as the connection returns. Keep this page open.</p>
+        </div>
+      )}
+
+      {isReviewing && (
+        <div className="fixed inset-0 z-[150] bg-slate-900/90 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-white dark:bg-slate-900 theme-rounded shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+            <div className="p-6 border-b border-slate-100 dark:border-slate-800">
+              <h2 className="font-black uppercase tracking-tight text-xl dark:text-white">Review Before Submitting</h2>
+              <p className="text-xs font-bold uppercase tracking-widest text-slate-400 mt-1">
+                {examQuestions.length - unansweredCount} of {examQuestions.length} answered · {unansweredCount} unanswered · {flagged.length} flagged
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-2">
+              {unopenedSections > 0 && (
+                <p className="p-3 theme-rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 text-xs font-bold">
+                  {unopenedSections} section{unopenedSections === 1 ? ' has' : 's have'} not been opened yet and will be handed in blank.
+                </p>
+              )}
+              {reviewItems.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Every question is answered and none are flagged.</p>
+              ) : reviewItems.map(item => (
+                <button
+                  key={item.q.id}
+                  disabled={!canVisit(item.idx)}
+                  onClick={() => { setCurrentIndex(item.idx); setIsReviewing(false); }}
+                  className="w-full flex items-center gap-3 p-3 theme-rounded border border-slate-200 dark:border-slate-800 text-left hover:border-indigo-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  <span className="font-black text-xs text-slate-400 w-10 shrink-0">Q{item.idx + 1}</span>
+                  <span className="flex-1 truncate text-sm font-bold dark:text-slate-200">{richTextToPlain(item.q.text)}</span>
+                  {!item.answered && <span className="shrink-0 px-2 py-1 rounded text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 text-slate-500">Unanswered</span>}
+                  {item.flagged && <span className="shrink-0 px-2 py-1 rounded text-[10px] font-black uppercase bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">Flagged</span>}
+                  {!canVisit(item.idx) && <span className="shrink-0 text-[10px] font-black uppercase text-slate-400">{sectionOf(item.idx) > sectionIndex ? 'Not Open' : 'Closed'}</span>}
+                </button>
+              ))}
+            </div>
+            <div className="p-6 border-t border-slate-100 dark:border-slate-800 flex justify-between gap-4">
+              <button onClick={() => setIsReviewing(false)} className="px-6 py-3 theme-rounded font-black uppercase text-xs tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300">Keep Working</button>
+              <button
+                onClick={() => { setIsReviewing(false); handleSubmit(true); }}
+                className="px-10 py-3 theme-rounded font-black uppercase tracking-[0.2em] text-xs shadow-lg bg-slate-900 dark:bg-indigo-600 text-white"
+              >
+                Submit Exam
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Header Bar */}
       <header className="bg-white dark:bg-slate-900 shadow-sm border-b border-slate-200 dark:border-slate-800 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 md:px-6 h-16 flex justify-between items-center">
@@ -315,8 +798,33 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
             )}
             <h1 className="font-black uppercase tracking-tight text-lg truncate max-w-[200px] md:max-w-md dark:text-white">{exam.title}</h1>
           </div>
-          <div className={`hidden lg:block px-6 py-2 theme-rounded font-mono font-black text-xl transition-colors ${isStressState ? 'bg-red-600 text-white animate-pulse' : 'bg-slate-100 dark:bg-slate-800 dark:text-white'}`}>
-            {formatTime(timeLeft)}
+          <div className="flex items-center gap-3">
+            {!isAdminPreview && !isOnline && (
+              <span className="px-3 py-2 theme-rounded font-black uppercase text-[10px] tracking-widest bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                Offline · Saved on this device
+              </span>
+            )}
+            {isLockdown && violations > 0 && (
+              <span className="px-3 py-2 theme-rounded font-black uppercase text-[10px] tracking-widest bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                {maxViolations > 0 ? `Violations ${violations}/${maxViolations}` : `${violations} Violation${violations === 1 ? '' : 's'}`}
+              </span>
+            )}
+            {!isAdminPreview && submissionId && breakSecondsLeft > 0 && (
+              <button
+                onClick={() => toggleBreak(true)}
+                className="px-4 py-2 theme-rounded font-black uppercase text-[10px] tracking-widest bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400 hover:bg-emerald-100"
+              >
+                Rest Break ({formatTime(breakSecondsLeft)})
+              </button>
+            )}
+            {sectionTimeLeft !== null && (
+              <div className={`hidden lg:block px-4 py-2 theme-rounded font-mono font-black text-sm transition-colors ${isSectionStress ? 'bg-amber-500 text-white' : 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300'}`}>
+                Section {formatTime(sectionTimeLeft)}
+              </div>
+            )}
+            <div className={`hidden lg:block px-6 py-2 theme-rounded font-mono font-black text-xl transition-colors ${isStressState ? 'bg-red-600 text-white animate-pulse' : 'bg-slate-100 dark:bg-slate-800 dark:text-white'}`}>
+              {formatTime(timeLeft)}
+            </div>
           </div>
         </div>
       </header>
@@ -340,26 +848,50 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
             {/* Mobile Scrollable Palette */}
             <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide snap-x">
               {exam.questions.map((_, idx) => {
-                const isAnswered = answers[randomizedExamData.questions[idx].id];
+                const answered = isAnswered(answers[examQuestions[idx].id]);
                 const isCurrent = idx === currentIndex;
                 return (
                   <button
                     key={idx}
+                    disabled={!canVisit(idx)}
                     onClick={() => setCurrentIndex(idx)}
-                    className={`min-w-[40px] h-10 theme-rounded text-xs font-bold shrink-0 snap-center transition-all border-2 ${isCurrent
+                    className={`relative min-w-[40px] h-10 theme-rounded text-xs font-bold shrink-0 snap-center transition-all border-2 disabled:opacity-30 ${isCurrent
                       ? 'bg-indigo-600 border-indigo-600 text-white shadow-md'
-                      : isAnswered
+                      : answered
                         ? 'bg-emerald-50 border-emerald-200 text-emerald-700 dark:bg-emerald-900/20 dark:border-emerald-900 dark:text-emerald-400'
                         : 'bg-white border-slate-200 text-slate-400 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-500'
                       }`}
                   >
                     {idx + 1}
+                    {flagged.includes(examQuestions[idx].id) && <span className="absolute top-0.5 right-0.5 w-2 h-2 rounded-full bg-amber-500"></span>}
                   </button>
                 );
               })}
             </div>
           </div>
 
+          {currentSection && (
+            <div className="mb-4 p-4 md:p-6 theme-rounded bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-900 space-y-2">
+              <div className="flex justify-between items-center gap-4">
+                <p className="font-black uppercase text-sm text-indigo-700 dark:text-indigo-300">
+                  {currentSection.title}
+                  <span className="ml-2 text-[10px] tracking-widest text-indigo-400">Section {sectionOf(currentIndex) + 1} of {sections.length}</span>
+                </p>
+                {sectionTimeLeft !== null && sectionOf(currentIndex) === sectionIndex && (
+                  <span className={`lg:hidden px-3 py-1 theme-rounded font-mono font-black text-xs ${isSectionStress ? 'bg-amber-500 text-white' : 'bg-white dark:bg-slate-900 text-indigo-700 dark:text-indigo-300'}`}>
+                    {formatTime(sectionTimeLeft)}
+                  </span>
+                )}
+              </div>
+              {currentSection.instructions && <p className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-line">{currentSection.instructions}</p>}
+              {(currentSection.locked || !!currentSection.timeLimitMinutes) && sectionOf(currentIndex) === sectionIndex && sectionIndex < sections.length - 1 && (
+                <p className="text-[10px] font-black uppercase tracking-widest text-amber-600 dark:text-amber-400">
+                  {currentSection.timeLimitMinutes ? `${currentSection.timeLimitMinutes} minute limit · ` : ''}No going back once this section is submitted
+                </p>
+              )}
+            </div>
+          )}
+
           <div className={`bg-white dark:bg-slate-900 theme-rounded shadow-2xl overflow-hidden border-4 transition-all duration-700 ${isStressState ? 'border-red-500' : 'border-transparent'}`}>
 
             {/* Top Navigation - Desktop Only */}
@@ -369,9 +901,18 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
             </div>
 
             <div className="p-6 md:p-12 space-y-8 min-h-[400px]">
-              <h3 className="font-black uppercase tracking-tight leading-snug text-xl md:text-3xl text-slate-800 dark:text-slate-100">
-                {currentQuestion.text}
-              </h3>
+              <div className="flex justify-end -mb-4">
+                <button
+                  onClick={() => toggleFlag(currentQuestion.id)}
+                  className={`px-4 py-2 theme-rounded font-black uppercase text-[10px] tracking-widest transition-colors ${flagged.includes(currentQuestion.id)
+                    ? 'bg-amber-500 text-white'
+                    : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 hover:bg-amber-50 hover:text-amber-700'
+                    }`}
+                >
+                  {flagged.includes(currentQuestion.id) ? '⚑ Flagged' : '⚐ Flag for Review'}
+                </button>
+              </div>
+              <RichText value={currentQuestion.text} className="font-black uppercase tracking-tight leading-snug text-xl md:text-3xl text-slate-800 dark:text-slate-100" />
 
               {currentQuestion.imageUrl && (
                 <div className="flex justify-center my-6">
@@ -379,30 +920,72 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
                 </div>
               )}
 
+              {!!currentQuestion.attachments?.length && (
+                <div className="space-y-4 my-6">
+                  {currentQuestion.attachments.map(attachment => (
+                    <MediaStimulus
+                      key={`${currentQuestion.id}-${attachment.id}`}
+                      attachment={attachment}
+                      plays={mediaPlays[attachment.id] || 0}
+                      onPlayEvent={type => handleMediaEvent(currentQuestion.id, attachment, type)}
+                    />
+                  ))}
+                </div>
+              )}
+
               <div className="space-y-3">
                 {currentQuestion.type === QuestionType.THEORY ? (
-                  <textarea
-                    className="w-full h-64 p-6 theme-rounded outline-none font-bold border-2 border-slate-200 dark:bg-slate-950 dark:border-slate-800 dark:text-slate-200 focus:border-indigo-500 transition-all text-base md:text-lg"
+                  <RichTextEditor
+                    key={currentQuestion.id}
+                    className="text-base md:text-lg [&_.rich-text-editor]:min-h-[16rem]"
                     placeholder="Type your answer..."
-                    value={answers[currentQuestion.id] || ''}
+                    allowPaste={false}
+                    value={(answers[currentQuestion.id] as string) || ''}
+                    onChange={value => setAnswers(prev => ({ ...prev, [currentQuestion.id]: value }))}
+                  />
+                ) : currentQuestion.type === QuestionType.SHORT_ANSWER ? (
+                  <input
+                    type="text"
+                    autoComplete="off"
+                    className="w-full p-4 theme-rounded outline-none font-bold border-2 border-slate-200 dark:bg-slate-950 dark:border-slate-800 dark:text-slate-200 focus:border-indigo-500 transition-all text-base md:text-lg"
+                    placeholder="Type a short answer..."
+                    value={(answers[currentQuestion.id] as string) || ''}
                     onChange={e => setAnswers({ ...answers, [currentQuestion.id]: e.target.value })}
                   />
+                ) : currentQuestion.type === QuestionType.NUMERIC ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      autoComplete="off"
+                      className="w-full md:w-1/2 p-4 theme-rounded outline-none font-mono font-bold border-2 border-slate-200 dark:bg-slate-950 dark:border-slate-800 dark:text-slate-200 focus:border-indigo-500 transition-all text-lg md:text-xl"
+                      placeholder="e.g. 9.81"
+                      value={(answers[currentQuestion.id] as string) || ''}
+                      onChange={e => setAnswers({ ...answers, [currentQuestion.id]: e.target.value })}
+                    />
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Enter a number. Include units after the value if the question asks for them.</p>
+                  </div>
                 ) : (
                   <div className="grid grid-cols-1 gap-3">
+                    {currentQuestion.type === QuestionType.MRQ && (
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Select all that apply</p>
+                    )}
                     {currentQuestion.options?.map((opt, idx) => {
                       const letter = String.fromCharCode(65 + idx);
-                      const isSelected = answers[currentQuestion.id] === opt;
+                      const current = answers[currentQuestion.id];
+                      const isMulti = currentQuestion.type === QuestionType.MRQ;
+                      const isSelected = isMulti ? Array.isArray(current) && current.includes(opt) : current === opt;
                       return (
                         <button
                           key={idx}
-                          onClick={() => setAnswers({ ...answers, [currentQuestion.id]: opt })}
+                          onClick={() => isMulti ? toggleMultiAnswer(currentQuestion.id, opt) : setAnswers({ ...answers, [currentQuestion.id]: opt })}
                           className={`w-full flex items-center gap-4 p-4 theme-rounded border-2 transition-all text-left ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white shadow-md' : 'border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-950 hover:border-indigo-200'
                             }`}
                         >
                           <div className={`w-8 h-8 rounded-lg flex items-center justify-center font-black text-sm shrink-0 ${isSelected ? 'bg-white text-indigo-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-400'}`}>
                             {letter}
                           </div>
-                          <span className="font-bold text-sm md:text-base dark:text-slate-300">{opt}</span>
+                          <RichText plain value={opt} className="font-bold text-sm md:text-base dark:text-slate-300" />
                         </button>
                       );
                     })
@@ -422,27 +1005,19 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({
 
       {/* Mobile Sticky Footer Actions */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 z-[60] bg-white dark:bg-slate-900 border-t border-slate-200 dark:border-slate-800 p-4 shadow-2xl flex justify-between items-center gap-4 pb-8">
-        <button disabled={currentIndex === 0} onClick={() => setCurrentIndex(prev => prev - 1)} className="p-3 theme-rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-30">
+        <button disabled={prevIndex < 0} onClick={() => setCurrentIndex(prevIndex)} className="p-3 theme-rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-30">
           <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
         </button>
 
         <button
           disabled={isAdminPreview}
-          onClick={() => {
-            const answered = Object.keys(answers).length;
-            const total = exam.questions.length;
-            if (answered < total) {
-              if (confirm(`${total - answered} unanswered questions. Submit?`)) handleSubmit();
-            } else {
-              if (confirm("Submit Exam?")) handleSubmit();
-            }
-          }}
+          onClick={() => setIsReviewing(true)}
           className={`flex-1 py-3 theme-rounded font-black uppercase text-sm shadow-lg ${isStressState ? 'bg-red-600 animate-pulse text-white' : 'bg-slate-900 dark:bg-indigo-600 text-white'}`}
         >
           {isAdminPreview ? 'Preview' : 'Submit'}
         </button>
 
-        <button disabled={currentIndex === exam.questions.length - 1} onClick={() => setCurrentIndex(prev => prev + 1)} className="p-3 theme-rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-30">
+        <button disabled={!atSectionEnd && !canGoNext} onClick={() => atSectionEnd ? submitSection() : setCurrentIndex(prev => prev + 1)} className="p-3 theme-rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 disabled:opacity-30">
           <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
         </button>
       </div>
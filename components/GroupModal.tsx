@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Group, GroupKind, User } from '../services/types';
+import { GroupInput } from '../services/api';
+
+interface GroupModalProps {
+    group?: Group | null;
+    users: User[];
+    onSave: (group: GroupInput) => Promise<void>;
+    onClose: () => void;
+}
+
+const KINDS: { value: GroupKind; label: string }[] = [
+    { value: 'CLASS', label: 'Class' },
+    { value: 'COHORT', label: 'Cohort' },
+    { value: 'DEPARTMENT', label: 'Department' }
+];
+
+/**
+ * Creates or edits a group and its members. Existing members stay listed even if they
+ * are not in the loaded user page.
+ */
+const GroupModal: React.FC<GroupModalProps> = ({ group, users, onSave, onClose }) => {
+    const [name, setName] = useState(group?.name || '');
+    const [kind, setKind] = useState<GroupKind>(group?.kind || 'CLASS');
+    const [description, setDescription] = useState(group?.description || '');
+    const [memberIds, setMemberIds] = useState<Set<string>>(new Set(group?.members.map(m => m.id) || []));
+    const [filter, setFilter] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const people = useMemo(() => {
+        const byId = new Map<string, { id: string; name: string; email: string }>();
+        group?.members.forEach(m => byId.set(m.id, m));
+        users.filter(u => u.role === 'CANDIDATE').forEach(u => byId.set(u.id, { id: u.id, name: u.name, email: u.email }));
+        const q = filter.trim().toLowerCase();
+        return Array.from(byId.values())
+            .filter(p => !q || p.name.toLowerCase().includes(q) || p.email.toLowerCase().includes(q))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }, [group, users, filter]);
+
+    const toggleMember = (id: string) => setMemberIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        setIsSaving(true);
+        try {
+            await onSave({ id: group?.id, name: name.trim(), kind, description, memberIds: Array.from(memberIds) });
+            onClose();
+        } catch (e) {
+            // The parent reports the failure; keep the form open for another try
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 theme-rounded shadow-2xl w-full max-w-lg p-8 space-y-5 max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div>
+                    <h2 className="font-black text-xl uppercase">{group ? 'Edit Group' : 'New Group'}</h2>
+                    <p className="text-xs text-slate-400">Assign exams and address announcements to its members</p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                    <input
+                        className="col-span-2 p-3 rounded-lg bg-slate-50 dark:bg-slate-950 font-bold"
+                        placeholder="Name (e.g. Year 2 Pharmacology)"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                    />
+                    <select className="p-3 rounded-lg bg-slate-50 dark:bg-slate-950 font-bold text-sm" value={kind} onChange={e => setKind(e.target.value as GroupKind)}>
+                        {KINDS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+                    </select>
+                </div>
+                <input
+                    className="w-full p-3 rounded-lg bg-slate-50 dark:bg-slate-950 text-sm"
+                    placeholder="Description (optional)"
+                    value={description}
+                    onChange={e => setDescription(e.target.value)}
+                />
+
+                <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Members ({memberIds.size})</span>
+                    <input
+                        className="p-2 rounded-lg bg-slate-50 dark:bg-slate-950 text-xs w-48"
+                        placeholder="Search candidates..."
+                        value={filter}
+                        onChange={e => setFilter(e.target.value)}
+                    />
+                </div>
+                <div className="flex-1 overflow-y-auto min-h-[120px] border border-slate-100 dark:border-slate-800 rounded-lg divide-y divide-slate-100 dark:divide-slate-800">
+                    {people.length === 0 && <p className="p-4 text-xs text-slate-400 italic">No candidates found.</p>}
+                    {people.map(p => (
+                        <label key={p.id} className="flex items-center gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                            <input type="checkbox" checked={memberIds.has(p.id)} onChange={() => toggleMember(p.id)} className="w-4 h-4 text-indigo-600 rounded" />
+                            <span className="font-bold">{p.name}</span>
+                            <span className="text-xs text-slate-400 truncate">{p.email}</span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-6 py-3 font-bold uppercase text-xs text-slate-500">Cancel</button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !name.trim()}
+                        className="bg-indigo-600 text-white px-8 py-3 rounded-xl font-bold uppercase text-xs shadow-lg disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GroupModal;
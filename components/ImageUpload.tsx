@@ -1,4 +1,5 @@
 import React, { useState, useRef } from 'react';
+import { api } from '../services/api';
 
 interface ImageUploadProps {
     label: string;
@@ -11,23 +12,24 @@ interface ImageUploadProps {
 const ImageUpload: React.FC<ImageUploadProps> = ({ label, value, onChange, placeholder, description }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [error, setError] = useState<string | null>(null);
+    const [isUploading, setIsUploading] = useState(false);
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Files go to media storage; only the returned URL is kept in the setting
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = '';
         if (!file) return;
 
-        if (file.size > 500 * 1024) { // 500KB limit
-            setError('File too large (Max 500KB). Use URL for larger images.');
-            return;
-        }
-
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const result = reader.result as string;
-            onChange(result);
+        setIsUploading(true);
+        try {
+            const uploaded = await api.media.upload(file);
+            onChange(uploaded.url);
             setError(null);
-        };
-        reader.readAsDataURL(file);
+        } catch (err: any) {
+            setError(err.message || 'Upload failed');
+        } finally {
+            setIsUploading(false);
+        }
     };
 
     return (
@@ -68,18 +70,19 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ label, value, onChange, place
                         <span className="text-[10px] font-bold uppercase text-slate-400">OR</span>
                         <button
                             onClick={() => fileInputRef.current?.click()}
+                            disabled={isUploading}
                             className="px-3 py-1 bg-slate-200 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded text-[10px] font-black uppercase hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
                         >
-                            Upload File
+                            {isUploading ? 'Uploading...' : 'Upload File'}
                         </button>
                         <input
                             type="file"
                             ref={fileInputRef}
                             className="hidden"
-                            accept="image/*"
+                            accept="image/png,image/jpeg,image/gif,image/webp"
                             onChange={handleFileChange}
                         />
-                        <span className="text-[9px] text-slate-400 italic">Max 500KB (Base64)</span>
+                        <span className="text-[9px] text-slate-400 italic">PNG, JPEG, GIF or WebP, max 5MB</span>
                     </div>
                     {error && <p className="text-red-500 text-[10px] font-bold uppercase animate-pulse">{error}</p>}
                     {description && <p className="text-[10px] text-slate-400">{description}</p>}
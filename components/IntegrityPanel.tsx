@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { IntegrityReport, ProctoringEventType } from '../services/types';
+import { api } from '../services/api';
+
+interface IntegrityPanelProps {
+    submissionId: string;
+    startedAt?: number | string; // Submission.submittedAt, when the attempt began
+}
+
+const EVENT_LABELS: Record<ProctoringEventType, string> = {
+    TAB_HIDDEN: 'Left exam tab',
+    WINDOW_BLUR: 'Window lost focus',
+    FULLSCREEN_EXIT: 'Exited fullscreen',
+    COPY_PASTE: 'Copy / paste attempt',
+    CAMERA_DENIED: 'Camera unavailable',
+    CONNECTION_LOST: 'Connection lost',
+    FACE_NOT_DETECTED: 'No face in view',
+    MULTIPLE_FACES: 'Multiple faces',
+    LOOKING_AWAY: 'Looking away',
+    MULTIPLE_SCREENS: 'Extra display',
+    DEVTOOLS_OPEN: 'Developer tools'
+};
+
+const LEVEL_STYLES: Record<IntegrityReport['level'], string> = {
+    LOW: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+    MEDIUM: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    HIGH: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const formatOffset = (ms: number) => {
+    const total = Math.max(0, Math.floor(ms / 1000));
+    return `+${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Reviewer view of an attempt's proctoring events: a risk score and the timeline behind it.
+ * The score points at attempts worth a closer look; it is not a verdict.
+ */
+const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ submissionId, startedAt }) => {
+    const [report, setReport] = useState<IntegrityReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState(false);
+    const [enlarged, setEnlarged] = useState<string | null>(null);
+
+    useEffect(() => {
+        setReport(null);
+        setError(null);
+        api.submissions.integrity(submissionId)
+            .then(setReport)
+            .catch((e: any) => setError(e.message || 'Failed to load integrity report'));
+    }, [submissionId]);
+
+    if (error) return <p className="text-xs text-red-500">{error}</p>;
+    if (!report) return <p className="text-xs text-slate-400">Loading integrity report...</p>;
+
+    const start = startedAt ? new Date(startedAt).getTime() : null;
+    const stamp = (at: string) => {
+        const ms = new Date(at).getTime();
+        return start !== null ? formatOffset(ms - start) : new Date(ms).toLocaleTimeString();
+    };
+    const flagged = (Object.keys(report.counts) as ProctoringEventType[]).filter(t => report.counts[t] > 0);
+
+    return (
+        <div className="bg-white dark:bg-slate-900 p-6 md:p-8 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800 space-y-4">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                <div className="flex items-center gap-4">
+                    <div className={`w-16 h-16 rounded-2xl flex flex-col items-center justify-center ${LEVEL_STYLES[report.level]}`}>
+                        <span className="text-2xl font-black leading-none">{report.riskScore}</span>
+                        <span className="text-[8px] font-black uppercase tracking-widest">Risk</span>
+                    </div>
+                    <div>
+                        <h4 className="font-black uppercase text-sm dark:text-white">Integrity · {report.level}</h4>
+                        <p className="text-xs text-slate-400">
+                            {report.events.length === 0 ? 'No proctoring events were recorded.' : `${report.events.length} proctoring event${report.events.length === 1 ? '' : 's'} recorded.`}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {flagged.map(t => (
+                        <span key={t} className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-3 py-1 rounded text-[10px] font-black uppercase">
+                            {EVENT_LABELS[t]} × {report.counts[t]}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {report.events.length > 0 && (
+                <>
+                    <button onClick={() => setExpanded(!expanded)} className="text-xs font-bold uppercase text-indigo-600 dark:text-indigo-400">
+                        {expanded ? 'Hide Timeline' : 'Show Timeline'}
+                    </button>
+                    {expanded && (
+                        <ol className="border-l-2 border-slate-100 dark:border-slate-800 ml-2 space-y-3">
+                            {report.events.map(e => (
+                                <li key={e.id} className="pl-4 relative text-sm">
+                                    <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-slate-300 dark:bg-slate-600"></span>
+                                    <span className="font-mono text-xs text-slate-400 mr-3">{stamp(e.occurredAt)}</span>
+                                    <span className="font-bold dark:text-white">{EVENT_LABELS[e.type]}</span>
+                                    {!!e.durationMs && <span className="text-xs text-slate-500"> · {Math.round(e.durationMs / 1000)}s</span>}
+                                    {e.details && <span className="text-xs text-slate-500"> · {e.details}</span>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </>
+            )}
+
+            {report.snapshots.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Webcam Stills ({report.snapshots.length})</p>
+                    <div className="flex gap-2 overflow-x-auto pb-2">
+                        {report.snapshots.map(s => (
+                            <button key={s.id} onClick={() => setEnlarged(s.url)} className="shrink-0 text-left">
+                                <img
+                                    src={s.url}
+                                    alt={`Webcam still at ${stamp(s.takenAt)}`}
+                                    className={`w-24 h-[72px] object-cover rounded-lg border-2 ${s.reason ? 'border-red-400' : 'border-transparent'}`}
+                                />
+                                <span className="block font-mono text-[10px] text-slate-400 mt-1">{stamp(s.takenAt)}</span>
+                                {s.reason && <span className="block text-[10px] font-bold text-red-500">{EVENT_LABELS[s.reason as ProctoringEventType] || s.reason}</span>}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {enlarged && (
+                <div className="fixed inset-0 z-[70] bg-black/80 flex items-center justify-center p-4" onClick={() => setEnlarged(null)}>
+                    <img src={enlarged} alt="Webcam still" className="w-full max-w-md rounded-xl" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default IntegrityPanel;
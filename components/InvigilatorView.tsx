@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AccessCodeDisplay, Exam, LiveAttempt } from '../services/types';
+import { api } from '../services/api';
+import { useToast } from '../services/ToastContext';
+
+interface InvigilatorViewProps {
+    exams: Exam[];
+}
+
+const LIVE_REFRESH_MS = 15000;
+
+const formatClock = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = String(seconds % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Live view of a sitting: who is in the exam right now, how far along they are, and controls
+ * to extend, hand in or end an attempt. For supervised exams it also shows the start code,
+ * large enough to project; rotating codes refresh themselves when they roll over.
+ */
+const InvigilatorView: React.FC<InvigilatorViewProps> = ({ exams }) => {
+    const { addToast } = useToast();
+    const [examId, setExamId] = useState<string>('');
+    const selectedExam = exams.find(e => e.id === examId);
+    const isCoded = !!selectedExam?.accessCodeMode && selectedExam.accessCodeMode !== 'NONE';
+    const [display, setDisplay] = useState<AccessCodeDisplay | null>(null);
+    const [attempts, setAttempts] = useState<LiveAttempt[]>([]);
+    const [lastRefresh, setLastRefresh] = useState<number | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [now, setNow] = useState(Date.now());
+    const clockOffsetRef = useRef(0); // server - client, so countdowns match the server's clock
+
+    const applyDisplay = (d: AccessCodeDisplay) => {
+        clockOffsetRef.current = d.serverNow - Date.now();
+        setDisplay(d);
+    };
+
+    const loadCode = async (id: string) => {
+        try {
+            applyDisplay(await api.exams.accessCode(id));
+        } catch (e: any) {
+            addToast(e.message || 'Failed to load start code', 'error');
+        }
+    };
+
+    const loadAttempts = async (id: string) => {
+        try {
+            const live = await api.submissions.live(id);
+            clockOffsetRef.current = live.serverNow - Date.now();
+            setAttempts(live.attempts);
+            setLastRefresh(Date.now());
+        } catch (e: any) {
+            addToast(e.message || 'Failed to load live attempts', 'error');
+        }
+    };
+
+    useEffect(() => {
+        setDisplay(null);
+        setAttempts([]);
+        setLastRefresh(null);
+        if (!examId) return;
+        if (isCoded) loadCode(examId);
+        loadAttempts(examId);
+        const poll = setInterval(() => loadAttempts(examId), LIVE_REFRESH_MS);
+        return () => clearInterval(poll);
+    }, [examId]);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Fetch the next rotating code as soon as the current one expires
+    const serverNow = now + clockOffsetRef.current;
+    const expired = !!display?.expiresAt && serverNow >= display.expiresAt;
+    useEffect(() => {
+        if (expired && examId) loadCode(examId);
+    }, [expired, examId]);
+
+    const handleRegenerate = async () => {
+        if (!examId || !confirm('Issue a new start code? The current code stops working immediately.')) return;
+        try {
+            applyDisplay(await api.exams.regenerateAccessCode(examId));
+            addToast('New start code issued', 'success');
+        } catch (e: any) {
+            addToast(e.message || 'Failed to issue a new code', 'error');
+        }
+    };
+
+    const handleExtend = async (attempt: LiveAttempt) => {
+        const input = prompt(`Extra minutes for ${attempt.user.name}:`, '10');
+        if (input === null) return;
+        const minutes = Number(input);
+        if (!Number.isInteger(minutes) || minutes < 1) {
+            addToast('Enter a whole number of minutes', 'error');
+            return;
+        }
+        setBusyId(attempt.id);
+        try {
+            await api.submissions.extendTime(attempt.id, minutes);
+            addToast(`Added ${minutes} min for ${attempt.user.name}`, 'success');
+            await loadAttempts(examId);
+        } catch (e: any) {
+            addToast(e.message || 'Failed to extend time', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleEnd = async (attempt: LiveAttempt, terminate: boolean) => {
+        let reason: string | undefined;
+        if (terminate) {
+            const input = prompt(`Terminate ${attempt.user.name}'s attempt? Their last saved answers are kept for review and results are withheld.\n\nReason:`);
+            if (input === null) return;
+            if (!input.trim()) {
+                addToast('A reason is required to terminate an attempt', 'error');
+                return;
+            }
+            reason = input.trim();
+        } else if (!confirm(`Submit ${attempt.user.name}'s attempt now? Their last saved answers will be graded.`)) {
+            return;
+        }
+
+        setBusyId(attempt.id);
+        try {
+            if (terminate) await api.submissions.terminate(attempt.id, reason!);
+            else await api.submissions.forceSubmit(attempt.id);
+            addToast(terminate ? 'Attempt terminated' : 'Attempt submitted', 'success');
+            await loadAttempts(examId);
+        } catch (e: any) {
+            addToast(e.message || 'Failed to end attempt', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const secondsLeft = display?.expiresAt ? Math.max(0, Math.ceil((display.expiresAt - serverNow) / 1000)) : null;
+
+    return (
+        <div className="px-4">
+            <div className="bg-white dark:bg-slate-900 p-10 theme-rounded shadow-sm space-y-8">
+                <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                    <div>
+                        <h2 className="font-black text-2xl uppercase">Invigilation</h2>
+                        <p className="text-xs text-slate-400">Monitor candidates sitting an exam and display its start code.</p>
+                    </div>
+                    <select className="p-3 rounded-xl bg-slate-50 dark:bg-slate-950 font-bold text-sm md:w-80" value={examId} onChange={e => setExamId(e.target.value)}>
+                        <option value="">Select an exam...</option>
+                        {exams.map(e => <option key={e.id} value={e.id}>{e.title}</option>)}
+                    </select>
+                </div>
+
+                {isCoded && display && (
+                    <div className="text-center py-12 bg-slate-950 rounded-3xl text-white space-y-4">
+                        <p className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Start Code</p>
+                        <p className="font-mono font-black text-7xl md:text-9xl tracking-[0.2em]">{display.code || '—'}</p>
+                        {secondsLeft !== null && (
+                            <p className="text-sm text-slate-400">
+                                Changes in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                            </p>
+                        )}
+                        <button onClick={handleRegenerate} className="mt-4 px-6 py-3 rounded-xl bg-white/10 hover:bg-white/20 text-xs font-bold uppercase tracking-widest transition-colors">
+                            Issue New Code
+                        </button>
+                    </div>
+                )}
+
+                {examId && (
+                    <div className="space-y-4">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-black uppercase text-sm">In Progress ({attempts.length})</h3>
+                            <div className="flex items-center gap-3 text-[10px] text-slate-400 uppercase tracking-widest font-bold">
+                                {lastRefresh && <span>Updated {new Date(lastRefresh).toLocaleTimeString()}</span>}
+                                <button onClick={() => loadAttempts(examId)} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:text-indigo-600">Refresh</button>
+                            </div>
+                        </div>
+
+                        {attempts.length === 0 ? (
+                            <p className="text-sm text-slate-400">Nobody is sitting this exam right now.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-[10px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-100 dark:border-slate-800">
+                                            <th className="py-3 pr-4">Candidate</th>
+                                            <th className="py-3 pr-4">Time Left</th>
+                                            <th className="py-3 pr-4">Answered</th>
+                                            <th className="py-3 pr-4">Last Save</th>
+                                            <th className="py-3 pr-4">Alerts</th>
+                                            <th className="py-3 text-right">Actions</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                        {attempts.map(a => {
+                                            const remaining = Math.max(0, Math.ceil((a.deadline - serverNow) / 1000));
+                                            const lastSave = a.lastDraftAt ? new Date(a.lastDraftAt).getTime() : null;
+                                            // Drafts save every 30s; two missed saves suggests a lost connection
+                                            const isStale = !a.onBreak && (lastSave === null ? serverNow - a.startedAt > 60000 : serverNow - lastSave > 90000);
+                                            return (
+                                                <tr key={a.id}>
+                                                    <td className="py-3 pr-4">
+                                                        <p className="font-bold">{a.user.name}</p>
+                                                        <p className="text-xs text-slate-400">{a.user.email}</p>
+                                                    </td>
+                                                    <td className="py-3 pr-4 font-mono font-bold">
+                                                        {a.onBreak ? <span className="text-emerald-600">On break</span> : (
+                                                            <span className={remaining === 0 ? 'text-red-500' : remaining < 300 ? 'text-amber-500' : ''}>{formatClock(remaining)}</span>
+                                                        )}
+                                                        {a.extraTimeSeconds > 0 && <span className="block text-[10px] text-slate-400 font-sans">+{Math.round(a.extraTimeSeconds / 60)} min granted</span>}
+                                                    </td>
+                                                    <td className="py-3 pr-4 font-bold">{a.answeredCount} / {a.questionCount}</td>
+                                                    <td className={`py-3 pr-4 text-xs ${isStale ? 'text-red-500 font-bold' : 'text-slate-500'}`}>
+                                                        {lastSave ? new Date(lastSave).toLocaleTimeString() : 'Not saved yet'}
+                                                    </td>
+                                                    <td className="py-3 pr-4">
+                                                        <span className={`px-2 py-1 rounded text-xs font-black ${a.proctorAlerts > 0 ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-slate-100 text-slate-400 dark:bg-slate-800'}`}>
+                                                            {a.proctorAlerts}
+                                                        </span>
+                                                    </td>
+                                                    <td className="py-3 text-right whitespace-nowrap space-x-2">
+                                                        <button disabled={busyId === a.id} onClick={() => handleExtend(a)} className="px-3 py-1.5 rounded-lg bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300 text-[10px] font-black uppercase disabled:opacity-50">Extend</button>
+                                                        <button disabled={busyId === a.id} onClick={() => handleEnd(a, false)} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase disabled:opacity-50">Submit</button>
+                                                        <button disabled={busyId === a.id} onClick={() => handleEnd(a, true)} className="px-3 py-1.5 rounded-lg bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300 text-[10px] font-black uppercase disabled:opacity-50">Terminate</button>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default InvigilatorView;
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaPlayEventType, QuestionAttachment } from '../services/types';
+
+interface MediaStimulusProps {
+    attachment: QuestionAttachment;
+    compact?: boolean; // Smaller frames for editor previews and result review
+    plays?: number; // Plays already used in this attempt
+    onPlayEvent?: (type: MediaPlayEventType) => Promise<boolean> | boolean; // Exams only; PLAY resolves false when refused
+}
+
+const formatTime = (seconds: number) => {
+    if (!Number.isFinite(seconds)) return '0:00';
+    const s = Math.floor(seconds);
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const describePlayback = (attachment: QuestionAttachment) => {
+    const playback = attachment.playback;
+    if (!playback) return '';
+    return [
+        playback.maxPlays ? `${playback.maxPlays} play${playback.maxPlays === 1 ? '' : 's'}` : 'Unlimited plays',
+        playback.allowPause ? null : 'no pausing',
+        playback.autoplay ? 'autoplay' : null
+    ].filter(Boolean).join(' · ');
+};
+
+/**
+ * The exam player for audio and video clips: no seeking, pausing only if the author allows it,
+ * and every fresh play counts against the clip's limit. Leaving the question mid-play uses up
+ * that play; a clip that autoplays only does so the first time the question opens.
+ */
+const LimitedPlayer: React.FC<Required<Pick<MediaStimulusProps, 'attachment' | 'plays' | 'onPlayEvent'>> & { compact: boolean }> = ({ attachment, plays, onPlayEvent, compact }) => {
+    const mediaRef = useRef<HTMLAudioElement & HTMLVideoElement>(null);
+    const [status, setStatus] = useState<'idle' | 'playing' | 'paused' | 'ended'>('idle');
+    const statusRef = useRef(status);
+    const [position, setPosition] = useState({ current: 0, duration: 0 });
+    const isStarting = useRef(false);
+
+    const maxPlays = attachment.playback?.maxPlays ?? null;
+    const allowPause = attachment.playback?.allowPause !== false;
+    const playsLeft = maxPlays === null ? null : Math.max(0, maxPlays - plays);
+    const label = attachment.filename || (attachment.kind === 'VIDEO' ? 'Video clip' : 'Audio clip');
+
+    const changeStatus = (next: typeof status) => {
+        statusRef.current = next;
+        setStatus(next);
+    };
+
+    const start = async () => {
+        const media = mediaRef.current;
+        if (!media || isStarting.current || statusRef.current === 'playing' || playsLeft === 0) return;
+        isStarting.current = true;
+        try {
+            media.currentTime = 0;
+            await media.play(); // Before the server round trip, so the browser still sees the click
+            changeStatus('playing');
+            if (!(await onPlayEvent('PLAY'))) {
+                changeStatus('idle');
+                media.pause();
+                media.currentTime = 0;
+            }
+        } catch (e) {
+            changeStatus('idle'); // Autoplay blocked or the file failed to load; no play is counted
+        } finally {
+            isStarting.current = false;
+        }
+    };
+
+    const pause = () => {
+        if (!allowPause || statusRef.current !== 'playing') return;
+        mediaRef.current?.pause();
+        changeStatus('paused');
+        onPlayEvent('PAUSE');
+    };
+
+    const resume = async () => {
+        if (statusRef.current !== 'paused') return;
+        try {
+            await mediaRef.current?.play();
+            changeStatus('playing');
+            onPlayEvent('RESUME');
+        } catch (e) {
+            // Stays paused; the candidate can try again
+        }
+    };
+
+    useEffect(() => {
+        if (attachment.playback?.autoplay && plays === 0) start();
+    }, []);
+
+    const handleEnded = () => {
+        changeStatus('ended');
+        onPlayEvent('ENDED');
+    };
+
+    // Media keys and the OS can pause a clip too; one that may not be paused carries on
+    const handlePause = () => {
+        const media = mediaRef.current;
+        if (!allowPause && media && statusRef.current === 'playing' && !media.ended) media.play().catch(() => changeStatus('paused'));
+    };
+
+    const mediaProps = {
+        ref: mediaRef,
+        src: attachment.url,
+        preload: 'auto',
+        onEnded: handleEnded,
+        onPause: handlePause,
+        onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setPosition({ current: e.currentTarget.currentTime, duration: e.currentTarget.duration }),
+        onLoadedMetadata: (e: React.SyntheticEvent<HTMLMediaElement>) => setPosition({ current: 0, duration: e.currentTarget.duration }),
+        onContextMenu: (e: React.MouseEvent) => e.preventDefault()
+    };
+
+    const canStart = status !== 'playing' && status !== 'paused' && playsLeft !== 0;
+    const progress = position.duration ? Math.min(100, (position.current / position.duration) * 100) : 0;
+
+    return (
+        <div className="p-4 theme-rounded bg-slate-50 dark:bg-slate-950 border-2 border-slate-100 dark:border-slate-800 space-y-3">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 truncate">{attachment.kind === 'VIDEO' ? '🎬' : '🔊'} {label}</p>
+            {attachment.kind === 'VIDEO' ? (
+                <video {...mediaProps} playsInline disablePictureInPicture className={`w-full theme-rounded bg-black ${compact ? 'max-h-48' : 'max-h-[24rem]'}`} />
+            ) : (
+                <audio {...mediaProps} className="hidden" />
+            )}
+            <div className="flex items-center gap-4">
+                {status === 'playing' ? (
+                    <button
+                        onClick={pause}
+                        disabled={!allowPause}
+                        className="px-4 py-2 theme-rounded bg-slate-200 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-black uppercase text-[10px] tracking-widest disabled:opacity-50"
+                    >
+                        {allowPause ? '❚❚ Pause' : 'Playing...'}
+                    </button>
+                ) : status === 'paused' ? (
+                    <button onClick={resume} className="px-4 py-2 theme-rounded bg-indigo-600 text-white font-black uppercase text-[10px] tracking-widest">▶ Resume</button>
+                ) : (
+                    <button
+                        onClick={start}
+                        disabled={!canStart}
+                        className="px-4 py-2 theme-rounded bg-indigo-600 text-white font-black uppercase text-[10px] tracking-widest disabled:bg-slate-300 dark:disabled:bg-slate-700"
+                    >
+                        ▶ {plays > 0 ? 'Play Again' : 'Play'}
+                    </button>
+                )}
+                <div className="flex-1 h-2 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden" aria-hidden="true">
+                    <div className="h-full bg-indigo-500 transition-[width]" style={{ width: `${progress}%` }} />
+                </div>
+                <span className="text-[10px] font-bold text-slate-400 tabular-nums">{formatTime(position.current)} / {formatTime(position.duration)}</span>
+            </div>
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {playsLeft === null ? 'Unlimited plays' : playsLeft === 0 && status !== 'playing' && status !== 'paused' ? 'No plays left' : `Plays left: ${playsLeft} of ${maxPlays}`}
+                {!allowPause && ' · Cannot be paused'}
+            </p>
+        </div>
+    );
+};
+
+/**
+ * Shows one question stimulus: an image, an audio or video clip or an embedded PDF. Files are
+ * served from /api/media, so they load like any other same-origin resource.
+ */
+const MediaStimulus: React.FC<MediaStimulusProps> = ({ attachment, compact = false, plays = 0, onPlayEvent }) => {
+    const label = attachment.filename || 'Question resource';
+
+    if ((attachment.kind === 'AUDIO' || attachment.kind === 'VIDEO') && onPlayEvent) {
+        return <LimitedPlayer attachment={attachment} plays={plays} onPlayEvent={onPlayEvent} compact={compact} />;
+    }
+
+    if (attachment.kind === 'AUDIO' || attachment.kind === 'VIDEO') {
+        const rules = describePlayback(attachment);
+        return (
+            <div className="p-4 theme-rounded bg-slate-50 dark:bg-slate-950 border-2 border-slate-100 dark:border-slate-800">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2 truncate">
+                    {attachment.kind === 'VIDEO' ? '🎬' : '🔊'} {label}{rules && <span className="text-indigo-500"> · {rules}</span>}
+                </p>
+                {attachment.kind === 'VIDEO' ? (
+                    <video controls preload="metadata" playsInline src={attachment.url} className={`w-full theme-rounded bg-black ${compact ? 'max-h-48' : 'max-h-[24rem]'}`} />
+                ) : (
+                    <audio controls preload="metadata" controlsList="nodownload" src={attachment.url} className="w-full">
+                        Your browser cannot play this audio.
+                    </audio>
+                )}
+            </div>
+        );
+    }
+
+    if (attachment.kind === 'PDF') {
+        return (
+            <div className="theme-rounded overflow-hidden border-2 border-slate-100 dark:border-slate-800">
+                <div className="flex justify-between items-center gap-4 px-4 py-2 bg-slate-50 dark:bg-slate-950">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 truncate">📄 {label}</p>
+                    <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 text-[10px] font-black uppercase hover:underline shrink-0">
+                        Open
+                    </a>
+                </div>
+                <iframe src={attachment.url} title={label} className={`w-full bg-white ${compact ? 'h-64' : 'h-[28rem] md:h-[36rem]'}`} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex justify-center">
+            <img
+                src={attachment.url}
+                alt={label}
+                className={`max-w-full theme-rounded shadow-lg border-4 border-slate-100 dark:border-slate-800 ${compact ? 'max-h-48' : 'max-h-60 md:max-h-96'}`}
+            />
+        </div>
+    );
+};
+
+export default MediaStimulus;
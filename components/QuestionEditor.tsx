@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Question, QuestionType } from '../services/types';
+import { Question, QuestionType, Difficulty, MrqScoringMode, ToleranceType, RubricCriterion, QuestionAttachment, MediaPlayback } from '../services/types';
+import { api } from '../services/api';
+import { v4 as uuidv4 } from 'uuid';
 import { useToast } from '../services/ToastContext';
+import RichText from './RichText';
+import RichTextEditor from './RichTextEditor';
+import MediaStimulus from './MediaStimulus';
 
 interface QuestionEditorProps {
     initialQuestion?: Partial<Question>;
@@ -22,13 +27,19 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
         type: QuestionType.MCQ,
         text: '',
         points: 1,
-        options: ['Option A', 'Option B', 'Option C', 'Option D'],
-        correctAnswer: 'Option A',
+        // Numeric and short-answer questions have no options to pick from
+        ...(initialQuestion?.type === QuestionType.NUMERIC || initialQuestion?.type === QuestionType.SHORT_ANSWER
+            ? { options: [], correctAnswer: '' }
+            : { options: ['Option A', 'Option B', 'Option C', 'Option D'], correctAnswer: 'Option A' }),
         ...initialQuestion
     });
 
+    // Raw text so trailing commas survive while typing the unit list
+    const [unitsText, setUnitsText] = useState((initialQuestion?.answerConfig?.acceptedUnits || []).join(', '));
     const [isSaving, setIsSaving] = useState(false);
     const [isDirty, setIsDirty] = useState(false);
+    const [showPreview, setShowPreview] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
 
     // Update local state helper
     const updateField = (field: keyof Question, value: any) => {
@@ -36,9 +47,78 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
         setIsDirty(true);
     };
 
+    const [acceptedText, setAcceptedText] = useState((initialQuestion?.correctAnswers || []).join('\n'));
+    const [patternsText, setPatternsText] = useState((initialQuestion?.answerConfig?.acceptedPatterns || []).join('\n'));
+
+    const isMrq = question.type === QuestionType.MRQ;
+    const isShortAnswer = question.type === QuestionType.SHORT_ANSWER;
+    const correctSet = question.correctAnswers || [];
+    const lockedOptions = question.lockedOptions || [];
+
+    const toggleCorrect = (opt: string) => {
+        updateField('correctAnswers', correctSet.includes(opt) ? correctSet.filter(a => a !== opt) : [...correctSet, opt]);
+    };
+
+    const updateConfig = (field: string, value: any) => {
+        updateField('answerConfig', { ...question.answerConfig, [field]: value });
+    };
+
+    const rubric = question.rubric || [];
+    const rubricMax = rubric.reduce((sum, c) => sum + Math.max(0, ...c.levels.map(l => Number(l.points) || 0)), 0);
+
+    const updateCriterion = (idx: number, patch: Partial<RubricCriterion>) => {
+        updateField('rubric', rubric.map((c, i) => i === idx ? { ...c, ...patch } : c));
+    };
+
+    const addCriterion = () => {
+        updateField('rubric', [...rubric, {
+            id: uuidv4(),
+            name: `Criterion ${rubric.length + 1}`,
+            levels: [
+                { id: uuidv4(), label: 'Excellent', points: 2 },
+                { id: uuidv4(), label: 'Adequate', points: 1 },
+                { id: uuidv4(), label: 'Missing', points: 0 }
+            ]
+        }]);
+    };
+
+    const attachments = question.attachments || [];
+
+    const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        setIsUploading(true);
+        const added: QuestionAttachment[] = [];
+        for (const file of files) {
+            try {
+                const { size, ...attachment } = await api.media.upload(file);
+                added.push(attachment);
+            } catch (err: any) {
+                addToast(`${file.name}: ${err.message || 'Upload failed'}`, 'error');
+            }
+        }
+        if (added.length) updateField('attachments', [...attachments, ...added]);
+        setIsUploading(false);
+    };
+
+    const updatePlayback = (id: string, patch: Partial<MediaPlayback>) => {
+        updateField('attachments', attachments.map(a => a.id === id
+            ? { ...a, playback: { maxPlays: null, allowPause: true, autoplay: false, ...a.playback, ...patch } }
+            : a));
+    };
+
     const handleSave = async () => {
-        if (!question.text || !question.correctAnswer) {
-            addToast('Question text and correct answer are required', 'error');
+        const hasKey = isMrq ? correctSet.length > 0
+            : isShortAnswer ? correctSet.length > 0 || !!question.answerConfig?.acceptedPatterns?.length
+                : !!question.correctAnswer;
+        if (!question.text || !hasKey) {
+            addToast(isMrq ? 'Question text and at least one correct option are required' : 'Question text and correct answer are required', 'error');
+            return;
+        }
+        if (question.type === QuestionType.NUMERIC && isNaN(parseFloat(question.correctAnswer || ''))) {
+            addToast('Numeric questions need a numeric correct answer', 'error');
             return;
         }
 
@@ -68,6 +148,9 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                     >
                         <option value={QuestionType.MCQ}>MCQ</option>
                         <option value={QuestionType.SBA}>SBA</option>
+                        <option value={QuestionType.MRQ}>MRQ</option>
+                        <option value={QuestionType.NUMERIC}>Numeric</option>
+                        <option value={QuestionType.SHORT_ANSWER}>Short Answer</option>
                         <option value={QuestionType.THEORY}>Theory</option>
                     </select>
                     <input
@@ -77,20 +160,105 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                         onChange={e => updateField('points', parseInt(e.target.value) || 0)}
                         placeholder="Pts"
                     />
+                    <input
+                        className="bg-slate-100 dark:bg-slate-800 rounded w-28 px-2 py-1 text-[10px] font-black uppercase outline-none"
+                        value={question.category || ''}
+                        onChange={e => updateField('category', e.target.value)}
+                        placeholder="Category"
+                    />
+                    <select
+                        className="bg-slate-100 dark:bg-slate-800 rounded px-2 py-1 text-[10px] font-black uppercase outline-none"
+                        value={question.difficulty || ''}
+                        onChange={e => updateField('difficulty', e.target.value || null)}
+                    >
+                        <option value="">Difficulty</option>
+                        <option value={Difficulty.EASY}>Easy</option>
+                        <option value={Difficulty.MEDIUM}>Medium</option>
+                        <option value={Difficulty.HARD}>Hard</option>
+                    </select>
                 </div>
-                <div className="flex gap-2">
+                <div className="flex gap-2 items-center">
                     {isDirty && <span className="text-orange-500 text-[10px] font-bold uppercase animate-pulse">Unsaved Changes</span>}
+                    <button onClick={() => setShowPreview(!showPreview)} className="text-indigo-600 text-[10px] font-black uppercase hover:underline">
+                        {showPreview ? 'Hide Preview' : 'Preview'}
+                    </button>
                 </div>
             </div>
 
-            <input
-                className="font-bold text-lg bg-transparent w-full outline-none border-b border-transparent focus:border-indigo-500 transition-colors mb-4 placeholder-slate-300"
-                value={question.text}
-                onChange={(e) => updateField('text', e.target.value)}
+            <RichTextEditor
+                className="font-bold text-lg mb-4"
+                value={question.text || ''}
+                onChange={value => updateField('text', value)}
                 placeholder="Enter Question Text Here..."
-                autoFocus={isNew}
+                allowTables
             />
 
+            {/* Stimuli: images, audio clips and PDFs shown with the question */}
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+                {attachments.map(attachment => (
+                    <span key={attachment.id} className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 rounded px-2 py-1 text-[10px] font-bold uppercase text-slate-600 dark:text-slate-300">
+                        {attachment.kind === 'AUDIO' ? '🔊' : attachment.kind === 'VIDEO' ? '🎬' : attachment.kind === 'PDF' ? '📄' : '🖼'} {attachment.filename || attachment.kind}
+                        <button onClick={() => updateField('attachments', attachments.filter(a => a.id !== attachment.id))} className="text-red-400 hover:text-red-600" title="Remove attachment">×</button>
+                    </span>
+                ))}
+                <label className={`text-indigo-600 text-[10px] font-black uppercase ${isUploading ? 'opacity-50' : 'cursor-pointer hover:underline'}`}>
+                    {isUploading ? 'Uploading...' : '+ Attach Image / Audio / Video / PDF'}
+                    <input
+                        type="file"
+                        multiple
+                        className="hidden"
+                        disabled={isUploading}
+                        accept="image/png,image/jpeg,image/gif,image/webp,audio/mpeg,audio/ogg,audio/wav,audio/webm,audio/mp4,.m4a,video/mp4,video/webm,application/pdf"
+                        onChange={handleAttach}
+                    />
+                </label>
+            </div>
+
+            {/* Listening clips: how often and how they may be played */}
+            {attachments.filter(a => a.kind === 'AUDIO' || a.kind === 'VIDEO').map(attachment => (
+                <div key={attachment.id} className="mb-4 flex flex-wrap items-center gap-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-[10px] font-bold uppercase text-slate-500">
+                    <span className="text-slate-400 truncate max-w-[12rem]">{attachment.kind === 'VIDEO' ? '🎬' : '🔊'} {attachment.filename || attachment.kind}</span>
+                    <label className="flex items-center gap-2">
+                        Max Plays
+                        <input
+                            type="number"
+                            min={1}
+                            max={20}
+                            className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded w-16 px-2 py-1 outline-none"
+                            value={attachment.playback?.maxPlays ?? ''}
+                            onChange={e => updatePlayback(attachment.id, { maxPlays: parseInt(e.target.value) > 0 ? Math.min(parseInt(e.target.value), 20) : null })}
+                            placeholder="∞"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={attachment.playback?.allowPause !== false} onChange={e => updatePlayback(attachment.id, { allowPause: e.target.checked })} />
+                        Allow Pausing
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={!!attachment.playback?.autoplay} onChange={e => updatePlayback(attachment.id, { autoplay: e.target.checked })} />
+                        Autoplay When Opened
+                    </label>
+                </div>
+            ))}
+
+            {/* As candidates will see it */}
+            {showPreview && (
+                <div className="mb-4 p-6 rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 space-y-4">
+                    <RichText value={question.text || ''} className="font-black uppercase tracking-tight leading-snug text-xl text-slate-800 dark:text-slate-100" />
+                    {attachments.map(attachment => <MediaStimulus key={attachment.id} attachment={attachment} compact />)}
+                    {!!question.options?.length && (
+                        <ol className="space-y-2">
+                            {question.options.map((opt, idx) => (
+                                <li key={idx} className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 text-sm font-bold">
+                                    <span className="w-6 h-6 rounded bg-slate-100 dark:bg-slate-800 text-slate-400 flex items-center justify-center text-xs shrink-0">{String.fromCharCode(65 + idx)}</span>
+                                    <RichText plain value={opt} className="dark:text-slate-300" />
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            )}
+
             <div className="space-y-4">
                 {question.type === QuestionType.THEORY ? (
                     <div className="w-full">
@@ -101,38 +269,270 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                             onChange={(e) => updateField('correctAnswer', e.target.value)}
                             placeholder="Enter model answer keywords..."
                         />
+
+                        <div className="flex justify-between items-center mt-4">
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Rubric Criteria</label>
+                            <div className="flex items-center gap-3">
+                                {rubric.length > 0 && (
+                                    <span className={`text-[10px] font-bold uppercase ${rubricMax === question.points ? 'text-slate-400' : 'text-orange-500'}`}>
+                                        Max {rubricMax} / {question.points} pts
+                                    </span>
+                                )}
+                                <button onClick={addCriterion} className="text-xs text-indigo-600 font-bold uppercase hover:underline">+ Criterion</button>
+                            </div>
+                        </div>
+                        <div className="space-y-3 mt-2">
+                            {rubric.map((criterion, cIdx) => (
+                                <div key={criterion.id} className="p-3 border border-slate-200 dark:border-slate-700 rounded-lg space-y-2">
+                                    <div className="flex gap-2">
+                                        <input
+                                            className="flex-1 text-sm font-bold bg-transparent outline-none border-b border-transparent focus:border-slate-300"
+                                            value={criterion.name}
+                                            onChange={e => updateCriterion(cIdx, { name: e.target.value })}
+                                            placeholder="Criterion name"
+                                        />
+                                        <button onClick={() => updateField('rubric', rubric.filter((_, i) => i !== cIdx))} className="text-slate-300 hover:text-red-500 px-2">×</button>
+                                    </div>
+                                    {criterion.levels.map((level, lIdx) => {
+                                        const updateLevel = (patch: any) => updateCriterion(cIdx, {
+                                            levels: criterion.levels.map((l, i) => i === lIdx ? { ...l, ...patch } : l)
+                                        });
+                                        return (
+                                            <div key={level.id} className="flex gap-2 items-center pl-3">
+                                                <input
+                                                    className="w-28 text-xs bg-slate-50 dark:bg-slate-950 p-1 rounded outline-none"
+                                                    value={level.label}
+                                                    onChange={e => updateLevel({ label: e.target.value })}
+                                                    placeholder="Level"
+                                                />
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="any"
+                                                    className="w-16 text-xs bg-slate-50 dark:bg-slate-950 p-1 rounded outline-none"
+                                                    value={level.points}
+                                                    onChange={e => updateLevel({ points: parseFloat(e.target.value) || 0 })}
+                                                />
+                                                <input
+                                                    className="flex-1 text-xs bg-slate-50 dark:bg-slate-950 p-1 rounded outline-none"
+                                                    value={level.descriptor || ''}
+                                                    onChange={e => updateLevel({ descriptor: e.target.value })}
+                                                    placeholder="Descriptor"
+                                                />
+                                                <button onClick={() => updateCriterion(cIdx, { levels: criterion.levels.filter((_, i) => i !== lIdx) })} className="text-slate-300 hover:text-red-500 px-2">×</button>
+                                            </div>
+                                        );
+                                    })}
+                                    <button
+                                        onClick={() => updateCriterion(cIdx, { levels: [...criterion.levels, { id: uuidv4(), label: 'New Level', points: 0 }] })}
+                                        className="text-[10px] text-indigo-600 font-bold uppercase hover:underline pl-3"
+                                    >
+                                        + Level
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
                     </div>
-                ) : (
-                    <div className="space-y-2">
-                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Options (Select Correct)</label>
-                        {question.options?.map((opt, idx) => (
-                            <div key={idx} className="flex items-center gap-2">
+                ) : isShortAnswer ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Accepted Answers (one per line)</label>
+                            <textarea
+                                className="w-full p-3 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 h-24 font-mono focus:border-indigo-500 outline-none"
+                                value={acceptedText}
+                                onChange={(e) => {
+                                    const list = e.target.value.split('\n').map(a => a.trim()).filter(Boolean);
+                                    setAcceptedText(e.target.value);
+                                    updateField('correctAnswers', list);
+                                    updateField('correctAnswer', list[0] || '');
+                                }}
+                                placeholder={'Mitochondria\nMitochondrion'}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Regex Patterns (optional, one per line)</label>
+                            <textarea
+                                className="w-full p-3 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 h-24 font-mono focus:border-indigo-500 outline-none"
+                                value={patternsText}
+                                onChange={(e) => {
+                                    setPatternsText(e.target.value);
+                                    updateConfig('acceptedPatterns', e.target.value.split('\n').map(p => p.trim()).filter(Boolean));
+                                }}
+                                placeholder="mitochondri(a|on)"
+                            />
+                        </div>
+                        <div className="flex flex-wrap items-end gap-4 md:col-span-2">
+                            <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
                                 <input
-                                    type="radio"
-                                    name={`correct-${isNew ? 'new' : question.id}`}
-                                    checked={opt === question.correctAnswer}
-                                    onChange={() => updateField('correctAnswer', opt)}
-                                    className="w-4 h-4 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
+                                    type="checkbox"
+                                    checked={!!question.answerConfig?.caseSensitive}
+                                    onChange={(e) => updateConfig('caseSensitive', e.target.checked)}
+                                    className="w-4 h-4 text-indigo-600"
                                 />
+                                Case Sensitive
+                            </label>
+                            <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
                                 <input
-                                    className={`text-sm bg-transparent w-full outline-none border-b border-transparent focus:border-slate-300 ${opt === question.correctAnswer ? 'text-green-600 font-bold' : 'text-slate-500'}`}
-                                    value={opt}
-                                    onChange={(e) => {
-                                        const newOptions = [...(question.options || [])];
-                                        newOptions[idx] = e.target.value;
-                                        // Sync correct answer if it was selected
-                                        if (question.correctAnswer === opt) {
-                                            updateField('correctAnswer', e.target.value);
-                                        }
-                                        updateField('options', newOptions);
-                                    }}
+                                    type="checkbox"
+                                    checked={question.answerConfig?.foldWhitespace !== false}
+                                    onChange={(e) => updateConfig('foldWhitespace', e.target.checked)}
+                                    className="w-4 h-4 text-indigo-600"
+                                />
+                                Ignore Extra Spaces
+                            </label>
+                            <div>
+                                <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Typos Accepted</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    className="block w-20 p-2 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 font-mono focus:border-indigo-500 outline-none"
+                                    value={question.answerConfig?.fuzzyDistance ?? 0}
+                                    onChange={(e) => updateConfig('fuzzyDistance', parseInt(e.target.value) || 0)}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Review Up To</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    className="block w-20 p-2 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 font-mono focus:border-indigo-500 outline-none"
+                                    value={question.answerConfig?.reviewDistance ?? ''}
+                                    onChange={(e) => updateConfig('reviewDistance', e.target.value === '' ? undefined : parseInt(e.target.value) || 0)}
+                                    placeholder="Auto"
+                                />
+                            </div>
+                        </div>
+                    </div>
+                ) : question.type === QuestionType.NUMERIC ? (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        <div>
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Correct Value</label>
+                            <input
+                                className="w-full p-2 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 font-mono focus:border-indigo-500 outline-none"
+                                value={question.correctAnswer || ''}
+                                onChange={(e) => updateField('correctAnswer', e.target.value.trim())}
+                                placeholder="e.g. 9.81"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Tolerance (±)</label>
+                            <div className="flex gap-1 mt-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="any"
+                                    className="w-full p-2 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg font-mono focus:border-indigo-500 outline-none"
+                                    value={question.answerConfig?.tolerance ?? 0}
+                                    onChange={(e) => updateConfig('tolerance', parseFloat(e.target.value) || 0)}
                                 />
-                                <button onClick={() => {
-                                    const newOptions = question.options?.filter((_, i) => i !== idx);
-                                    updateField('options', newOptions);
-                                }} className="text-slate-300 hover:text-red-500 px-2">×</button>
+                                <select
+                                    className="bg-slate-100 dark:bg-slate-800 rounded px-2 text-[10px] font-black uppercase outline-none"
+                                    value={question.answerConfig?.toleranceType || ToleranceType.ABSOLUTE}
+                                    onChange={(e) => updateConfig('toleranceType', e.target.value)}
+                                >
+                                    <option value={ToleranceType.ABSOLUTE}>Abs</option>
+                                    <option value={ToleranceType.RELATIVE}>%</option>
+                                </select>
                             </div>
-                        ))}
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Significant Figures</label>
+                            <input
+                                type="number"
+                                min={0}
+                                className="w-full p-2 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 font-mono focus:border-indigo-500 outline-none"
+                                value={question.answerConfig?.significantFigures || ''}
+                                onChange={(e) => updateConfig('significantFigures', parseInt(e.target.value) || undefined)}
+                                placeholder="Any"
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Accepted Units (comma separated)</label>
+                            <input
+                                className="w-full p-2 text-sm bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg mt-1 font-mono focus:border-indigo-500 outline-none"
+                                value={unitsText}
+                                onChange={(e) => {
+                                    setUnitsText(e.target.value);
+                                    updateConfig('acceptedUnits', e.target.value.split(',').map(u => u.trim()).filter(Boolean));
+                                }}
+                                placeholder="e.g. m/s, ms^-1"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 self-end pb-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!question.answerConfig?.requireUnit}
+                                onChange={(e) => updateConfig('requireUnit', e.target.checked)}
+                                className="w-4 h-4 text-indigo-600"
+                            />
+                            Unit Required
+                        </label>
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">{isMrq ? 'Options (Select All Correct)' : 'Options (Select Correct)'}</label>
+                            {isMrq && (
+                                <select
+                                    className="bg-slate-100 dark:bg-slate-800 rounded px-2 py-1 text-[10px] font-black uppercase outline-none"
+                                    value={question.answerConfig?.scoringMode || MrqScoringMode.ALL_OR_NOTHING}
+                                    onChange={e => updateConfig('scoringMode', e.target.value)}
+                                >
+                                    <option value={MrqScoringMode.ALL_OR_NOTHING}>All or Nothing</option>
+                                    <option value={MrqScoringMode.PARTIAL}>Partial Credit</option>
+                                    <option value={MrqScoringMode.RIGHT_MINUS_WRONG}>Right minus Wrong</option>
+                                </select>
+                            )}
+                        </div>
+                        {question.options?.map((opt, idx) => {
+                            const isKey = isMrq ? correctSet.includes(opt) : opt === question.correctAnswer;
+                            const isLocked = lockedOptions.includes(idx);
+                            return (
+                                <div key={idx} className="flex items-center gap-2">
+                                    <input
+                                        type={isMrq ? 'checkbox' : 'radio'}
+                                        name={`correct-${isNew ? 'new' : question.id}`}
+                                        checked={isKey}
+                                        onChange={() => isMrq ? toggleCorrect(opt) : updateField('correctAnswer', opt)}
+                                        className="w-4 h-4 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
+                                    />
+                                    <input
+                                        className={`text-sm bg-transparent w-full outline-none border-b border-transparent focus:border-slate-300 ${isKey ? 'text-green-600 font-bold' : 'text-slate-500'}`}
+                                        value={opt}
+                                        onChange={(e) => {
+                                            const newOptions = [...(question.options || [])];
+                                            newOptions[idx] = e.target.value;
+                                            // Sync correct answer(s) if it was selected
+                                            if (question.correctAnswer === opt) {
+                                                updateField('correctAnswer', e.target.value);
+                                            }
+                                            if (correctSet.includes(opt)) {
+                                                updateField('correctAnswers', correctSet.map(a => a === opt ? e.target.value : a));
+                                            }
+                                            updateField('options', newOptions);
+                                        }}
+                                    />
+                                    <button
+                                        onClick={() => updateField('lockedOptions', isLocked ? lockedOptions.filter(i => i !== idx) : [...lockedOptions, idx])}
+                                        title={isLocked ? 'Stays in this position when options are shuffled' : 'Lock position (e.g. "All of the above")'}
+                                        className={`text-[10px] font-black uppercase px-1 ${isLocked ? 'text-indigo-600' : 'text-slate-300 hover:text-indigo-400'}`}
+                                    >
+                                        {isLocked ? 'Locked' : 'Lock'}
+                                    </button>
+                                    <button onClick={() => {
+                                        const newOptions = question.options?.filter((_, i) => i !== idx);
+                                        updateField('options', newOptions);
+                                        if (correctSet.includes(opt)) {
+                                            updateField('correctAnswers', correctSet.filter(a => a !== opt));
+                                        }
+                                        // Later options move up one position
+                                        if (lockedOptions.length > 0) {
+                                            updateField('lockedOptions', lockedOptions.filter(i => i !== idx).map(i => i > idx ? i - 1 : i));
+                                        }
+                                    }} className="text-slate-300 hover:text-red-500 px-2">×</button>
+                                </div>
+                            );
+                        })}
                         <button onClick={() => updateField('options', [...(question.options || []), `Option ${String.fromCharCode(65 + (question.options?.length || 0))}`])} className="text-xs text-indigo-600 font-bold uppercase hover:underline">+ Add Option</button>
                     </div>
                 )}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Question, QuestionType } from '../services/types';
 import { api } from '../services/api';
+import { richTextToPlain } from '../services/richText';
 
 interface QuestionSelectorProps {
     onSelect: (selectedQuestions: Question[]) => void;
@@ -214,6 +215,9 @@ const QuestionSelector: React.FC<QuestionSelectorProps> = ({
                         <option value="ALL">All Types</option>
                         <option value={QuestionType.MCQ}>MCQ</option>
                         <option value={QuestionType.SBA}>SBA</option>
+                        <option value={QuestionType.MRQ}>MRQ</option>
+                        <option value={QuestionType.NUMERIC}>Numeric</option>
+                        <option value={QuestionType.SHORT_ANSWER}>Short Answer</option>
                         <option value={QuestionType.THEORY}>Theory</option>
                     </select>
                     <div className="col-span-1 md:col-span-3">
@@ -285,12 +289,12 @@ const QuestionSelector: React.FC<QuestionSelectorProps> = ({
                                 </div>
                                 <div className="flex-1 min-w-0">
                                     <div className="flex items-center gap-2 mb-1">
-                                        <span className={`text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${q.type === QuestionType.THEORY ? 'bg-purple-100 text-purple-700' : 'bg-blue-100 text-blue-700'
+                                        <span className={`text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${q.type === QuestionType.THEORY ? 'bg-purple-100 text-purple-700' : q.type === QuestionType.MRQ ? 'bg-amber-100 text-amber-700' : q.type === QuestionType.NUMERIC ? 'bg-cyan-100 text-cyan-700' : q.type === QuestionType.SHORT_ANSWER ? 'bg-rose-100 text-rose-700' : 'bg-blue-100 text-blue-700'
                                             }`}>{q.type}</span>
                                         {q.category && <span className="text-[9px] font-bold uppercase text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded">{q.category}</span>}
                                         <span className="text-[9px] font-bold uppercase text-slate-400 ml-auto">{q.points} Pts</span>
                                     </div>
-                                    <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{q.text}</p>
+                                    <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{richTextToPlain(q.text)}</p>
                                 </div>
                             </div>
                         ))
@@ -0,0 +1,21 @@
+import React, { useMemo } from 'react';
+import 'katex/dist/katex.min.css';
+import { renderPlainWithMath, renderRichText } from '../services/richText';
+
+interface RichTextProps {
+    value: string;
+    className?: string;
+    inline?: boolean; // Renders in a span
+    plain?: boolean; // Option labels and titles: the text as typed, only the math is typeset
+}
+
+/**
+ * Displays question text, theory answers and other rich text: sanitized HTML with typeset math.
+ */
+const RichText: React.FC<RichTextProps> = ({ value, className = '', inline = false, plain = false }) => {
+    const html = useMemo(() => plain ? renderPlainWithMath(value || '') : renderRichText(value || ''), [value, plain]);
+    const Tag = inline || plain ? 'span' : 'div';
+    return <Tag className={`rich-text ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default RichText;
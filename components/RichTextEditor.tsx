@@ -0,0 +1,103 @@
+import React, { useEffect, useRef } from 'react';
+import RichText from './RichText';
+import { isRichTextEmpty, sanitizeRichText } from '../services/richText';
+
+interface RichTextEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    allowTables?: boolean; // Authors get tables; candidates' theory answers stay simpler
+    allowPaste?: boolean; // Off in exams, where pasting is blocked and reported
+    className?: string;
+}
+
+const TABLE_HTML = '<table><thead><tr><th>Heading</th><th>Heading</th></tr></thead><tbody><tr><td>Cell</td><td>Cell</td></tr></tbody></table><p><br></p>';
+
+/**
+ * A constrained rich text editor: bold, italic, lists, code blocks, math (LaTeX between $ signs)
+ * and optionally tables. Pasted content arrives as plain text, and what it emits is sanitized to
+ * the same tag set the server stores.
+ */
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeholder, allowTables = false, allowPaste = true, className = '' }) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const emitted = useRef<string | null>(null);
+
+    // Only outside changes are written into the editor; rewriting our own would move the caret
+    useEffect(() => {
+        if (!editorRef.current || value === emitted.current) return;
+        editorRef.current.innerHTML = sanitizeRichText(value || '');
+        emitted.current = value;
+    }, [value]);
+
+    const emit = () => {
+        if (!editorRef.current) return;
+        const html = editorRef.current.innerHTML;
+        const next = isRichTextEmpty(html) && !editorRef.current.querySelector('table') ? '' : sanitizeRichText(html);
+        emitted.current = next;
+        onChange(next);
+    };
+
+    const exec = (command: string, arg?: string) => {
+        editorRef.current?.focus();
+        document.execCommand('defaultParagraphSeparator', false, 'p');
+        document.execCommand(command, false, arg);
+        emit();
+    };
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        e.preventDefault();
+        if (allowPaste) document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+    };
+
+    const tools: { label: string; title: string; run: () => void }[] = [
+        { label: 'B', title: 'Bold', run: () => exec('bold') },
+        { label: 'I', title: 'Italic', run: () => exec('italic') },
+        { label: '• List', title: 'Bulleted list', run: () => exec('insertUnorderedList') },
+        { label: '1. List', title: 'Numbered list', run: () => exec('insertOrderedList') },
+        { label: '</>', title: 'Code block', run: () => exec('formatBlock', 'pre') },
+        { label: '∑ Math', title: 'Insert math: LaTeX between $ signs, or $$ for its own line', run: () => exec('insertText', '$x^2$') },
+        ...(allowTables ? [{ label: '▦ Table', title: 'Insert table', run: () => exec('insertHTML', TABLE_HTML) }] : [])
+    ];
+
+    const hasMath = /\$|\\\(|\\\[/.test(value || '');
+
+    return (
+        <div className={`border-2 border-slate-200 dark:border-slate-800 theme-rounded focus-within:border-indigo-500 transition-all bg-white dark:bg-slate-950 ${className}`}>
+            <div className="flex flex-wrap gap-1 p-2 border-b border-slate-100 dark:border-slate-800">
+                {tools.map(tool => (
+                    <button
+                        key={tool.title}
+                        type="button"
+                        title={tool.title}
+                        onMouseDown={e => e.preventDefault()} // Keep the selection in the editor
+                        onClick={tool.run}
+                        className="px-2 py-1 rounded text-[10px] font-black uppercase text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                        {tool.label}
+                    </button>
+                ))}
+            </div>
+            <div
+                ref={editorRef}
+                contentEditable
+                suppressContentEditableWarning
+                role="textbox"
+                aria-multiline="true"
+                aria-label={placeholder}
+                data-placeholder={placeholder}
+                onInput={emit}
+                onBlur={emit}
+                onPaste={handlePaste}
+                className="rich-text rich-text-editor min-h-[8rem] p-4 outline-none font-medium dark:text-slate-200"
+            />
+            {hasMath && (
+                <div className="border-t border-slate-100 dark:border-slate-800 p-4">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Preview</p>
+                    <RichText value={value} className="text-sm dark:text-slate-300" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RichTextEditor;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { RubricCriterion, QuestionResult } from '../services/types';
+
+interface RubricPanelProps {
+    rubric: RubricCriterion[];
+    result?: QuestionResult;
+    maxPoints: number;
+    editable?: boolean;
+    onSave?: (result: QuestionResult) => void;
+}
+
+/**
+ * Criterion-by-criterion grading for THEORY answers.
+ * Graders pick one performance level per criterion; candidates see the same view read-only.
+ */
+const RubricPanel: React.FC<RubricPanelProps> = ({ rubric, result, maxPoints, editable = false, onSave }) => {
+    const [selections, setSelections] = useState<Record<string, string>>(result?.rubricSelections || {});
+    const [comments, setComments] = useState<Record<string, string>>(result?.criterionComments || {});
+    const [feedback, setFeedback] = useState(result?.feedback || '');
+    const [isDirty, setIsDirty] = useState(false);
+
+    const total = rubric.reduce((sum, c) => {
+        const level = c.levels.find(l => l.id === selections[c.id]);
+        return sum + (level ? Number(level.points) || 0 : 0);
+    }, 0);
+    const isComplete = rubric.every(c => selections[c.id]);
+
+    const handleSave = () => {
+        if (!onSave) return;
+        const score = Math.min(maxPoints, total);
+        onSave({
+            score,
+            isCorrect: score >= maxPoints * 0.5,
+            manuallyGraded: true,
+            rubricSelections: selections,
+            criterionComments: comments,
+            feedback
+        });
+        setIsDirty(false);
+    };
+
+    return (
+        <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-800 space-y-4">
+            <div className="flex justify-between items-center">
+                <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Rubric</span>
+                <span className="text-xs font-black text-slate-500">{total} / {maxPoints} pts</span>
+            </div>
+
+            {rubric.map(criterion => (
+                <div key={criterion.id} className="p-4 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-100 dark:border-slate-800">
+                    <p className="font-bold text-sm text-slate-700 dark:text-slate-200">{criterion.name}</p>
+                    {criterion.description && <p className="text-xs text-slate-400 mb-2">{criterion.description}</p>}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2 mt-2">
+                        {criterion.levels.map(level => {
+                            const isSelected = selections[criterion.id] === level.id;
+                            return (
+                                <button
+                                    key={level.id}
+                                    disabled={!editable}
+                                    onClick={() => { setSelections({ ...selections, [criterion.id]: level.id }); setIsDirty(true); }}
+                                    className={`p-3 rounded-lg border text-left transition-colors ${isSelected
+                                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                                        : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-400'
+                                        } ${editable ? 'hover:border-indigo-300 cursor-pointer' : 'cursor-default'}`}
+                                >
+                                    <span className="flex justify-between text-[10px] font-black uppercase">
+                                        <span>{level.label}</span>
+                                        <span>{level.points} pts</span>
+                                    </span>
+                                    {level.descriptor && <span className={`block text-xs mt-1 ${isSelected ? 'text-indigo-100' : 'text-slate-400'}`}>{level.descriptor}</span>}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {editable ? (
+                        <input
+                            className="w-full mt-2 p-2 text-xs bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded outline-none focus:border-indigo-500 dark:text-slate-200"
+                            value={comments[criterion.id] || ''}
+                            onChange={e => { setComments({ ...comments, [criterion.id]: e.target.value }); setIsDirty(true); }}
+                            placeholder="Comment for this criterion (optional)"
+                        />
+                    ) : comments[criterion.id] && (
+                        <p className="mt-2 text-xs italic text-slate-500 dark:text-slate-400">“{comments[criterion.id]}”</p>
+                    )}
+                </div>
+            ))}
+
+            {editable ? (
+                <div className="space-y-2">
+                    <textarea
+                        className="w-full p-3 text-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg h-20 outline-none focus:border-indigo-500 dark:text-slate-200"
+                        value={feedback}
+                        onChange={e => { setFeedback(e.target.value); setIsDirty(true); }}
+                        placeholder="Overall feedback (optional)"
+                    />
+                    <div className="flex justify-end items-center gap-3">
+                        {!isComplete && <span className="text-[10px] font-bold uppercase text-amber-600">Not every criterion is scored</span>}
+                        <button
+                            onClick={handleSave}
+                            disabled={!isDirty}
+                            className="bg-emerald-600 text-white px-4 py-2 rounded text-[10px] font-bold uppercase hover:bg-emerald-700 disabled:opacity-40"
+                        >
+                            Save Rubric Grade
+                        </button>
+                    </div>
+                </div>
+            ) : result?.feedback && (
+                <p className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{result.feedback}</p>
+            )}
+        </div>
+    );
+};
+
+export default RubricPanel;
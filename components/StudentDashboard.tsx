@@ -5,6 +5,7 @@ import SubmissionDetailModal from './SubmissionDetailModal';
 import { useSystem } from '../services/SystemContext';
 import { useExams } from '../hooks/useExams';
 import { useSubmissions } from '../hooks/useSubmissions';
+import { getExamWindow, getWindowCountdown, formatCountdown } from '../services/examWindow';
 
 interface StudentDashboardProps {
   announcements: BlogPost[];
@@ -51,17 +52,14 @@ const StudentDashboard: React.FC<StudentDashboardProps> = memo(({ announcements,
 
   const getExamStatus = (exam: Exam) => {
     if (exam.scheduledReleaseDate && new Date(exam.scheduledReleaseDate).getTime() > now) return 'Upcoming';
-    // Removed fixedEndTime check as it is not in type definition
-    return 'Available';
+    return getExamWindow(exam, now).status;
   };
 
-  const getTimeRemaining = (timestamp: number) => {
-    const diff = timestamp - now;
-    if (diff <= 0) return 'Ready';
-    const hours = Math.floor(diff / 3600000);
-    const mins = Math.floor((diff % 3600000) / 60000);
-    const secs = Math.floor((diff % 60000) / 1000);
-    return `${hours}h ${mins}m ${secs}s`;
+  const getCountdown = (exam: Exam) => {
+    if (!exam.opensAt && exam.scheduledReleaseDate && new Date(exam.scheduledReleaseDate).getTime() > now) {
+      return `Opens in ${formatCountdown(new Date(exam.scheduledReleaseDate).getTime() - now)}`;
+    }
+    return getWindowCountdown(exam, now);
   };
 
   return (
@@ -120,8 +118,11 @@ const StudentDashboard: React.FC<StudentDashboardProps> = memo(({ announcements,
 
                   <div className="mt-auto pt-6 border-t border-slate-50 dark:border-slate-800 flex items-center justify-between">
                     <div>
-                      {status === 'Upcoming' && exam.scheduledReleaseDate && (
-                        <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">Opens in {getTimeRemaining(new Date(exam.scheduledReleaseDate).getTime())}</span>
+                      {!previousSub && getCountdown(exam) && (
+                        <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">{getCountdown(exam)}</span>
+                      )}
+                      {exam.fixedStart && status === 'Upcoming' && (
+                        <span className="block text-[10px] font-black text-amber-500 uppercase tracking-widest">Fixed start: everyone begins together</span>
                       )}
                       {previousSub && (
                         <span className="block text-[10px] font-black text-indigo-500 uppercase tracking-widest">Score: {previousSub.score}/{exam.totalPoints}</span>
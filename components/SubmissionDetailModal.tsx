@@ -1,7 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { Submission, Exam, SystemSettings, QuestionResult, QuestionType } from '../services/types';
+import { Submission, Exam, SystemSettings, QuestionResult, QuestionType, ToleranceType } from '../services/types';
 import { api } from '../services/api';
+import RubricPanel from './RubricPanel';
+import IntegrityPanel from './IntegrityPanel';
+import RichText from './RichText';
+import MediaStimulus from './MediaStimulus';
 
 interface SubmissionDetailModalProps {
   submission: Submission;
@@ -11,6 +15,7 @@ interface SubmissionDetailModalProps {
   isAdmin?: boolean;
   onManualGrade?: (questionId: string, result: QuestionResult) => void;
   onReGrade?: () => Promise<void>;
+  onAiGrade?: () => Promise<void>;
   onMarkReviewed?: () => Promise<void>; // Parent refresh callback
 }
 
@@ -18,9 +23,11 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
   submission,
   exam,
   onClose,
+  systemSettings,
   isAdmin,
   onManualGrade,
   onReGrade,
+  onAiGrade,
   onMarkReviewed
 }) => {
   const [isCertificateView, setIsCertificateView] = useState(false);
@@ -28,6 +35,7 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
   const [editScore, setEditScore] = useState<number>(0);
   const [isReGrading, setIsReGrading] = useState(false);
   const [isReviewing, setIsReviewing] = useState(false);
+  const [isAiGrading, setIsAiGrading] = useState(false);
 
   // Pagination State
   const [currentPage, setCurrentPage] = useState(1);
@@ -57,8 +65,8 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
     const finalScore = Math.min(maxPoints, Math.max(0, editScore));
     onManualGrade(qId, {
       score: finalScore,
-      feedback: `Score manually adjusted by Administrator.`,
-      isCorrect: finalScore >= (maxPoints * 0.5)
+      isCorrect: finalScore >= (maxPoints * 0.5),
+      manuallyGraded: true
     });
     setEditingId(null);
   };
@@ -76,6 +84,18 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
     }
   };
 
+  const handleTriggerAiGrade = async () => {
+    if (!onAiGrade) return;
+    setIsAiGrading(true);
+    try {
+      await onAiGrade();
+    } finally {
+      setIsAiGrading(false);
+    }
+  };
+
+  const canAiGrade = isAdmin && !!onAiGrade && systemSettings?.aiGradingEnabled && (exam.questions || []).some(q => q.type === QuestionType.THEORY);
+
   const handleMarkReviewed = async () => {
     setIsReviewing(true);
     try {
@@ -113,7 +133,7 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
             <p className="text-lg text-slate-600">This certifies that</p>
             <h3 className="text-3xl md:text-4xl font-bold text-slate-900 border-b-2 border-slate-200 pb-4 inline-block px-12 capitalize">{submission.user?.name || 'The Candidate'}</h3>
             <p className="text-lg text-slate-600">has successfully completed the exam</p>
-            <h4 className="text-2xl md:text-3xl font-bold text-indigo-700">{exam.title}</h4>
+            <h4 className="text-2xl md:text-3xl font-bold text-indigo-700"><RichText plain value={exam.title} /></h4>
             <p className="text-lg text-slate-600 mt-4">with a score of <span className="font-black text-slate-900">{percentage}%</span></p>
           </div>
 
@@ -146,6 +166,8 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
             <div className="flex items-center gap-3 mb-2">
               <h3 className="text-xl md:text-3xl font-black tracking-tighter uppercase leading-tight">{exam.title}</h3>
               {submission.status === 'REVIEWED' && <span className="bg-emerald-500 text-white text-[10px] px-2 py-0.5 rounded font-black uppercase">Reviewed</span>}
+              {submission.isLate && <span className="bg-orange-500 text-white text-[10px] px-2 py-0.5 rounded font-black uppercase">Late</span>}
+              {submission.terminatedAt && <span className="bg-red-600 text-white text-[10px] px-2 py-0.5 rounded font-black uppercase" title={submission.terminationReason || undefined}>Terminated</span>}
             </div>
             <div className="flex flex-col gap-1">
               <p className="text-indigo-200 text-[10px] font-bold uppercase tracking-widest flex items-center gap-2">
@@ -153,6 +175,9 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                 <span className="w-1 h-1 bg-white/20 rounded-full"></span>
                 <span>Student: {submission.user?.name || 'Unknown'}</span>
               </p>
+              {submission.terminatedAt && submission.terminationReason && (
+                <p className="text-red-200 text-xs font-bold">Ended by invigilator: {submission.terminationReason}</p>
+              )}
             </div>
           </div>
 
@@ -163,6 +188,13 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                 <span className="text-lg font-normal opacity-60"> / {exam.totalPoints}</span>
               </p>
               <p className="text-indigo-200 font-bold text-sm mt-1">{percentage}%</p>
+              {((submission.negativeDeduction || 0) > 0 || (submission.latePenaltyDeduction || 0) > 0) && (
+                <p className="text-indigo-200 text-[10px] font-bold uppercase tracking-widest mt-1">
+                  Raw {submission.rawScore}
+                  {(submission.negativeDeduction || 0) > 0 && <span> · Negative −{submission.negativeDeduction}</span>}
+                  {(submission.latePenaltyDeduction || 0) > 0 && <span> · Late −{submission.latePenaltyDeduction}</span>}
+                </p>
+              )}
             </div>
 
             <div className="flex gap-2 flex-wrap justify-end">
@@ -220,6 +252,15 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                 {isReGrading ? 'Calculating...' : 'Re-calculate Score'}
               </button>
             )}
+            {canAiGrade && (
+              <button
+                onClick={handleTriggerAiGrade}
+                disabled={isAiGrading}
+                className="text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 px-3 py-2 text-xs font-bold uppercase transition-colors"
+              >
+                {isAiGrading ? 'AI Grading...' : 'AI Grade Theory'}
+              </button>
+            )}
           </div>
 
           {/* Pagination Controls (Top) */}
@@ -242,6 +283,24 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
 
         {/* Content Scroll Area */}
         <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-6 bg-slate-50 dark:bg-slate-950">
+          {isAdmin && currentPage === 1 && <IntegrityPanel submissionId={submission.id} startedAt={submission.submittedAt} />}
+          {currentPage === 1 && submission.sectionScores && submission.sectionScores.length > 0 && (
+            <div className="bg-white dark:bg-slate-900 p-6 md:p-8 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800">
+              <h4 className="font-black uppercase text-sm dark:text-white mb-4">Section Scores</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {submission.sectionScores.map(section => (
+                  <div key={section.id} className="bg-slate-50 dark:bg-slate-800 p-4 rounded-xl">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 truncate">{section.title}</p>
+                    <p className="text-xl font-black dark:text-white">
+                      {section.score % 1 === 0 ? section.score : section.score.toFixed(1)}
+                      <span className="text-sm font-normal text-slate-400"> / {section.maxScore}</span>
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400 mt-3">Before negative marking and late penalties.</p>
+            </div>
+          )}
           {currentQuestions.map((q, idx) => {
             const globalIndex = (currentPage - 1) * itemsPerPage + idx;
             const userAnswer = submission.answers[q.id];
@@ -254,6 +313,9 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                   <div className="flex items-center gap-4">
                     <span className="bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 px-3 py-1 rounded text-[10px] font-black uppercase">Q{globalIndex + 1}</span>
                     <span className="bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 px-3 py-1 rounded text-[10px] font-black uppercase">{q.type}</span>
+                    {isAdmin && result?.needsReview && !result.manuallyGraded && (
+                      <span className="bg-amber-100 text-amber-700 px-3 py-1 rounded text-[10px] font-black uppercase">Near Miss · Review</span>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-4 self-end md:self-auto">
@@ -282,14 +344,36 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                   </div>
                 </div>
 
-                <h4 className="font-bold text-lg md:text-xl mb-6 text-slate-800 dark:text-slate-200 leading-relaxed">{q.text}</h4>
+                <RichText value={q.text} className="font-bold text-lg md:text-xl mb-6 text-slate-800 dark:text-slate-200 leading-relaxed" />
+                {!!q.attachments?.length && (
+                  <div className="space-y-3 mb-6">
+                    {q.attachments.map(attachment => {
+                      const log = submission.mediaPlays?.[attachment.id];
+                      return (
+                        <div key={attachment.id}>
+                          <MediaStimulus attachment={attachment} compact />
+                          {(attachment.kind === 'AUDIO' || attachment.kind === 'VIDEO') && (
+                            <p className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400" title={log?.events.map(ev => `${ev.type} ${new Date(ev.at).toLocaleTimeString()}`).join('\n')}>
+                              Played {log?.plays || 0}{attachment.playback?.maxPlays ? ` of ${attachment.playback.maxPlays}` : ''} time{(log?.plays || 0) === 1 ? '' : 's'}
+                              {!!log?.events.filter(ev => ev.type === 'PAUSE').length && ` · Paused ${log.events.filter(ev => ev.type === 'PAUSE').length}×`}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
                   <div className="p-5 bg-slate-50 dark:bg-slate-950/50 rounded-xl border-l-4 border-slate-300 dark:border-slate-700">
                     <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Student Answer</span>
-                    <div className="font-medium text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed text-sm md:text-base">
-                      {userAnswer || <span className="italic opacity-50">No Answer</span>}
-                    </div>
+                    {q.type === QuestionType.THEORY && typeof userAnswer === 'string' && userAnswer ? (
+                      <RichText value={userAnswer} className="font-medium text-slate-700 dark:text-slate-300 leading-relaxed text-sm md:text-base" />
+                    ) : (
+                      <div className="font-medium text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed text-sm md:text-base">
+                        {(Array.isArray(userAnswer) ? userAnswer.join(', ') : userAnswer) || <span className="italic opacity-50">No Answer</span>}
+                      </div>
+                    )}
                   </div>
 
                   {/* Show Correct Answer logic: Admin OR (Candidate AND Results Released) */}
@@ -297,20 +381,29 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                     <div className="p-5 bg-emerald-50/50 dark:bg-emerald-900/10 rounded-xl border-l-4 border-emerald-500 dark:border-emerald-600">
                       <span className="block text-[10px] font-black uppercase tracking-widest text-emerald-600 dark:text-emerald-400 mb-2">{q.type === QuestionType.THEORY ? 'Model Answer / Rubric' : 'Correct Answer'}</span>
                       <div className="font-medium text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed text-sm md:text-base">
-                        {q.correctAnswer}
+                        {q.type === QuestionType.MRQ || q.type === QuestionType.SHORT_ANSWER ? q.correctAnswers?.join(', ') : q.correctAnswer}
+                        {q.type === QuestionType.SHORT_ANSWER && !!q.answerConfig?.acceptedPatterns?.length && (
+                          <span className="block text-xs font-mono text-slate-400 mt-1">Patterns: {q.answerConfig.acceptedPatterns.join('  ')}</span>
+                        )}
+                        {q.type === QuestionType.NUMERIC && !!q.answerConfig?.tolerance && (
+                          <span className="text-slate-400"> ± {q.answerConfig.tolerance}{q.answerConfig.toleranceType === ToleranceType.RELATIVE ? '%' : ''}</span>
+                        )}
+                        {q.type === QuestionType.NUMERIC && !!q.answerConfig?.acceptedUnits?.length && (
+                          <span className="block text-xs text-slate-400 mt-1">Units: {q.answerConfig.acceptedUnits.join(', ')}</span>
+                        )}
                       </div>
                     </div>
                   )}
                 </div>
 
-                {/* Enhanced MCQ/SBA Options Display for Context */}
-                {(q.type === QuestionType.MCQ || q.type === QuestionType.SBA) && q.options && (
+                {/* Enhanced MCQ/SBA/MRQ Options Display for Context */}
+                {(q.type === QuestionType.MCQ || q.type === QuestionType.SBA || q.type === QuestionType.MRQ) && q.options && (
                   <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-800">
                     <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4">Question Options</span>
                     <div className="space-y-2">
                       {q.options.map((opt, oIdx) => {
-                        const isSelected = userAnswer === opt;
-                        const isCorrect = opt === q.correctAnswer;
+                        const isSelected = Array.isArray(userAnswer) ? userAnswer.includes(opt) : userAnswer === opt;
+                        const isCorrect = q.type === QuestionType.MRQ ? !!q.correctAnswers?.includes(opt) : opt === q.correctAnswer;
                         const showCorrect = (isAdmin || submission.resultsReleased);
 
                         let bgClass = "bg-slate-50 dark:bg-slate-950 border-slate-200 dark:border-slate-800 hover:bg-slate-100 dark:hover:bg-slate-900";
@@ -333,7 +426,7 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                           <div key={oIdx} className={`p-3 md:p-4 rounded-lg border ${bgClass} flex items-center justify-between transition-colors`}>
                             <div className={`flex items-start gap-3 ${textClass}`}>
                               <span className="font-mono text-xs opacity-60 mt-0.5 min-w-[1.5rem]">[{String.fromCharCode(65 + oIdx)}]</span>
-                              <span className="font-medium text-sm leading-snug">{opt}</span>
+                              <RichText plain value={opt} className="font-medium text-sm leading-snug" />
                             </div>
                             {icon && <span className="font-bold flex-shrink-0 ml-4">{icon}</span>}
                           </div>
@@ -342,6 +435,37 @@ const SubmissionDetailModal: React.FC<SubmissionDetailModalProps> = ({
                     </div>
                   </div>
                 )}
+
+                {/* AI / grader feedback (rubric questions show it inside the rubric panel) */}
+                {q.type === QuestionType.THEORY && !q.rubric?.length && result?.feedback && (isAdmin || submission.resultsReleased) && (
+                  <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-800 space-y-3 text-sm">
+                    <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">
+                      Feedback {result.aiGraded && !result.manuallyGraded && <span className="ml-2 bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">AI</span>}
+                    </span>
+                    <p className="text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{result.feedback}</p>
+                    {[['Strengths', result.strengths, 'text-emerald-600'], ['Weaknesses', result.weaknesses, 'text-rose-600'], ['Next Steps', result.improvementSteps, 'text-indigo-600']].map(([label, items, color]) => (
+                      (items as string[] | undefined)?.length ? (
+                        <div key={label as string}>
+                          <span className={`text-[10px] font-black uppercase ${color}`}>{label as string}</span>
+                          <ul className="list-disc pl-5 text-slate-600 dark:text-slate-400">
+                            {(items as string[]).map((item, i) => <li key={i}>{item}</li>)}
+                          </ul>
+                        </div>
+                      ) : null
+                    ))}
+                  </div>
+                )}
+
+                {q.type === QuestionType.THEORY && !!q.rubric?.length && (isAdmin || submission.resultsReleased) && (
+                  <RubricPanel
+                    key={`${submission.id}-${q.id}`}
+                    rubric={q.rubric}
+                    result={result}
+                    maxPoints={q.points}
+                    editable={isAdmin && !!onManualGrade}
+                    onSave={res => onManualGrade?.(q.id, res)}
+                  />
+                )}
               </div>
             );
           })}
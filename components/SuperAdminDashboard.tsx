@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useMemo, memo } from 'react';
-import { User, UserRole, AuditLog, DatabaseConfig, ApiKey, ApiScope, BlogPost } from '../services/types';
+import { User, UserRole, AuditLog, DatabaseConfig, ApiKey, ApiScope, BlogPost, LlmProviderName, GroupRef } from '../services/types';
 import { STORAGE_KEYS } from '../constants';
 import { generateApiKey, sanitize, logEvent } from '../services/securityService';
 import { SecureStorage } from '../services/storageService';
@@ -28,6 +28,8 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
   const [systemLoad, setSystemLoad] = useState(42);
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [editingPost, setEditingPost] = useState<Partial<BlogPost> | null>(null);
+  const [groups, setGroups] = useState<GroupRef[]>([]);
+  const [broadcastGroupIds, setBroadcastGroupIds] = useState<string[]>([]);
 
   // Transaction State
   const [saveModal, setSaveModal] = useState<{ show: boolean, status: 'processing' | 'success' | 'error', message: string }>({ show: false, status: 'processing', message: '' });
@@ -44,6 +46,14 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
     if (activeView === 'audit') fetchLogs();
   }, [activeView]);
 
+  // Audiences for announcements and broadcasts
+  useEffect(() => {
+    if (!['announcements', 'email-server'].includes(activeView) || groups.length > 0) return;
+    api.admin.groups.list()
+      .then(list => setGroups(list.map(g => ({ id: g.id, name: g.name }))))
+      .catch(e => console.error('Failed to load groups', e));
+  }, [activeView]);
+
   // Use Settings from Context (Server Synced) directly
   const apiKeys = settings.apiKeys || [];
   const dbConfigs = settings.dbConfigs || [];
@@ -122,7 +132,7 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
 
       addToast('System backup downloaded.', 'success');
       // Log event
-      logEvent(null, 'System Backup', 'User initiated full system backup download');
+      logEvent(null, 'SYSTEM_BACKUP', 'User initiated full system backup download');
     } catch (e) {
       addToast("Backup failed to generate.", 'error');
     }
@@ -138,6 +148,7 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
       authorName: 'System Admin',
       createdAt: editingPost.createdAt || Date.now(),
       published: editingPost.published ?? true,
+      groups: editingPost.groups || [],
     };
     const updated = finalPost.id === editingPost.id
       ? announcements.map(p => (p.id === finalPost.id ? finalPost : p))
@@ -209,6 +220,13 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
                     {settings.aiGradingEnabled ? 'Enabled' : 'Disabled'}
                   </button>
                 </div>
+                <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-950 rounded-xl">
+                  <span className="font-bold">AI Question Generation</span>
+                  <button onClick={() => updateSettings({ aiQuestionGenEnabled: !settings.aiQuestionGenEnabled })}
+                    className={`px-4 py-2 rounded font-bold text-xs uppercase ${settings.aiQuestionGenEnabled ? 'bg-green-500 text-white' : 'bg-slate-200 text-slate-500'}`}>
+                    {settings.aiQuestionGenEnabled ? 'Enabled' : 'Disabled'}
+                  </button>
+                </div>
                 <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-950 rounded-xl">
                   <span className="font-bold">Maintenance Mode</span>
                   <button onClick={() => updateSettings({ maintenanceMode: !settings.maintenanceMode })}
@@ -219,6 +237,48 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
                 <button onClick={handleBackup} className="w-full py-4 bg-slate-900 text-white font-black uppercase rounded-xl hover:bg-slate-800">Download System Backup</button>
               </div>
             </div>
+
+            <div className="bg-white dark:bg-slate-900 p-10 theme-rounded shadow-sm">
+              <h2 className="font-black text-2xl uppercase mb-2">AI Provider</h2>
+              <p className="text-xs text-slate-400 mb-6">Used for question generation and theory grading. Choose Ollama or a self-hosted OpenAI-compatible server to keep student answers on your own infrastructure.</p>
+              <div className="space-y-4">
+                <select
+                  value={settings.llmConfig?.provider || LlmProviderName.GEMINI}
+                  onChange={e => setSettings({ ...settings, llmConfig: { ...settings.llmConfig, provider: e.target.value as LlmProviderName } })}
+                  className="w-full p-3 bg-slate-50 dark:bg-slate-950 rounded-lg font-bold"
+                >
+                  <option value={LlmProviderName.GEMINI}>Google Gemini</option>
+                  <option value={LlmProviderName.OPENAI}>OpenAI-compatible</option>
+                  <option value={LlmProviderName.OLLAMA}>Ollama (local)</option>
+                  <option value={LlmProviderName.MOCK}>Mock (offline, deterministic)</option>
+                </select>
+                {settings.llmConfig?.provider !== LlmProviderName.MOCK && (
+                  <>
+                    <input placeholder="Model (blank = provider default)" value={settings.llmConfig?.model || ''} onChange={e => setSettings({ ...settings, llmConfig: { provider: LlmProviderName.GEMINI, ...settings.llmConfig, model: e.target.value } })} className="w-full p-3 bg-slate-50 dark:bg-slate-950 rounded-lg font-bold" />
+                    {(settings.llmConfig?.provider === LlmProviderName.OPENAI || settings.llmConfig?.provider === LlmProviderName.OLLAMA) && (
+                      <input
+                        placeholder={settings.llmConfig.provider === LlmProviderName.OLLAMA ? 'Base URL (e.g. http://localhost:11434)' : 'Base URL (e.g. https://api.openai.com/v1)'}
+                        value={settings.llmConfig?.baseUrl || ''}
+                        onChange={e => setSettings({ ...settings, llmConfig: { ...settings.llmConfig!, baseUrl: e.target.value } })}
+                        className="w-full p-3 bg-slate-50 dark:bg-slate-950 rounded-lg font-bold"
+                      />
+                    )}
+                    {settings.llmConfig?.provider !== LlmProviderName.OLLAMA && (
+                      <input type="password" placeholder="API Key (blank = server environment)" value={settings.llmConfig?.apiKey || ''} onChange={e => setSettings({ ...settings, llmConfig: { provider: LlmProviderName.GEMINI, ...settings.llmConfig, apiKey: e.target.value } })} className="w-full p-3 bg-slate-50 dark:bg-slate-950 rounded-lg font-bold" />
+                    )}
+                  </>
+                )}
+                <button
+                  onClick={async () => {
+                    await updateSettings({ llmConfig: { provider: LlmProviderName.GEMINI, ...settings.llmConfig } });
+                    addToast('AI provider saved', 'success');
+                  }}
+                  className="w-full py-4 bg-indigo-600 text-white font-black uppercase rounded-xl hover:bg-indigo-700"
+                >
+                  Save AI Provider
+                </button>
+              </div>
+            </div>
           </div>
         )}
 
@@ -480,6 +540,23 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
               <div className="space-y-4 bg-slate-50 p-6 rounded-xl">
                 <input className="w-full p-2 font-bold" placeholder="Title" value={editingPost.title} onChange={e => setEditingPost({ ...editingPost, title: e.target.value })} />
                 <textarea className="w-full p-2 h-32" placeholder="Content" value={editingPost.content} onChange={e => setEditingPost({ ...editingPost, content: e.target.value })} />
+                {groups.length > 0 && (
+                  <div className="flex flex-wrap gap-2 items-center">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 mr-2">Audience{editingPost.groups?.length ? '' : ': Everyone'}</span>
+                    {groups.map(g => {
+                      const selected = !!editingPost.groups?.some(x => x.id === g.id);
+                      return (
+                        <button
+                          key={g.id}
+                          onClick={() => setEditingPost({ ...editingPost, groups: selected ? editingPost.groups?.filter(x => x.id !== g.id) : [...(editingPost.groups || []), g] })}
+                          className={`px-3 py-1 rounded-full text-xs font-bold border ${selected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white border-slate-200'}`}
+                        >
+                          {g.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
                 <div className="flex gap-2">
                   <button onClick={handleSavePost} className="bg-green-600 text-white px-6 py-2 rounded font-bold uppercase text-xs">Publish</button>
                   <button onClick={() => setEditingPost(null)} className="text-slate-500 font-bold uppercase text-xs">Cancel</button>
@@ -491,7 +568,10 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
                   <div key={post.id} className="p-4 border rounded bg-slate-50 group relative">
                     <h3 className="font-bold">{post.title}</h3>
                     <p className="text-sm text-slate-600 mt-1">{post.content}</p>
-                    <div className="text-xs text-slate-400 mt-2">By {post.authorName} on {new Date(post.createdAt).toLocaleDateString()}</div>
+                    <div className="text-xs text-slate-400 mt-2">
+                      By {post.authorName} on {new Date(post.createdAt).toLocaleDateString()}
+                      {post.groups && post.groups.length > 0 && <> · To {post.groups.map(g => g.name).join(', ')}</>}
+                    </div>
                     <button onClick={() => setEditingPost(post)} className="absolute top-4 right-14 text-indigo-600 text-xs font-bold uppercase opacity-0 group-hover:opacity-100 transition-opacity">Edit</button>
                     <button onClick={async () => {
                       if (confirm('Delete this announcement?')) {
@@ -599,18 +679,30 @@ const SuperAdminDashboard: React.FC<SuperAdminDashboardProps> = memo(({ announce
                   <option value="CANDIDATE">Candidates Only</option>
                   <option value="ADMIN">Admins Only</option>
                 </select>
+                {groups.length > 0 && (
+                  <select
+                    multiple
+                    value={broadcastGroupIds}
+                    onChange={e => setBroadcastGroupIds(Array.from(e.target.selectedOptions, (o: HTMLOptionElement) => o.value))}
+                    className="w-full p-3 bg-slate-50 dark:bg-slate-950 rounded-lg text-xs font-bold h-24"
+                    title="Limit to members of these groups (none selected = no group filter)"
+                  >
+                    {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                  </select>
+                )}
                 <button onClick={async () => {
                   const subj = (document.getElementById('broadcast-subject') as HTMLInputElement).value;
                   const msg = (document.getElementById('broadcast-message') as HTMLTextAreaElement).value;
                   const role = (document.getElementById('broadcast-role') as HTMLSelectElement).value;
                   if (!subj || !msg) { addToast("Subject/Message required", 'error'); return; }
-                  if (!confirm(`Send to ${role}?`)) return;
+                  const groupNames = groups.filter(g => broadcastGroupIds.includes(g.id)).map(g => g.name);
+                  if (!confirm(`Send to ${role}${groupNames.length ? ` in ${groupNames.join(', ')}` : ''}?`)) return;
 
                   try {
                     const res = await fetch('/api/admin/broadcast', {
                       method: 'POST',
                       headers: { 'Content-Type': 'application/json' },
-                      body: JSON.stringify({ subject: subj, message: msg, targetRole: role })
+                      body: JSON.stringify({ subject: subj, message: msg, targetRole: role, groupIds: broadcastGroupIds })
                     });
                     const data = await res.json();
                     if (data.success) addToast(`Sent to ${data.sent} users.`, 'success');
@@ -0,0 +1,2 @@
+-- Numeric-answer questions (tolerance / units live in Question.answerConfig)
+ALTER TYPE "QuestionType" ADD VALUE IF NOT EXISTS 'NUMERIC';
@@ -0,0 +1,2 @@
+-- Short-answer questions (accepted answers in Question.correctAnswers, matching rules in answerConfig)
+ALTER TYPE "QuestionType" ADD VALUE IF NOT EXISTS 'SHORT_ANSWER';
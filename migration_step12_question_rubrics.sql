@@ -0,0 +1,3 @@
+-- Rubrics for THEORY questions (criteria -> performance levels)
+ALTER TABLE "Question"
+ADD COLUMN IF NOT EXISTS "rubric" JSONB;
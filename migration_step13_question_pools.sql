@@ -0,0 +1,9 @@
+-- Question pools: exams draw a random paper per candidate at start
+ALTER TABLE "Question"
+ADD COLUMN IF NOT EXISTS "difficulty" "Difficulty";
+
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "poolRules" JSONB;
+
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "questionIds" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,10 @@
+-- Server-side shuffling, fixed per submission
+ALTER TABLE "Question"
+ADD COLUMN IF NOT EXISTS "lockedOptions" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[];
+
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "shuffleQuestions" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS "shuffleOptions" BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "optionOrder" JSONB;
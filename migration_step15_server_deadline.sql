@@ -0,0 +1,4 @@
+-- Server-authoritative attempt deadlines
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "extraTimeSeconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "isLate" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,24 @@
+-- Per-candidate accommodations (extra time, rest breaks, separate sitting)
+CREATE TABLE IF NOT EXISTS "Accommodation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "extraTimePercent" INTEGER NOT NULL DEFAULT 0,
+    "extraMinutes" INTEGER NOT NULL DEFAULT 0,
+    "restBreakMinutes" INTEGER NOT NULL DEFAULT 0,
+    "separateSitting" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "Accommodation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Accommodation_userId_key" ON "Accommodation"("userId");
+
+ALTER TABLE "Accommodation" DROP CONSTRAINT IF EXISTS "Accommodation_userId_fkey";
+ALTER TABLE "Accommodation"
+ADD CONSTRAINT "Accommodation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "pausedSeconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "breakStartedAt" TIMESTAMP(3);
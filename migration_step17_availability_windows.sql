@@ -0,0 +1,6 @@
+-- Exam availability windows, fixed-start sittings and late-entry cut-offs
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "opensAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "closesAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "fixedStart" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS "lateEntryMinutes" INTEGER;
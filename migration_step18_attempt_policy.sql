@@ -0,0 +1,11 @@
+-- Multiple attempts per exam: limit, cooldown and which attempt counts
+DO $$ BEGIN
+    CREATE TYPE "AttemptScoring" AS ENUM ('BEST', 'LAST', 'AVERAGE');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "maxAttempts" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS "attemptCooldownMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "attemptScoring" "AttemptScoring" NOT NULL DEFAULT 'BEST';
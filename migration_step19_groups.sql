@@ -0,0 +1,58 @@
+-- Groups (classes, cohorts, departments) with exam assignment and announcement audiences
+DO $$ BEGIN
+    CREATE TYPE "GroupKind" AS ENUM ('CLASS', 'COHORT', 'DEPARTMENT');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "Group" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "GroupKind" NOT NULL DEFAULT 'CLASS',
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Group_pkey" PRIMARY KEY ("id")
+);
+
+-- Implicit many-to-many join tables (A/B follow Prisma's alphabetical model order)
+CREATE TABLE IF NOT EXISTS "_GroupMembers" ("A" TEXT NOT NULL, "B" TEXT NOT NULL);
+CREATE UNIQUE INDEX IF NOT EXISTS "_GroupMembers_AB_unique" ON "_GroupMembers"("A", "B");
+CREATE INDEX IF NOT EXISTS "_GroupMembers_B_index" ON "_GroupMembers"("B");
+
+CREATE TABLE IF NOT EXISTS "_ExamGroups" ("A" TEXT NOT NULL, "B" TEXT NOT NULL);
+CREATE UNIQUE INDEX IF NOT EXISTS "_ExamGroups_AB_unique" ON "_ExamGroups"("A", "B");
+CREATE INDEX IF NOT EXISTS "_ExamGroups_B_index" ON "_ExamGroups"("B");
+
+CREATE TABLE IF NOT EXISTS "_ExamAssignees" ("A" TEXT NOT NULL, "B" TEXT NOT NULL);
+CREATE UNIQUE INDEX IF NOT EXISTS "_ExamAssignees_AB_unique" ON "_ExamAssignees"("A", "B");
+CREATE INDEX IF NOT EXISTS "_ExamAssignees_B_index" ON "_ExamAssignees"("B");
+
+CREATE TABLE IF NOT EXISTS "_BlogPostGroups" ("A" TEXT NOT NULL, "B" TEXT NOT NULL);
+CREATE UNIQUE INDEX IF NOT EXISTS "_BlogPostGroups_AB_unique" ON "_BlogPostGroups"("A", "B");
+CREATE INDEX IF NOT EXISTS "_BlogPostGroups_B_index" ON "_BlogPostGroups"("B");
+
+ALTER TABLE "_GroupMembers" DROP CONSTRAINT IF EXISTS "_GroupMembers_A_fkey";
+ALTER TABLE "_GroupMembers" DROP CONSTRAINT IF EXISTS "_GroupMembers_B_fkey";
+ALTER TABLE "_GroupMembers"
+ADD CONSTRAINT "_GroupMembers_A_fkey" FOREIGN KEY ("A") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+ADD CONSTRAINT "_GroupMembers_B_fkey" FOREIGN KEY ("B") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "_ExamGroups" DROP CONSTRAINT IF EXISTS "_ExamGroups_A_fkey";
+ALTER TABLE "_ExamGroups" DROP CONSTRAINT IF EXISTS "_ExamGroups_B_fkey";
+ALTER TABLE "_ExamGroups"
+ADD CONSTRAINT "_ExamGroups_A_fkey" FOREIGN KEY ("A") REFERENCES "Exam"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+ADD CONSTRAINT "_ExamGroups_B_fkey" FOREIGN KEY ("B") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "_ExamAssignees" DROP CONSTRAINT IF EXISTS "_ExamAssignees_A_fkey";
+ALTER TABLE "_ExamAssignees" DROP CONSTRAINT IF EXISTS "_ExamAssignees_B_fkey";
+ALTER TABLE "_ExamAssignees"
+ADD CONSTRAINT "_ExamAssignees_A_fkey" FOREIGN KEY ("A") REFERENCES "Exam"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+ADD CONSTRAINT "_ExamAssignees_B_fkey" FOREIGN KEY ("B") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "_BlogPostGroups" DROP CONSTRAINT IF EXISTS "_BlogPostGroups_A_fkey";
+ALTER TABLE "_BlogPostGroups" DROP CONSTRAINT IF EXISTS "_BlogPostGroups_B_fkey";
+ALTER TABLE "_BlogPostGroups"
+ADD CONSTRAINT "_BlogPostGroups_A_fkey" FOREIGN KEY ("A") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+ADD CONSTRAINT "_BlogPostGroups_B_fkey" FOREIGN KEY ("B") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Start codes for supervised sittings (fixed per exam or rotating)
+DO $$ BEGIN
+    CREATE TYPE "AccessCodeMode" AS ENUM ('NONE', 'FIXED', 'ROTATING');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "accessCodeMode" "AccessCodeMode" NOT NULL DEFAULT 'NONE',
+ADD COLUMN IF NOT EXISTS "accessCode" TEXT,
+ADD COLUMN IF NOT EXISTS "accessCodeSecret" TEXT,
+ADD COLUMN IF NOT EXISTS "accessCodeRotationMinutes" INTEGER NOT NULL DEFAULT 10;
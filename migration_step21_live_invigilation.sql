@@ -0,0 +1,7 @@
+-- Live invigilation: draft heartbeat, client alert count and invigilator termination
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "lastDraftAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "proctorAlerts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "terminatedAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "terminatedBy" TEXT,
+ADD COLUMN IF NOT EXISTS "terminationReason" TEXT;
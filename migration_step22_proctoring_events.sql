@@ -0,0 +1,24 @@
+-- Proctoring events reported by the exam client, per submission
+DO $$ BEGIN
+    CREATE TYPE "ProctoringEventType" AS ENUM ('TAB_HIDDEN', 'WINDOW_BLUR', 'FULLSCREEN_EXIT', 'COPY_PASTE', 'CAMERA_DENIED', 'CONNECTION_LOST');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "ProctoringEvent" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "type" "ProctoringEventType" NOT NULL,
+    "details" TEXT,
+    "durationMs" INTEGER,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProctoringEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ProctoringEvent_submissionId_occurredAt_idx" ON "ProctoringEvent"("submissionId", "occurredAt");
+
+ALTER TABLE "ProctoringEvent" DROP CONSTRAINT IF EXISTS "ProctoringEvent_submissionId_fkey";
+ALTER TABLE "ProctoringEvent"
+ADD CONSTRAINT "ProctoringEvent_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- On-device face presence detection: new event types and webcam snapshots
+ALTER TYPE "ProctoringEventType" ADD VALUE IF NOT EXISTS 'FACE_NOT_DETECTED';
+ALTER TYPE "ProctoringEventType" ADD VALUE IF NOT EXISTS 'MULTIPLE_FACES';
+ALTER TYPE "ProctoringEventType" ADD VALUE IF NOT EXISTS 'LOOKING_AWAY';
+
+CREATE TABLE IF NOT EXISTS "ProctoringSnapshot" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "imageData" TEXT NOT NULL,
+    "reason" TEXT,
+    "takenAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProctoringSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ProctoringSnapshot_submissionId_takenAt_idx" ON "ProctoringSnapshot"("submissionId", "takenAt");
+
+ALTER TABLE "ProctoringSnapshot" DROP CONSTRAINT IF EXISTS "ProctoringSnapshot_submissionId_fkey";
+ALTER TABLE "ProctoringSnapshot"
+ADD CONSTRAINT "ProctoringSnapshot_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Fullscreen lockdown mode with a violation threshold
+ALTER TYPE "ProctoringEventType" ADD VALUE IF NOT EXISTS 'MULTIPLE_SCREENS';
+ALTER TYPE "ProctoringEventType" ADD VALUE IF NOT EXISTS 'DEVTOOLS_OPEN';
+
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "lockdownMode" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS "lockdownMaxViolations" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- Offline answer journal: ordered draft replays and idempotent hand-in
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "draftSeq" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "submitKey" TEXT;
@@ -0,0 +1,10 @@
+-- Exam sections with their own timing and navigation rules
+ALTER TABLE "Exam"
+ADD COLUMN IF NOT EXISTS "sections" JSONB;
+
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "sectionSizes" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN IF NOT EXISTS "sectionIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "sectionStartedAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "sectionPausedAtStart" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "sectionExtraAtStart" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Flag-for-review: questions the candidate marked to revisit, saved with the draft
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "flaggedQuestionIds" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,19 @@
+-- Media attachments stored outside the database (local disk or S3-compatible storage)
+CREATE TABLE IF NOT EXISTS "MediaAsset" (
+    "id" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "filename" TEXT,
+    "sha256" TEXT NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MediaAsset_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MediaAsset_storageKey_key" ON "MediaAsset"("storageKey");
+CREATE INDEX IF NOT EXISTS "MediaAsset_sha256_idx" ON "MediaAsset"("sha256");
+
+ALTER TABLE "Question"
+ADD COLUMN IF NOT EXISTS "attachments" JSONB;
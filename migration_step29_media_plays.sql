@@ -0,0 +1,3 @@
+-- Audio/video stimulus play counts and events, recorded per attempt
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "mediaPlays" JSONB;
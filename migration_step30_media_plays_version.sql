@@ -0,0 +1,3 @@
+-- Version counter for Submission.mediaPlays, so simultaneous media events cannot overwrite each other
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "mediaPlaysVersion" INTEGER NOT NULL DEFAULT 0;
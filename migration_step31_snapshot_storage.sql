@@ -0,0 +1,6 @@
+-- Webcam stills move to media storage; the row keeps only the storage key
+ALTER TABLE "ProctoringSnapshot"
+ADD COLUMN IF NOT EXISTS "storageKey" TEXT;
+
+ALTER TABLE "ProctoringSnapshot"
+ALTER COLUMN "imageData" DROP NOT NULL;
@@ -0,0 +1,8 @@
+-- Persist the score breakdown produced by the server-side grading engine
+ALTER TABLE "Submission"
+ADD COLUMN IF NOT EXISTS "rawScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "negativeDeduction" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "latePenaltyDeduction" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: existing scores had no deductions applied
+UPDATE "Submission" SET "rawScore" = "score" WHERE "rawScore" = 0;
@@ -0,0 +1,6 @@
+-- Multiple Response (select all that apply) questions
+ALTER TYPE "QuestionType" ADD VALUE IF NOT EXISTS 'MRQ';
+
+ALTER TABLE "Question"
+ADD COLUMN IF NOT EXISTS "correctAnswers" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN IF NOT EXISTS "answerConfig" JSONB;
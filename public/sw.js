@@ -0,0 +1,61 @@
+const CACHE_NAME = 'examinepro-v3';
+
+// The app shell. Hashed build assets are cached as they load, so a reload mid-exam works offline.
+const SHELL = ['/', '/index.html'];
+
+// Styling loaded from CDNs in index.html; without it an offline reload is unreadable
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting();
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) => {
+      return Promise.all(
+        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+      );
+    }).then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+
+  // API responses are never cached: answers and exam content live in the encrypted journal instead
+  const isOwn = url.origin === self.location.origin;
+  if (event.request.method !== 'GET' || (isOwn && url.pathname.startsWith('/api/')) || (!isOwn && !CDN_HOSTS.includes(url.hostname))) {
+    return;
+  }
+
+  // Pages: network first so deploys show up, the cached shell when offline
+  if (event.request.mode === 'navigate') {
+    event.respondWith(
+      fetch(event.request).then((fetchRes) => {
+        if (fetchRes.ok) {
+          const copy = fetchRes.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+        }
+        return fetchRes;
+      }).catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Scripts, styles, fonts, models and wasm: cache first (CDN script tags give opaque responses)
+  event.respondWith(
+    caches.match(event.request).then((response) => {
+      return response || fetch(event.request).then((fetchRes) => {
+        if (fetchRes.status === 200 || fetchRes.type === 'opaque') {
+          const copy = fetchRes.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+        }
+        return fetchRes;
+      });
+    })
+  );
+});
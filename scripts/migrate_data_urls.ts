@@ -0,0 +1,96 @@
+import { db } from '../api/_lib/db';
+import { externalizeDataUrl, parseDataUrl } from '../api/_lib/media';
+import { snapshotStorageKey } from '../api/_lib/integrity';
+import { getStorage } from '../api/_lib/storage';
+
+/**
+ * Moves base64 data URLs out of the database and into media storage (MEDIA_STORAGE / S3_*):
+ * Question.imageUrl and the branding logo and favicon, each replaced by its /api/media URL, and
+ * older webcam stills, which keep only their storage key. Safe to run more than once; identical
+ * files share one asset.
+ *
+ *   npx tsx scripts/migrate_data_urls.ts [--dry-run]
+ */
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+    let moved = 0;
+    let failed = 0;
+
+    const questions = await db.question.findMany({
+        where: { imageUrl: { startsWith: 'data:' } },
+        select: { id: true, imageUrl: true }
+    });
+    console.log(`Found ${questions.length} questions with inline images.`);
+
+    for (const q of questions) {
+        if (dryRun) continue;
+        const result = await externalizeDataUrl(q.imageUrl);
+        if ('error' in result) {
+            console.warn(`Question ${q.id}: ${result.error} (left as is)`);
+            failed++;
+            continue;
+        }
+        await db.question.update({ where: { id: q.id }, data: { imageUrl: result.url } });
+        moved++;
+    }
+
+    const branding = await db.systemSettings.findUnique({ where: { key: 'branding' } });
+    if (branding) {
+        const value = JSON.parse(branding.value || '{}');
+        let changed = false;
+        for (const field of ['appIcon', 'faviconUrl']) {
+            if (typeof value[field] !== 'string' || !value[field].startsWith('data:')) continue;
+            console.log(`Branding ${field} is an inline image.`);
+            if (dryRun) continue;
+
+            const result = await externalizeDataUrl(value[field]);
+            if ('error' in result) {
+                console.warn(`Branding ${field}: ${result.error} (left as is)`);
+                failed++;
+                continue;
+            }
+            value[field] = result.url;
+            changed = true;
+            moved++;
+        }
+        if (changed) await db.systemSettings.update({ where: { key: 'branding' }, data: { value: JSON.stringify(value) } });
+    }
+
+    // Webcam stills are private, so they go straight to storage rather than becoming media assets
+    const inlineSnapshots = await db.proctoringSnapshot.count({ where: { imageData: { not: null } } });
+    console.log(`Found ${inlineSnapshots} webcam stills stored inline.`);
+    const skipped: string[] = [];
+    while (!dryRun) {
+        const snapshots = await db.proctoringSnapshot.findMany({
+            where: { imageData: { not: null }, id: { notIn: skipped } },
+            select: { id: true, submissionId: true, imageData: true },
+            take: 100
+        });
+        if (snapshots.length === 0) break;
+        for (const s of snapshots) {
+            const parsed = parseDataUrl(s.imageData!);
+            if (!parsed) {
+                console.warn(`Snapshot ${s.id}: invalid data URL (left as is)`);
+                skipped.push(s.id);
+                failed++;
+                continue;
+            }
+            const storageKey = snapshotStorageKey(s.submissionId);
+            await getStorage().put(storageKey, parsed.body, parsed.contentType);
+            await db.proctoringSnapshot.update({ where: { id: s.id }, data: { storageKey, imageData: null } });
+            moved++;
+        }
+    }
+
+    console.log(dryRun ? 'Dry run: nothing was changed.' : `Moved ${moved} images to media storage; ${failed} could not be moved.`);
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await db.$disconnect();
+    });
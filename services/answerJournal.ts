@@ -0,0 +1,177 @@
+import { AnswerValue, Exam, User } from './types';
+
+/**
+ * Local answer journal for an attempt, kept in IndexedDB and encrypted (AES-GCM) with the
+ * per-submission key the server hands out at start. Every answer change is written here, so a
+ * dropped connection or a reload loses nothing; the exam replays the journal to the server
+ * (draft + hand-in) once it is back online.
+ *
+ * The key itself is held for the tab's lifetime in sessionStorage: a reload can decrypt without
+ * the network, and after the tab closes the data stays unreadable until the attempt is resumed.
+ */
+
+// What a reload needs to put the candidate straight back into the attempt
+export interface JournalSession {
+  user: User;
+  exam: Exam;
+  startTime: number;
+}
+
+export interface JournalState {
+  answers: Record<string, AnswerValue>;
+  seq: number; // Bumped on every change; the server keeps the draft with the highest seq
+  flags?: string[]; // Questions flagged for review
+  mediaPlays?: Record<string, number>; // Plays used per audio/video clip
+  submitKey?: string; // Set when the candidate hands in, until the server has confirmed it
+  clock?: { deadline: number; clockOffset: number; breakSecondsLeft: number; sectionIndex?: number; sectionDeadline?: number | null };
+}
+
+type JournalKind = 'session' | 'state';
+
+interface JournalRecord {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  updatedAt: number;
+}
+
+const DB_NAME = 'examinepro-journal';
+const STORE = 'records';
+const KEY_PREFIX = 'journal_key_';
+const JOURNAL_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Abandoned attempts are pruned after a week
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const keys = new Map<string, CryptoKey>();
+const states = new Map<string, JournalState>();
+let writes: Promise<unknown> = Promise.resolve(); // Writes are applied in order
+
+const openDb = () => {
+  dbPromise ||= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const getKey = async (submissionId: string) => {
+  if (keys.has(submissionId)) return keys.get(submissionId)!;
+  const raw = sessionStorage.getItem(KEY_PREFIX + submissionId);
+  if (!raw) return null;
+  const key = await crypto.subtle.importKey('raw', Uint8Array.from(atob(raw), c => c.charCodeAt(0)), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  keys.set(submissionId, key);
+  return key;
+};
+
+const put = async (submissionId: string, kind: JournalKind, value: unknown) => {
+  const key = await getKey(submissionId);
+  if (!key) return;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  const record: JournalRecord = { iv, data, updatedAt: Date.now() };
+  await run('readwrite', store => store.put(record, [submissionId, kind]));
+};
+
+const get = async <T>(submissionId: string, kind: JournalKind): Promise<T | null> => {
+  const key = await getKey(submissionId);
+  if (!key) return null;
+  const record = await run<JournalRecord | undefined>('readonly', store => store.get([submissionId, kind]));
+  if (!record) return null;
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, key, record.data);
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+};
+
+const enqueue = (task: () => Promise<unknown>) => {
+  writes = writes.then(task).catch(e => console.error('[Journal] Write failed', e));
+  return writes;
+};
+
+const pruneJournals = () => enqueue(async () => {
+  const db = await openDb();
+  const cursorReq = db.transaction(STORE, 'readwrite').objectStore(STORE).openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    if (Date.now() - (cursor.value as JournalRecord).updatedAt > JOURNAL_TTL_MS) cursor.delete();
+    cursor.continue();
+  };
+});
+
+// Journaling is best effort: without IndexedDB or a key the exam still runs on server drafts alone
+export const openJournal = async (submissionId: string, keyBase64: string) => {
+  try {
+    sessionStorage.setItem(KEY_PREFIX + submissionId, keyBase64);
+    keys.delete(submissionId);
+    await getKey(submissionId);
+    pruneJournals();
+  } catch (e) {
+    console.warn('[Journal] Unavailable', e);
+  }
+};
+
+export const hasJournal = (submissionId: string) => keys.has(submissionId) || !!sessionStorage.getItem(KEY_PREFIX + submissionId);
+
+export const readJournal = async (submissionId: string): Promise<JournalState | null> => {
+  if (states.has(submissionId)) return states.get(submissionId)!;
+  try {
+    await writes;
+    const state = await get<JournalState>(submissionId, 'state');
+    if (state) states.set(submissionId, state);
+    return state;
+  } catch (e) {
+    console.warn('[Journal] Could not read journal', e);
+    return null;
+  }
+};
+
+export const writeJournal = async (submissionId: string, patch: Partial<JournalState>) => {
+  if (!hasJournal(submissionId)) return;
+  const current = (await readJournal(submissionId)) || { answers: {}, seq: 0 };
+  const next = { ...current, ...patch };
+  states.set(submissionId, next);
+  await enqueue(() => put(submissionId, 'state', next));
+};
+
+export const saveJournalSession = (submissionId: string, session: JournalSession) => {
+  if (!hasJournal(submissionId)) return Promise.resolve();
+  return enqueue(() => put(submissionId, 'session', session));
+};
+
+export const clearJournal = (submissionId: string) => {
+  states.delete(submissionId);
+  keys.delete(submissionId);
+  sessionStorage.removeItem(KEY_PREFIX + submissionId);
+  return enqueue(async () => {
+    await run('readwrite', store => store.delete([submissionId, 'session']));
+    await run('readwrite', store => store.delete([submissionId, 'state']));
+  });
+};
+
+/**
+ * The attempt this tab was sitting, for a reload while offline (the server cannot be asked).
+ */
+export const findJournaledAttempt = async (): Promise<{ submissionId: string; session: JournalSession; state: JournalState } | null> => {
+  const ids = Object.keys(sessionStorage).filter(k => k.startsWith(KEY_PREFIX)).map(k => k.slice(KEY_PREFIX.length));
+  let latest: { submissionId: string; session: JournalSession; state: JournalState } | null = null;
+  for (const submissionId of ids) {
+    try {
+      const [session, state] = await Promise.all([get<JournalSession>(submissionId, 'session'), readJournal(submissionId)]);
+      if (session && state && (!latest || session.startTime > latest.session.startTime)) latest = { submissionId, session, state };
+    } catch (e) {
+      console.warn('[Journal] Could not restore attempt', e);
+    }
+  }
+  return latest;
+};
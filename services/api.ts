@@ -1,5 +1,18 @@
 
-import { Question, Exam, Submission, User } from './types.js';
+import { Question, Exam, Submission, User, QuestionType, Difficulty, Accommodation, Group, AccessCodeDisplay, LiveAttempt, IntegrityReport, QuestionAttachment, MediaPlayEventType } from './types.js';
+
+// Server view of an attempt's clock (see api/_lib/deadline.ts)
+export interface AttemptClockState {
+  deadline: number;
+  serverNow: number;
+  onBreak: boolean;
+  breakSecondsLeft: number;
+  sectionIndex?: number; // Sectioned exams: the section the candidate is on
+  sectionDeadline?: number | null; // ...and when its time limit runs out
+}
+
+// Group create / update payload; memberIds replaces the member list
+export type GroupInput = Partial<Omit<Group, 'members'>> & { memberIds?: string[] };
 
 const API_BASE = '/api';
 
@@ -45,6 +58,8 @@ const request = async <T>(endpoint: string, options: RequestInit = {}): Promise<
         console.error("API Error Text:", text);
         // If text is HTML (Vercel 404/500 page), showing it is helpful
         if (text.includes('<!DOCTYPE html>')) errorMsg = `Server Error (${res.status})`;
+        // The hosting platform rejects oversized bodies before the API sees them (Vercel: 4.5 MB)
+        if (res.status === 413) errorMsg = 'File is too large to upload to this server';
       }
       throw new Error(errorMsg);
     }
@@ -77,6 +92,7 @@ export const api = {
     delete: (id: string) => request<void>(`/questions?id=${id}`, { method: 'DELETE' }),
 
     import: (data: any[]) => request<{ count: number }>('/questions?action=batch', { method: 'POST', body: JSON.stringify(data) }),
+    generate: (params: { topic: string; count: number; types: QuestionType[]; difficulty?: Difficulty }) => request<{ questions: Partial<Question>[]; provider: string }>('/questions?action=generate', { method: 'POST', body: JSON.stringify(params) }),
     bulkDelete: (ids: string[]) => request<{ count: number }>('/questions?action=batch', { method: 'DELETE', body: JSON.stringify({ ids }) }),
   },
   exams: {
@@ -86,7 +102,9 @@ export const api = {
     update: (id: string, data: Partial<Exam>) => request<Exam>(`/exams?id=${id}`, { method: 'PUT', body: JSON.stringify(data) }),
     delete: (id: string) => request<void>(`/exams?id=${id}`, { method: 'DELETE' }),
     releaseResults: (id: string) => request<void>(`/exams?id=${id}&action=release`, { method: 'POST' }),
-    start: (examId: string) => request<{ exam: Exam, startTime: number, submissionId: string, answersDraft?: any, resumed?: boolean }>('/submissions?action=start', { method: 'POST', body: JSON.stringify({ examId }) }),
+    start: (examId: string, accessCode?: string) => request<AttemptClockState & { exam: Exam, startTime: number, submissionId: string, answersDraft?: any, draftSeq?: number, flaggedQuestionIds?: string[], mediaPlays?: Record<string, number>, journalKey?: string, resumed?: boolean }>('/submissions?action=start', { method: 'POST', body: JSON.stringify({ examId, accessCode }) }),
+    accessCode: (id: string) => request<AccessCodeDisplay>(`/exams?id=${id}&action=access-code`),
+    regenerateAccessCode: (id: string) => request<AccessCodeDisplay>(`/exams?id=${id}&action=access-code`, { method: 'POST' }),
   },
   submissions: {
     list: (params: { page?: number; limit?: number; mode?: 'history' } = {}) => {
@@ -95,16 +113,26 @@ export const api = {
     },
     get: (id: string) => request<Submission>(`/submissions?id=${id}`),
     create: (data: any) => request<Submission>('/submissions', { method: 'POST', body: JSON.stringify(data) }),
-    update: (id: string, data: any) => request<Submission>(`/submissions?id=${id}`, { method: 'PUT', body: JSON.stringify(data) }),
+    update: (id: string, data: any) => request<Submission & { lateRejected?: boolean }>(`/submissions?id=${id}`, { method: 'PUT', body: JSON.stringify(data) }),
+    timer: (id: string) => request<AttemptClockState & { graceEndsAt: number; submitted: boolean }>(`/submissions?id=${id}&action=timer`),
+    startBreak: (id: string) => request<AttemptClockState>(`/submissions?id=${id}&action=break-start`, { method: 'POST' }),
+    endBreak: (id: string) => request<AttemptClockState>(`/submissions?id=${id}&action=break-end`, { method: 'POST' }),
+    nextSection: (id: string, fromIndex: number, answers?: any, seq?: number) => request<AttemptClockState>(`/submissions?id=${id}&action=next-section`, { method: 'POST', body: JSON.stringify({ fromIndex, answers, seq }) }),
+    mediaEvent: (id: string, questionId: string, attachmentId: string, type: MediaPlayEventType) => request<{ plays: number }>(`/submissions?id=${id}&action=media-event`, { method: 'POST', body: JSON.stringify({ questionId, attachmentId, type }) }),
     delete: (id: string) => request<void>(`/submissions?id=${id}`, { method: 'DELETE' }),
-    saveDraft: (submissionId: string, answers: any) => request<void>('/submissions?action=draft', { method: 'POST', body: JSON.stringify({ submissionId, answers }) }),
+    saveDraft: (submissionId: string, answers: any, seq?: number, flags?: string[]) => request<{ success: boolean; stale?: boolean; savedAt: number }>('/submissions?action=draft', { method: 'POST', body: JSON.stringify({ submissionId, answers, seq, flags }) }),
+    integrity: (id: string) => request<IntegrityReport>(`/submissions?id=${id}&action=integrity`),
+    live: (examId: string) => request<{ attempts: LiveAttempt[]; serverNow: number }>(`/submissions?mode=live&examId=${examId}`),
+    extendTime: (id: string, minutes: number) => request<{ success: boolean; deadline: number }>(`/submissions?id=${id}&action=extend-time`, { method: 'POST', body: JSON.stringify({ minutes }) }),
+    forceSubmit: (id: string, reason?: string) => request<void>(`/submissions?id=${id}&action=force-submit`, { method: 'POST', body: JSON.stringify({ reason }) }),
+    terminate: (id: string, reason: string) => request<void>(`/submissions?id=${id}&action=terminate`, { method: 'POST', body: JSON.stringify({ reason }) }),
     grade: (submissionId: string, questionId: string, result: any) => request<void>(`/submissions?id=${submissionId}&action=grade`, { method: 'POST', body: JSON.stringify({ questionId, result }) }),
     release: (submissionId: string) => request<void>(`/submissions?id=${submissionId}&action=release`, { method: 'POST' }),
     toggleRelease: (submissionId: string, release: boolean) => request<void>(`/submissions?id=${submissionId}&action=toggle-release`, { method: 'POST', body: JSON.stringify({ release }) }),
     releaseAll: () => request<void>('/submissions?action=release-all-scheduled', { method: 'POST' }),
     regradeAll: () => request<{ success: boolean; count: number }>('/submissions?action=regrade-all', { method: 'POST' }),
     regrade: (id: string) => request<{ success: boolean; result: any }>(`/submissions?id=${id}&action=regrade`, { method: 'POST' }),
-    aiGrade: (submissionId: string) => request<void>(`/submissions?id=${submissionId}&action=ai-grade`, { method: 'POST' }),
+    aiGrade: (submissionId: string) => request<{ success: boolean; graded: number; failed: number; score: number }>(`/submissions?id=${submissionId}&action=ai-grade`, { method: 'POST' }),
     markReviewed: (submissionId: string) => request<void>(`/submissions?id=${submissionId}&action=review`, { method: 'POST' }),
     bulkDelete: (ids: string[]) => request<void>(`/submissions?ids=${ids.join(',')}`, { method: 'DELETE' }),
   },
@@ -115,9 +143,18 @@ export const api = {
         resetPassword: (userId: string, newPassword: string) => request<any>('/admin/users', {
           method: 'POST',
           body: JSON.stringify({ action: 'reset-password', userId, newPassword })
+        }),
+        setAccommodation: (userId: string, accommodation: Accommodation) => request<{ success: boolean; accommodation: Accommodation | null }>('/admin/users', {
+          method: 'POST',
+          body: JSON.stringify({ action: 'set-accommodation', userId, accommodation })
         })
       }
     ),
+    groups: {
+      list: () => request<Group[]>('/admin/groups'),
+      save: (group: GroupInput) => request<Group>('/admin/groups', { method: 'POST', body: JSON.stringify(group) }),
+      delete: (id: string) => request<void>(`/admin/groups?id=${id}`, { method: 'DELETE' }),
+    },
     logs: (page = 1, limit = 50) => request<{ data: any[], pagination: any }>(`/admin/logs?page=${page}&limit=${limit}`),
     stats: () => request<any>('/admin/stats'),
     broadcast: (data: any) => request<any>('/admin/broadcast', { method: 'POST', body: JSON.stringify(data) }),
@@ -132,6 +169,14 @@ export const api = {
   settings: {
     get: () => request<any>('/admin/settings'),
     update: (data: any) => request<any>('/admin/settings', { method: 'POST', body: JSON.stringify(data) }),
+  },
+  media: {
+    // The file goes up as the raw body; the server checks its type and size
+    upload: (file: File) => request<QuestionAttachment & { size: number }>('/media', {
+      method: 'POST',
+      body: file,
+      headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-Filename': encodeURIComponent(file.name) },
+    }),
   }
 };
 
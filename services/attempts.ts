@@ -0,0 +1,43 @@
+import { AttemptScoring, Exam, GradingStatus, Submission } from './types';
+
+export const ATTEMPT_SCORING_LABELS: Record<AttemptScoring, string> = {
+  BEST: 'Best attempt',
+  LAST: 'Last attempt',
+  AVERAGE: 'Average of attempts'
+};
+
+const isFinished = (s: Submission) => s.gradingStatus !== GradingStatus.UNGRADED;
+
+/**
+ * The score that counts for one candidate on one exam under the exam's attempts policy.
+ * Only finished attempts count; `attempt` is the one the score comes from (the latest for AVERAGE).
+ */
+export const getCountedScore = (scoring: AttemptScoring | undefined, attempts: Submission[]): { score: number; attempt: Submission } | null => {
+  const finished = attempts.filter(isFinished).sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+  if (finished.length === 0) return null;
+
+  const last = finished[finished.length - 1];
+  switch (scoring) {
+    case 'LAST':
+      return { score: last.score, attempt: last };
+    case 'AVERAGE':
+      return { score: finished.reduce((sum, s) => sum + s.score, 0) / finished.length, attempt: last };
+    default: {
+      const best = finished.reduce((top, s) => s.score > top.score ? s : top, finished[0]);
+      return { score: best.score, attempt: best };
+    }
+  }
+};
+
+// One counted result per candidate for an exam, for pass rates and averages
+export const getCountedResults = (exam: Pick<Exam, 'id' | 'attemptScoring'>, submissions: Submission[]) => {
+  const byUser = new Map<string, Submission[]>();
+  submissions.filter(s => s.examId === exam.id).forEach(s => {
+    byUser.set(s.userId, [...(byUser.get(s.userId) || []), s]);
+  });
+
+  return Array.from(byUser.entries()).flatMap(([userId, attempts]) => {
+    const counted = getCountedScore(exam.attemptScoring, attempts);
+    return counted ? [{ userId, ...counted, attempts: attempts.length }] : [];
+  });
+};
@@ -0,0 +1,39 @@
+import { Exam } from './types';
+
+export type ExamWindowStatus = 'Upcoming' | 'Available' | 'Closed';
+
+// Mirrors getEntryWindow in api/_lib/deadline.ts; the server has the final say on start
+export const getExamWindow = (exam: Pick<Exam, 'opensAt' | 'closesAt' | 'lateEntryMinutes'>, now = Date.now()) => {
+  const opensAt = exam.opensAt ? new Date(exam.opensAt).getTime() : null;
+  const cutoffs = [
+    exam.closesAt ? new Date(exam.closesAt).getTime() : null,
+    opensAt !== null && exam.lateEntryMinutes != null ? opensAt + exam.lateEntryMinutes * 60000 : null
+  ].filter((t): t is number => t !== null);
+  const entryClosesAt = cutoffs.length > 0 ? Math.min(...cutoffs) : null;
+
+  let status: ExamWindowStatus = 'Available';
+  if (opensAt !== null && now < opensAt) status = 'Upcoming';
+  else if (entryClosesAt !== null && now >= entryClosesAt) status = 'Closed';
+
+  return { status, opensAt, entryClosesAt };
+};
+
+export const formatCountdown = (ms: number) => {
+  if (ms <= 0) return 'Ready';
+  const days = Math.floor(ms / 86400000);
+  const hours = Math.floor((ms % 86400000) / 3600000);
+  const mins = Math.floor((ms % 3600000) / 60000);
+  const secs = Math.floor((ms % 60000) / 1000);
+  return days > 0 ? `${days}d ${hours}h ${mins}m` : `${hours}h ${mins}m ${secs}s`;
+};
+
+// Label for exam cards: time to opening while upcoming, time to the entry cut-off once open
+export const getWindowCountdown = (exam: Pick<Exam, 'opensAt' | 'closesAt' | 'lateEntryMinutes'>, now = Date.now()): string | null => {
+  const { opensAt, entryClosesAt } = getExamWindow(exam, now);
+  if (opensAt !== null && opensAt > now) return `Opens in ${formatCountdown(opensAt - now)}`;
+  if (entryClosesAt !== null && entryClosesAt > now) {
+    const closesAt = exam.closesAt ? new Date(exam.closesAt).getTime() : null;
+    return `${closesAt === entryClosesAt ? 'Closes' : 'Entry closes'} in ${formatCountdown(entryClosesAt - now)}`;
+  }
+  return null;
+};
@@ -1,5 +1,10 @@
 
-import { logEvent } from './securityService';
+import type { Detection, FaceDetector } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+import noSimdLoaderPath from '@mediapipe/tasks-vision/vision_wasm_nosimd_internal.js?url';
+import noSimdBinaryPath from '@mediapipe/tasks-vision/vision_wasm_nosimd_internal.wasm?url';
+import { ProctoringEventType } from './types';
 
 export interface ProctoringState {
   hasCamera: boolean;
@@ -24,11 +29,198 @@ export const stopProctoring = (state: ProctoringState) => {
   state.activeStream?.getTracks().forEach(track => track.stop());
 };
 
-export const detectAnomalies = (videoElement: HTMLVideoElement) => {
-  // Mock AI behavior for facial presence detection
-  // In a real implementation, this would use a WebAssembly model (e.g., MediaPipe)
-  const isCandidatePresent = true; 
-  if (!isCandidatePresent) {
-    logEvent(null, 'PROCTOR_ANOMALY', 'Candidate presence lost in terminal field.', 'WARN');
+interface PendingProctoringEvent {
+  type: ProctoringEventType;
+  details?: string;
+  durationMs?: number;
+  occurredAt: number;
+}
+
+// Events wait here while offline (or while a send is in flight) and go out in batches
+const pendingEvents: Record<string, PendingProctoringEvent[]> = {};
+const sending = new Set<string>();
+const MAX_BATCH = 50; // Matches the server limit in api/log.ts
+
+export const flushProctoringEvents = async (submissionId: string) => {
+  if (sending.has(submissionId) || !navigator.onLine) return;
+  const queue = pendingEvents[submissionId];
+  if (!queue?.length) return;
+
+  const batch = queue.splice(0, MAX_BATCH);
+  sending.add(submissionId);
+  try {
+    // Plain fetch rather than api.ts: these fire mid-exam and must not trigger the global loading bar
+    const res = await fetch('/api/log', {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ submissionId, events: batch })
+    });
+    // Client errors (bad or foreign submission) will not succeed on retry
+    if (res.status >= 500 || res.status === 429) queue.unshift(...batch);
+  } catch (e) {
+    queue.unshift(...batch);
+  } finally {
+    sending.delete(submissionId);
   }
+  if (queue.length && navigator.onLine) setTimeout(() => flushProctoringEvents(submissionId), 5000);
+};
+
+export const reportProctoringEvent = (
+  submissionId: string,
+  type: ProctoringEventType,
+  extra: { details?: string; durationMs?: number; occurredAt?: number } = {}
+) => {
+  (pendingEvents[submissionId] ||= []).push({ type, occurredAt: Date.now(), ...extra });
+  flushProctoringEvents(submissionId);
+};
+
+// === Face presence (on-device) ===
+// BlazeFace short-range, served from /public so no frame or model request leaves our origin
+const FACE_MODEL_PATH = '/models/blaze_face_short_range.tflite';
+const SAMPLE_MS = 1000;
+const CONFIRM_FRAMES = 2; // A state must hold this many samples in a row, so one bad frame is ignored
+const YAW_LIMIT = 0.5; // Nose offset from the eye midpoint, in eye spans (~35° head turn)
+const SNAPSHOT_INTERVAL_MS = 60000;
+const SNAPSHOT_WIDTH = 160;
+const SNAPSHOT_HEIGHT = 120;
+
+type PresenceState = 'PRESENT' | 'NO_FACE' | 'MULTIPLE' | 'AWAY';
+
+// How long each state must last before it is reported, and what it is reported as
+const PRESENCE_RULES: Record<Exclude<PresenceState, 'PRESENT'>, { sustainMs: number; type: ProctoringEventType; label: string }> = {
+  NO_FACE: { sustainMs: 5000, type: 'FACE_NOT_DETECTED', label: 'No face in view' },
+  MULTIPLE: { sustainMs: 3000, type: 'MULTIPLE_FACES', label: 'More than one face in view' },
+  AWAY: { sustainMs: 8000, type: 'LOOKING_AWAY', label: 'Looking away from the screen' }
+};
+
+let detectorPromise: Promise<FaceDetector> | null = null;
+
+// The Wasm runtime and model load once, on first use, and are shared by later attempts
+const loadFaceDetector = () => {
+  if (!detectorPromise) {
+    detectorPromise = (async () => {
+      const { FaceDetector, FilesetResolver } = await import('@mediapipe/tasks-vision');
+      const fileset = await FilesetResolver.isSimdSupported()
+        ? { wasmLoaderPath, wasmBinaryPath }
+        : { wasmLoaderPath: noSimdLoaderPath, wasmBinaryPath: noSimdBinaryPath };
+      return FaceDetector.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: FACE_MODEL_PATH, delegate: 'CPU' },
+        runningMode: 'VIDEO',
+        minDetectionConfidence: 0.6
+      });
+    })();
+    detectorPromise.catch(() => { detectorPromise = null; });
+  }
+  return detectorPromise;
+};
+
+const classifyFrame = (detections: Detection[]): PresenceState => {
+  if (detections.length === 0) return 'NO_FACE';
+  if (detections.length > 1) return 'MULTIPLE';
+
+  // BlazeFace keypoints: right eye, left eye, nose tip, mouth, right ear, left ear
+  const [rightEye, leftEye, nose] = detections[0].keypoints;
+  if (!rightEye || !leftEye || !nose) return 'PRESENT';
+  const eyeSpan = Math.abs(leftEye.x - rightEye.x);
+  if (eyeSpan < 0.01) return 'AWAY'; // Side-on to the camera
+  const yaw = (nose.x - (leftEye.x + rightEye.x) / 2) / eyeSpan;
+  return Math.abs(yaw) > YAW_LIMIT ? 'AWAY' : 'PRESENT';
+};
+
+const captureSnapshot = (video: HTMLVideoElement): string | null => {
+  if (video.readyState < 2) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = SNAPSHOT_WIDTH;
+  canvas.height = SNAPSHOT_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, SNAPSHOT_WIDTH, SNAPSHOT_HEIGHT);
+  return canvas.toDataURL('image/jpeg', 0.6);
+};
+
+// Best effort: a missed still is not worth retrying
+const uploadSnapshot = (submissionId: string, imageData: string, reason?: string) => {
+  fetch(`/api/submissions?id=${submissionId}&action=snapshot`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ imageData, reason, takenAt: Date.now() })
+  }).catch(e => console.warn('[Proctoring] Snapshot upload failed', e));
+};
+
+/**
+ * Watches the webcam stream for the candidate's presence: no face, more than one face, or a
+ * head turned away, each reported once it has lasted long enough, with a still of the moment.
+ * Periodic stills are uploaded too. Frames are analysed in the browser and never uploaded
+ * apart from those stills. Returns a function that stops monitoring.
+ */
+export const startPresenceMonitor = (
+  stream: MediaStream,
+  submissionId: string,
+  onIncident?: (type: ProctoringEventType) => void
+): (() => void) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(() => { /* Autoplay of a muted local stream is allowed; nothing to recover */ });
+
+  let stopped = false;
+  let detectTimer: ReturnType<typeof setInterval> | undefined;
+
+  let state: PresenceState = 'PRESENT';
+  let stateSince = Date.now();
+  let reported = false;
+  let candidate: PresenceState = 'PRESENT';
+  let candidateFrames = 0;
+
+  const tick = (detector: FaceDetector) => {
+    if (video.readyState < 2) return;
+    let frame: PresenceState;
+    try {
+      frame = classifyFrame(detector.detectForVideo(video, performance.now()).detections);
+    } catch (e) {
+      return;
+    }
+
+    const now = Date.now();
+    if (frame !== state) {
+      candidateFrames = frame === candidate ? candidateFrames + 1 : 1;
+      candidate = frame;
+      if (candidateFrames < CONFIRM_FRAMES) return;
+      state = frame;
+      stateSince = now - (CONFIRM_FRAMES - 1) * SAMPLE_MS;
+      reported = false;
+    }
+    candidateFrames = 0;
+
+    if (state === 'PRESENT' || reported) return;
+    const rule = PRESENCE_RULES[state];
+    if (now - stateSince < rule.sustainMs) return;
+
+    reported = true;
+    reportProctoringEvent(submissionId, rule.type, { details: rule.label, occurredAt: stateSince });
+    onIncident?.(rule.type);
+    const still = captureSnapshot(video);
+    if (still) uploadSnapshot(submissionId, still, rule.type);
+  };
+
+  loadFaceDetector()
+    .then(detector => {
+      if (!stopped) detectTimer = setInterval(() => tick(detector), SAMPLE_MS);
+    })
+    .catch(e => console.warn('[Proctoring] Face detection unavailable:', e));
+
+  const snapshotTimer = setInterval(() => {
+    const still = captureSnapshot(video);
+    if (still) uploadSnapshot(submissionId, still);
+  }, SNAPSHOT_INTERVAL_MS);
+
+  return () => {
+    stopped = true;
+    clearInterval(detectTimer);
+    clearInterval(snapshotTimer);
+    video.srcObject = null;
+  };
 };
@@ -0,0 +1,77 @@
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+
+/**
+ * Rich text for question text and theory answers: a small HTML subset (the server stores nothing
+ * else, see api/_lib/richText.ts) with LaTeX written inline as $...$ or \(...\) and on its own
+ * line as $$...$$ or \[...\]. Math stays source text in storage and is typeset here, on display.
+ */
+
+export const RICH_TEXT_TAGS = [
+  'p', 'div', 'br', 'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'h3', 'h4'
+];
+const RICH_TEXT_ATTRS = ['colspan', 'rowspan'];
+
+const HTML_TAG = /<\/?[a-z][^>]*>/i;
+const MATH = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<![\\$])\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$/g;
+
+// Questions written before rich text are plain; their line breaks still matter
+const toHtml = (value: string) => HTML_TAG.test(value) ? value : value.replace(/\r?\n/g, '<br>');
+
+export const sanitizeRichText = (value: string): string =>
+  DOMPurify.sanitize(toHtml(value || ''), { ALLOWED_TAGS: RICH_TEXT_TAGS, ALLOWED_ATTR: RICH_TEXT_ATTRS, RETURN_TRUSTED_TYPE: false });
+
+const typesetMath = (root: ParentNode) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => node.parentElement?.closest('code, pre') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT
+  });
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+  for (const node of nodes) {
+    const text = node.data;
+    MATH.lastIndex = 0;
+    if (!MATH.test(text)) continue;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    MATH.lastIndex = 0;
+    for (const match of text.matchAll(MATH)) {
+      fragment.append(text.slice(last, match.index).replace(/\\\$/g, '$'));
+      const displayMode = match[1] !== undefined || match[2] !== undefined;
+      const source = match[1] ?? match[2] ?? match[3] ?? match[4];
+      const holder = document.createElement('span');
+      holder.innerHTML = katex.renderToString(source, { displayMode, throwOnError: false, trust: false, maxExpand: 500 });
+      fragment.append(...Array.from(holder.childNodes));
+      last = match.index! + match[0].length;
+    }
+    fragment.append(text.slice(last).replace(/\\\$/g, '$'));
+    node.replaceWith(fragment);
+  }
+};
+
+// Sanitized HTML with the math typeset, ready for dangerouslySetInnerHTML
+export const renderRichText = (value: string): string => {
+  const template = document.createElement('template');
+  template.innerHTML = sanitizeRichText(value);
+  typesetMath(template.content);
+  return template.innerHTML;
+};
+
+// Options, titles and other plain text fields: the text as typed, with the math typeset
+export const renderPlainWithMath = (value: string): string => {
+  const template = document.createElement('template');
+  template.content.append(value || '');
+  typesetMath(template.content);
+  return template.innerHTML;
+};
+
+// For previews, lists and titles where markup cannot go (math is left as its source)
+export const richTextToPlain = (value: string): string => {
+  const template = document.createElement('template');
+  template.innerHTML = sanitizeRichText(value).replace(/<(br|\/p|\/div|\/li|\/tr)>/gi, ' $&');
+  return (template.content.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+export const isRichTextEmpty = (value?: string) => !value || richTextToPlain(value) === '';
@@ -27,36 +27,63 @@ export const checkRateLimit = (key: string, limit: number, windowMs: number): bo
   return false;
 };
 
+// Module-level so the same references are removed as were added
+const preventDefault = (e: Event) => e.preventDefault();
+const blockShortcuts = (e: KeyboardEvent) => {
+  const mod = e.ctrlKey || e.metaKey;
+  if (
+    (mod && e.shiftKey && ['I', 'C', 'J'].includes(e.key.toUpperCase())) || // Devtools
+    (mod && ['u', 'p', 's'].includes(e.key.toLowerCase())) || // View source, print, save page
+    e.key === 'F12' ||
+    e.key === 'PrintScreen'
+  ) {
+    e.preventDefault();
+  }
+};
+
 export const enforceSecureEnvironment = (active: boolean) => {
-  const prevent = (e: Event) => {
-    if (active) {
-      e.preventDefault();
-      return false;
-    }
-  };
-
-  if (active) {
-    document.addEventListener('contextmenu', prevent);
-    document.addEventListener('copy', prevent);
-    document.addEventListener('paste', prevent);
-    document.addEventListener('cut', prevent);
-    document.addEventListener('keydown', (e) => {
-      if (active && (
-        (e.ctrlKey && e.shiftKey && (e.key === 'I' || e.key === 'C' || e.key === 'J')) ||
-        (e.ctrlKey && e.key === 'u') ||
-        (e.key === 'PrintScreen')
-      )) {
-        e.preventDefault();
-      }
-    });
-  } else {
-    document.removeEventListener('contextmenu', prevent);
-    document.removeEventListener('copy', prevent);
-    document.removeEventListener('paste', prevent);
-    document.removeEventListener('cut', prevent);
+  const toggle = active ? document.addEventListener.bind(document) : document.removeEventListener.bind(document);
+  toggle('contextmenu', preventDefault);
+  toggle('copy', preventDefault);
+  toggle('paste', preventDefault);
+  toggle('cut', preventDefault);
+  toggle('keydown', blockShortcuts);
+};
+
+// === Lockdown (see Exam.lockdownMode) ===
+
+export const isFullscreen = () => !!document.fullscreenElement;
+
+// Must be called from a user gesture (click / key press)
+export const requestExamFullscreen = async (): Promise<boolean> => {
+  try {
+    if (!document.fullscreenElement) await document.documentElement.requestFullscreen({ navigationUI: 'hide' });
+    return true;
+  } catch (e) {
+    console.warn('Fullscreen request refused:', e);
+    return false;
   }
 };
 
+export const exitExamFullscreen = () => {
+  if (document.fullscreenElement) document.exitFullscreen().catch(() => { /* Already left */ });
+};
+
+/**
+ * Whether more than one display is attached. Only Chromium browsers expose this
+ * (Window Management API); elsewhere the answer is null (unknown).
+ */
+export const hasMultipleScreens = (): boolean | null => {
+  const extended = (window.screen as Screen & { isExtended?: boolean }).isExtended;
+  return typeof extended === 'boolean' ? extended : null;
+};
+
+// Docked devtools take space from the viewport. A heuristic only: undocked devtools go unnoticed,
+// and unusual browser chrome or zoom levels can trip it.
+const DEVTOOLS_GAP_PX = 160;
+export const isDevtoolsLikelyOpen = () =>
+  window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX || window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX;
+
 export const initializeCspMonitoring = () => {
   document.addEventListener('securitypolicyviolation', (e: SecurityPolicyViolationEvent) => {
     logEvent(
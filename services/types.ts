@@ -8,9 +8,23 @@ export enum UserRole {
 export enum QuestionType {
   MCQ = 'MCQ',
   SBA = 'SBA',
+  MRQ = 'MRQ', // Multiple Response: "select all that apply"
+  NUMERIC = 'NUMERIC',
+  SHORT_ANSWER = 'SHORT_ANSWER',
   THEORY = 'THEORY'
 }
 
+export enum MrqScoringMode {
+  ALL_OR_NOTHING = 'ALL_OR_NOTHING',
+  PARTIAL = 'PARTIAL', // Per-option credit
+  RIGHT_MINUS_WRONG = 'RIGHT_MINUS_WRONG'
+}
+
+export enum ToleranceType {
+  ABSOLUTE = 'ABSOLUTE', // ± value
+  RELATIVE = 'RELATIVE' // ± percentage of the correct value
+}
+
 export enum Difficulty {
   EASY = 'EASY',
   MEDIUM = 'MEDIUM',
@@ -56,6 +70,20 @@ export interface ApiKey {
 
 
 
+export enum LlmProviderName {
+  GEMINI = 'gemini',
+  OPENAI = 'openai', // Any OpenAI-compatible /chat/completions endpoint
+  OLLAMA = 'ollama',
+  MOCK = 'mock'
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
 export interface SystemSettings {
   aiGlobalEnabled: boolean;
   aiQuestionGenEnabled: boolean;
@@ -123,6 +151,7 @@ export interface SystemSettings {
   apiKeys?: ApiKey[];
   smtpConfig?: SmtpConfig;
   oauthConfig?: OAuthConfig;
+  llmConfig?: LlmConfig;
 }
 
 export interface AppBranding {
@@ -146,6 +175,21 @@ export interface BlogPost {
   authorName: string;
   createdAt: number;
   published: boolean;
+  groups?: GroupRef[]; // Audience; empty = everyone
+}
+
+export type GroupKind = 'CLASS' | 'COHORT' | 'DEPARTMENT';
+
+export interface GroupRef {
+  id: string;
+  name: string;
+}
+
+// A class, cohort or department; exams and announcements can be addressed to it
+export interface Group extends GroupRef {
+  kind: GroupKind;
+  description?: string | null;
+  members: { id: string; name: string; email: string }[];
 }
 
 export interface User {
@@ -158,6 +202,18 @@ export interface User {
   isVerified: boolean;
   verificationToken?: string;
   passwordResetToken?: string;
+  accommodation?: Accommodation | null;
+  groups?: GroupRef[];
+}
+
+// Individual exam arrangements, applied by the server to every attempt's deadline
+export interface Accommodation {
+  extraTimePercent: number; // e.g. 25 = time and a quarter
+  extraMinutes: number;
+  restBreakMinutes: number; // Pausable break allowance per attempt
+  separateSitting: boolean;
+  notes?: string | null;
+  updatedAt?: string;
 }
 
 export interface Question {
@@ -165,13 +221,90 @@ export interface Question {
   type: QuestionType;
   text: string;
   imageUrl?: string;
+  attachments?: QuestionAttachment[]; // Stimuli shown with the question
   options?: string[];
   correctAnswer: string;
+  correctAnswers?: string[]; // MRQ: every option that must be selected
+  answerConfig?: QuestionAnswerConfig;
+  rubric?: RubricCriterion[]; // THEORY only
   points: number;
   category?: string;
+  difficulty?: Difficulty | null; // Used by exam pool rules
+  lockedOptions?: number[]; // Option positions that never move when shuffling (e.g. "All of the above")
+  batchId?: string | null;
   createdAt?: number;
 }
 
+export type MediaKind = 'IMAGE' | 'AUDIO' | 'VIDEO' | 'PDF';
+
+// An uploaded file kept in media storage (see api/_lib/media.ts)
+export interface QuestionAttachment {
+  id: string;
+  url: string;
+  kind: MediaKind;
+  contentType: string;
+  filename?: string;
+  playback?: MediaPlayback; // Audio and video only
+}
+
+// How a clip may be played during an attempt; enforced by the exam client and the server
+export interface MediaPlayback {
+  maxPlays: number | null; // null = unlimited
+  allowPause: boolean;
+  autoplay: boolean; // Starts when the question opens, if it has not been played yet
+}
+
+// Imports reference uploaded files by asset id or /api/media URL; the server fills in the rest
+export interface MediaRef {
+  id: string;
+  playback?: MediaPlayback;
+}
+
+export type MediaPlayEventType = 'PLAY' | 'PAUSE' | 'RESUME' | 'ENDED';
+
+// Submission.mediaPlays entry, keyed by attachment id
+export interface MediaPlayLog {
+  questionId: string;
+  plays: number;
+  events: { type: MediaPlayEventType; at: number }[];
+}
+
+// Type-specific answer / scoring settings (persisted as JSON)
+export interface QuestionAnswerConfig {
+  scoringMode?: MrqScoringMode;
+
+  // NUMERIC: correctAnswer holds the expected value
+  tolerance?: number;
+  toleranceType?: ToleranceType;
+  significantFigures?: number; // Answer must be given to exactly this many s.f.
+  acceptedUnits?: string[]; // e.g. ['m/s', 'ms^-1']
+  requireUnit?: boolean;
+
+  // SHORT_ANSWER: correctAnswers holds the accepted answers
+  acceptedPatterns?: string[]; // Regular expressions matched against the whole answer
+  caseSensitive?: boolean;
+  foldWhitespace?: boolean; // Default true
+  fuzzyDistance?: number; // Edits still auto-accepted
+  reviewDistance?: number; // Edits routed to manual review (default fuzzyDistance + 2)
+}
+
+export interface RubricLevel {
+  id: string;
+  label: string; // e.g. "Excellent"
+  points: number;
+  descriptor?: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string; // e.g. "Clinical reasoning"
+  description?: string;
+  levels: RubricLevel[];
+}
+
+// MRQ answers are the list of selected options; everything else is a string
+export type AnswerValue = string | string[];
+
 export interface TimerSettings {
   warningThresholdMinutes: number;
   autoSubmitOnExpiry: boolean;
@@ -186,6 +319,35 @@ export interface GradingPolicy {
   maxNegativeDeduction: number;
 }
 
+// "Draw `count` random questions matching these filters" (blank filters match anything)
+export interface ExamPoolRule {
+  id: string;
+  count: number;
+  category?: string;
+  difficulty?: Difficulty;
+  batchId?: string;
+  type?: QuestionType;
+  sectionId?: string; // Sectioned exams: where the draws go (default: last section)
+}
+
+// A part of the paper, taken in order. Candidates cannot return to a section that is locked or
+// timed once they have moved on; a timed section moves on by itself when its time runs out.
+export interface ExamSection {
+  id: string;
+  title: string;
+  instructions?: string | null;
+  timeLimitMinutes?: number | null;
+  locked?: boolean;
+  questionIds: string[]; // Fixed questions; candidates see their own paper's questions here
+}
+
+export interface SectionScore {
+  id: string;
+  title: string;
+  score: number; // Before negative marking and late penalty
+  maxScore: number;
+}
+
 export interface Exam {
   id: string;
   title: string;
@@ -193,7 +355,11 @@ export interface Exam {
   category: string;
   difficulty: Difficulty;
   durationMinutes: number;
-  questions: Question[];
+  questions: Question[]; // Fixed questions every candidate gets
+  poolRules?: ExamPoolRule[]; // Extra random draws per candidate
+  sections?: ExamSection[]; // Empty = one flat paper
+  shuffleQuestions?: boolean; // Default true; order is fixed per submission on the server
+  shuffleOptions?: boolean; // Default true
   resultRelease: ResultRelease;
   createdAt: number;
   totalPoints: number;
@@ -208,6 +374,43 @@ export interface Exam {
   resultReleaseMode?: 'MANUAL' | 'SCHEDULED' | 'INSTANT';
   resourceLink?: string;
   reviewed?: boolean;
+  opensAt?: string | null; // Availability window; no new attempts before opensAt or after closesAt
+  closesAt?: string | null;
+  fixedStart?: boolean; // Sitting: every candidate's clock starts at opensAt
+  lateEntryMinutes?: number | null; // Entry closes this long after opensAt
+  maxAttempts?: number; // Default 1; 0 = unlimited
+  attemptCooldownMinutes?: number;
+  attemptScoring?: AttemptScoring; // Which attempt counts towards results
+  attemptStatus?: ExamAttemptStatus; // Candidate's own standing (mode=available only)
+  assignedGroups?: GroupRef[]; // Nobody assigned = open to every candidate
+  assignedUsers?: { id: string; name: string; email: string }[];
+  accessCodeMode?: AccessCodeMode; // Start code for supervised sittings
+  accessCode?: string | null; // FIXED mode only; admins only
+  accessCodeRotationMinutes?: number; // ROTATING mode
+  requiresAccessCode?: boolean; // Candidate view: a start code must be entered
+  lockdownMode?: boolean; // Fullscreen required; violations counted
+  lockdownMaxViolations?: number; // Auto-submit threshold; 0 = warn only
+}
+
+export type AccessCodeMode = 'NONE' | 'FIXED' | 'ROTATING';
+
+// What an invigilator displays for a supervised sitting
+export interface AccessCodeDisplay {
+  mode: AccessCodeMode;
+  code: string | null;
+  expiresAt: number | null; // Rotating codes only
+  rotationMinutes: number;
+  serverNow: number;
+}
+
+export type AttemptScoring = 'BEST' | 'LAST' | 'AVERAGE';
+
+// Mirrors AttemptStatus in api/_lib/attempts.ts
+export interface ExamAttemptStatus {
+  used: number; // Finished attempts
+  max: number | null; // null = unlimited
+  inProgress: boolean;
+  nextAttemptAt: number | null; // Set while a cooldown is running
 }
 
 export interface ExamTemplate {
@@ -231,6 +434,11 @@ export interface QuestionResult {
   weaknesses?: string[];
   improvementSteps?: string[];
   isCorrect?: boolean;
+  needsReview?: boolean; // Near-miss short answer awaiting a grader
+  manuallyGraded?: boolean;
+  aiGraded?: boolean;
+  rubricSelections?: Record<string, string>; // criterionId -> levelId
+  criterionComments?: Record<string, string>; // criterionId -> grader comment
 }
 
 export interface Submission {
@@ -238,8 +446,10 @@ export interface Submission {
   examId: string;
   examVersion: number;
   userId: string; // Changed from studentId to match DB
-  answers: Record<string, string>;
+  answers: Record<string, AnswerValue>;
   questionResults: Record<string, QuestionResult>;
+  questionIds?: string[]; // Paper drawn for this attempt, in order
+  optionOrder?: Record<string, number[]>; // questionId -> option indices as shown to the candidate
   score: number;
   rawScore: number;
   negativeDeduction: number;
@@ -252,6 +462,11 @@ export interface Submission {
   timeSpentMs?: number;
   isLate?: boolean;
   source?: string;
+  proctorAlerts?: number;
+  terminatedAt?: string | Date | null; // Ended by an invigilator
+  terminationReason?: string | null;
+  sectionScores?: SectionScore[]; // Sectioned exams, once results are visible
+  mediaPlays?: Record<string, MediaPlayLog> | null; // Audio/video plays during the attempt
 
   reviewedAt?: string | Date;
   reviewedBy?: string;
@@ -261,6 +476,49 @@ export interface Submission {
   exam?: Partial<Exam>;
 }
 
+export type ProctoringEventType =
+  | 'TAB_HIDDEN' | 'WINDOW_BLUR' | 'FULLSCREEN_EXIT' | 'COPY_PASTE' | 'CAMERA_DENIED' | 'CONNECTION_LOST'
+  | 'FACE_NOT_DETECTED' | 'MULTIPLE_FACES' | 'LOOKING_AWAY' | 'MULTIPLE_SCREENS' | 'DEVTOOLS_OPEN';
+
+export interface ProctoringEvent {
+  id: string;
+  type: ProctoringEventType;
+  details: string | null;
+  durationMs: number | null;
+  occurredAt: string;
+}
+
+export interface ProctoringSnapshot {
+  id: string;
+  url: string; // Reviewer-only image URL (older stills: inline JPEG data URL)
+  reason: string | null; // Detection that triggered it; null for periodic stills
+  takenAt: string;
+}
+
+// Reviewer summary of an attempt's proctoring events (see api/_lib/integrity.ts)
+export interface IntegrityReport {
+  riskScore: number; // 0-100
+  level: 'LOW' | 'MEDIUM' | 'HIGH';
+  counts: Record<ProctoringEventType, number>;
+  events: ProctoringEvent[];
+  snapshots: ProctoringSnapshot[];
+}
+
+// An attempt in progress as seen from the invigilation view (mode=live)
+export interface LiveAttempt {
+  id: string;
+  userId: string;
+  user: { name: string; email: string };
+  startedAt: number;
+  deadline: number;
+  onBreak: boolean;
+  answeredCount: number;
+  questionCount: number;
+  lastDraftAt: string | null;
+  proctorAlerts: number;
+  extraTimeSeconds: number;
+}
+
 export interface AuditLog {
   id: string;
   userId: string;
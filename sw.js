@@ -1,48 +0,0 @@
-
-const CACHE_NAME = 'examinepro-v2.1';
-const ASSETS = [
-  '/',
-  '/index.html',
-  '/index.js',
-  '/manifest.json'
-];
-
-self.addEventListener('install', (event) => {
-  self.skipWaiting();
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
-  );
-});
-
-self.addEventListener('activate', (event) => {
-  event.waitUntil(
-    caches.keys().then((keys) => {
-      return Promise.all(
-        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
-      );
-    })
-  );
-});
-
-self.addEventListener('fetch', (event) => {
-  if (event.request.url.includes('generativelanguage.googleapis.com') || event.request.url.includes('esm.sh')) {
-    return;
-  }
-
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request).then(fetchRes => {
-        return caches.open(CACHE_NAME).then(cache => {
-          if (event.request.method === 'GET' && fetchRes.status === 200) {
-            cache.put(event.request, fetchRes.clone());
-          }
-          return fetchRes;
-        });
-      });
-    }).catch(() => {
-      if (event.request.mode === 'navigate') {
-        return caches.match('/index.html');
-      }
-    })
-  );
-});